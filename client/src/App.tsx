@@ -6,6 +6,10 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import RCAPage from "./pages/RCAPage";
 import RCAStepPage from "./pages/RCAStepPage";
+import OpenAnalysisPage from "./pages/OpenAnalysisPage";
+import LoginPage from "./pages/LoginPage";
+import StoreLinksPage from "./pages/StoreLinksPage";
+import { RequireAuth } from "./components/RequireAuth";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,11 +21,16 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route path="/" element={<RequireAuth><Index /></RequireAuth>} />
           {/* Redirect old RCA route to step 1 */}
           <Route path="/rca" element={<Navigate to="/rca/step/1" replace />} />
           {/* New step-based routes */}
-          <Route path="/rca/step/:step" element={<RCAStepPage />} />
+          <Route path="/rca/step/:step" element={<RequireAuth><RCAStepPage /></RequireAuth>} />
+          {/* Open a server-side saved analysis */}
+          <Route path="/analyses/:id" element={<RequireAuth><OpenAnalysisPage /></RequireAuth>} />
+          {/* Admin review of saved Salesforce matches */}
+          <Route path="/admin/store-links" element={<RequireAuth><StoreLinksPage /></RequireAuth>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,50 @@
+import { useNavigate } from "react-router-dom";
+import { Link2, LogOut, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/useAuth";
+import { hasRole } from "@shared/api";
+
+export function UserMenu() {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <User className="w-4 h-4" />
+          {user.username}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">
+          {user.email}
+          <span className="block text-xs capitalize">{user.role}</span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {hasRole(user.role, "admin") && (
+          <DropdownMenuItem onClick={() => navigate("/admin/store-links")}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Store links
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem
+          onClick={() => logout.mutate(undefined, { onSuccess: () => navigate("/login") })}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
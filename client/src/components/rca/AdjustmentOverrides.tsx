@@ -0,0 +1,171 @@
+import { useMemo } from 'react';
+import { ArrowUp, Filter, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SIZE_BUCKETS, type AdjustmentOverride, type SizeBucket } from '@shared/rca';
+import { STANDARD_FEATURE_CODES } from '@shared/featureCodes';
+import { SIZE_BUCKET_LABELS } from '@shared/rateGrid';
+import type { AdjustmentFactors, FeatureCode } from '@/types/rca';
+
+const FACTOR_FIELDS: { key: keyof AdjustmentFactors; label: string }[] = [
+  { key: 'captiveMarketPremium', label: 'Captive Market' },
+  { key: 'lossToLease', label: 'Loss to Lease' },
+  { key: 'ccAdj', label: 'CC Adjustment' },
+];
+
+interface AdjustmentOverridesProps {
+  overrides: AdjustmentOverride[];
+  // Base factors, shown as what an override inherits when a field is left blank
+  factors: AdjustmentFactors;
+  // Codes assigned on the Feature Codes step, if the analyst has been there
+  featureCodes: FeatureCode[];
+  onChange: (overrides: AdjustmentOverride[]) => void;
+}
+
+function newOverride(): AdjustmentOverride {
+  return {
+    id: crypto.randomUUID(),
+    label: '',
+    featureCodes: [],
+    sizeBuckets: [],
+    factors: {},
+  };
+}
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((entry) => entry !== item) : [...list, item];
+}
+
+export function AdjustmentOverrides({ overrides, factors, featureCodes, onChange }: AdjustmentOverridesProps) {
+  const codes = useMemo(() => {
+    const assigned = featureCodes.map((fc) => fc.code.toUpperCase());
+    return [...new Set([...STANDARD_FEATURE_CODES.map(({ code }) => code), ...assigned])];
+  }, [featureCodes]);
+
+  const update = (id: string, fields: Partial<AdjustmentOverride>) => {
+    onChange(overrides.map((override) => (override.id === id ? { ...override, ...fields } : override)));
+  };
+
+  const setFactor = (override: AdjustmentOverride, key: keyof AdjustmentFactors, value: string) => {
+    // Blank inherits the base factor, so drop the key rather than storing 0
+    const { [key]: _previous, ...rest } = override.factors;
+    const parsed = parseFloat(value);
+    update(override.id, { factors: Number.isNaN(parsed) ? rest : { ...rest, [key]: parsed } });
+  };
+
+  const moveUp = (index: number) => {
+    const next = [...overrides];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Filter className="w-5 h-5" />
+          Adjustment Overrides
+        </CardTitle>
+        <CardDescription>
+          Use different factors for specific feature codes or unit sizes. The first override matching a
+          grid row applies; blank factors keep the base value. The CC adjustment only applies to
+          non-climate units through an override that sets it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {overrides.map((override, index) => (
+          <div key={override.id} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="font-mono">{index + 1}</Badge>
+              <Input
+                value={override.label}
+                onChange={(e) => update(override.id, { label: e.target.value })}
+                placeholder="Name shown on the grid, e.g. Non-climate units"
+                aria-label="Override name"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => moveUp(index)}
+                disabled={index === 0}
+                aria-label="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(overrides.filter((entry) => entry.id !== override.id))}
+                aria-label="Remove override"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Feature Codes {override.featureCodes.length === 0 && <span className="text-muted-foreground font-normal">(all)</span>}</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {codes.map((code) => (
+                  <Badge
+                    key={code}
+                    variant={override.featureCodes.includes(code) ? 'default' : 'outline'}
+                    className="cursor-pointer font-mono"
+                    onClick={() => update(override.id, { featureCodes: toggle(override.featureCodes, code) })}
+                  >
+                    {code}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Unit Sizes {override.sizeBuckets.length === 0 && <span className="text-muted-foreground font-normal">(all)</span>}</Label>
+              <div className="flex flex-wrap gap-4">
+                {SIZE_BUCKETS.map((bucket: SizeBucket) => (
+                  <label key={bucket} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={override.sizeBuckets.includes(bucket)}
+                      onCheckedChange={() => update(override.id, { sizeBuckets: toggle(override.sizeBuckets, bucket) })}
+                    />
+                    {SIZE_BUCKET_LABELS[bucket]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {FACTOR_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`${override.id}-${key}`}>{label}</Label>
+                  <div className="relative">
+                    <Input
+                      id={`${override.id}-${key}`}
+                      type="number"
+                      step="0.1"
+                      placeholder={`${factors[key] || 0}`}
+                      value={override.factors[key] ?? ''}
+                      onChange={(e) => setFactor(override, key, e.target.value)}
+                      className="pr-8"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => onChange([...overrides, newOverride()])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Override
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
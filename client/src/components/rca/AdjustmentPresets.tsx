@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Archive, BookmarkPlus, History, Library, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  archiveAdjustmentPreset,
+  createAdjustmentPreset,
+  isForbiddenError,
+  listAdjustmentPresets,
+  listAdjustmentPresetVersions,
+  updateAdjustmentPreset,
+} from '@/lib/api';
+import { hasRole, type AdjustmentPreset } from '@shared/api';
+import { totalAdjustment } from '@shared/adjustments';
+import type { AdjustmentFactors, AdjustmentModel, AppliedAdjustmentPreset } from '@/types/rca';
+
+const PRESETS_KEY = ['adjustment-presets'];
+
+export interface PresetValues {
+  id: number;
+  name: string;
+  version: number;
+  factors: AdjustmentFactors;
+  model: AdjustmentModel;
+}
+
+interface AdjustmentPresetsProps {
+  factors: AdjustmentFactors;
+  model: AdjustmentModel;
+  applied: AppliedAdjustmentPreset | null;
+  // Suggested market for new presets, e.g. the subject store's city
+  defaultMarket: string | null;
+  onApply: (preset: PresetValues) => void;
+}
+
+function summary(factors: AdjustmentFactors, model: AdjustmentModel): string {
+  return `${totalAdjustment(factors).toFixed(1)}% factors, ${model.pointPercent}% per ranking point`;
+}
+
+function presetLabel(preset: AdjustmentPreset): string {
+  return preset.market ? `${preset.name} (${preset.market})` : preset.name;
+}
+
+export function AdjustmentPresets({ factors, model, applied, defaultMarket, onApply }: AdjustmentPresetsProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<string>(applied ? String(applied.id) : '');
+  const [saveMode, setSaveMode] = useState<'create' | 'update' | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [form, setForm] = useState({ name: '', market: '', description: '', note: '' });
+
+  const { data: presets = [], isLoading } = useQuery({
+    queryKey: PRESETS_KEY,
+    queryFn: listAdjustmentPresets,
+  });
+
+  const selected = presets.find((preset) => String(preset.id) === selectedId) ?? null;
+  const appliedPreset = applied ? presets.find((preset) => preset.id === applied.id) ?? null : null;
+  const canEdit = (preset: AdjustmentPreset | null) =>
+    !!preset && !!user && (preset.createdBy === user.id || hasRole(user.role, 'admin'));
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery({
+    queryKey: [...PRESETS_KEY, selected?.id, 'versions'],
+    queryFn: () => listAdjustmentPresetVersions(selected!.id),
+    enabled: historyOpen && !!selected,
+  });
+
+  const onError = (err: Error) => {
+    if (!isForbiddenError(err)) toast.error(err.message);
+  };
+
+  const save = useMutation({
+    mutationFn: () => {
+      const input = { ...form, factors, model };
+      return saveMode === 'update' && selected
+        ? updateAdjustmentPreset(selected.id, input)
+        : createAdjustmentPreset(input);
+    },
+    onSuccess: (preset) => {
+      toast.success(`Saved "${preset.name}" version ${preset.version}`);
+      queryClient.invalidateQueries({ queryKey: PRESETS_KEY });
+      setSelectedId(String(preset.id));
+      setSaveMode(null);
+      onApply(preset);
+    },
+    onError,
+  });
+
+  const archive = useMutation({
+    mutationFn: (id: number) => archiveAdjustmentPreset(id),
+    onSuccess: () => {
+      toast.success('Preset archived');
+      queryClient.invalidateQueries({ queryKey: PRESETS_KEY });
+      setSelectedId('');
+      setHistoryOpen(false);
+    },
+    onError,
+  });
+
+  const openSave = (mode: 'create' | 'update') => {
+    setForm(
+      mode === 'update' && selected
+        ? { name: selected.name, market: selected.market ?? '', description: selected.description, note: '' }
+        : { name: '', market: defaultMarket ?? '', description: '', note: '' },
+    );
+    setSaveMode(mode);
+  };
+
+  const apply = (preset: PresetValues) => {
+    onApply(preset);
+    toast.success(`Applied "${preset.name}" version ${preset.version}`);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="w-5 h-5" />
+          Team Presets
+        </CardTitle>
+        <CardDescription>
+          Start from a shared set of assumptions so RCAs in the same market stay consistent
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {applied && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Using</span>
+            <span className="font-medium">{applied.name}</span>
+            <Badge variant="outline">v{applied.version}</Badge>
+            {applied.modified && <Badge variant="secondary">Modified</Badge>}
+            {appliedPreset && appliedPreset.version > applied.version && (
+              <span className="text-muted-foreground">(version {appliedPreset.version} is available)</span>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Select value={selectedId} onValueChange={setSelectedId} disabled={isLoading || presets.length === 0}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={isLoading ? 'Loading presets…' : presets.length ? 'Choose a preset' : 'No presets yet'} />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.id} value={String(preset.id)}>
+                  {presetLabel(preset)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => selected && apply(selected)} disabled={!selected}>
+            Apply
+          </Button>
+        </div>
+
+        {selected && (
+          <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
+            {selected.description && <p>{selected.description}</p>}
+            <p className="text-muted-foreground">
+              Version {selected.version} · {summary(selected.factors, selected.model)}
+              {selected.updatedByName && ` · saved by ${selected.updatedByName}`}
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => openSave('create')}>
+            <BookmarkPlus className="w-4 h-4 mr-1" />
+            Save as New Preset
+          </Button>
+          {canEdit(selected) && (
+            <Button variant="outline" size="sm" onClick={() => openSave('update')}>
+              <Save className="w-4 h-4 mr-1" />
+              Save as Version {selected!.version + 1}
+            </Button>
+          )}
+          {selected && (
+            <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)}>
+              <History className="w-4 h-4 mr-1" />
+              History
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={saveMode !== null} onOpenChange={(open) => !open && setSaveMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{saveMode === 'update' ? `New version of "${selected?.name}"` : 'Save as New Preset'}</DialogTitle>
+            <DialogDescription>
+              Saves the current adjustment factors and ranking model ({summary(factors, model)}).
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            id="preset-form"
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (form.name.trim()) save.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="preset-name">Name</Label>
+              <Input
+                id="preset-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Urban infill"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-market">Market</Label>
+              <Input
+                id="preset-market"
+                value={form.market}
+                onChange={(e) => setForm({ ...form, market: e.target.value })}
+                placeholder="Leave blank for any market"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-description">Description</Label>
+              <Textarea
+                id="preset-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            {saveMode === 'update' && (
+              <div className="space-y-2">
+                <Label htmlFor="preset-note">What changed</Label>
+                <Input
+                  id="preset-note"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                />
+              </div>
+            )}
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveMode(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" form="preset-form" disabled={!form.name.trim() || save.isPending}>
+              {save.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>"{selected?.name}" history</DialogTitle>
+            <DialogDescription>Every saved version stays available to the analyses that used it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {versionsLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary mx-auto" />
+            ) : (
+              versions.map((version) => (
+                <div key={version.version} className="flex items-start justify-between gap-3 rounded-md border px-3 py-2">
+                  <div className="text-sm">
+                    <div className="font-medium">
+                      Version {version.version}
+                      <span className="font-normal text-muted-foreground">
+                        {' '}· {new Date(version.createdAt).toLocaleDateString()}
+                        {version.createdByName && ` · ${version.createdByName}`}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground">{summary(version.factors, version.model)}</div>
+                    {version.note && <div>{version.note}</div>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      apply({ ...version, id: version.presetId, name: selected!.name });
+                      setHistoryOpen(false);
+                    }}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+          {canEdit(selected) && (
+            <DialogFooter>
+              <Button
+                variant="ghost"
+                className="text-destructive"
+                onClick={() => archive.mutate(selected!.id)}
+                disabled={archive.isPending}
+              >
+                <Archive className="w-4 h-4 mr-1" />
+                Archive Preset
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,311 @@
+import { useMemo, useRef, useState, type MouseEvent } from 'react';
+import { cn } from '@/lib/utils';
+import { hasCoordinates, ringEdges } from '@shared/tradeArea';
+import type { LatLng, Store, TradeArea } from '@/types/rca';
+
+// A plain SVG projection rather than a tile map, so it works without network access
+const WIDTH = 640;
+const HEIGHT = 400;
+const PADDING = 24;
+const MARKER_RADIUS = 10;
+const MILES_PER_DEGREE_LAT = 69.0;
+
+interface CompetitorMapProps {
+  subjectStore: Store;
+  // In list order; markers are numbered to match
+  competitors: Store[];
+  selected: Set<number>;
+  onToggle: (storeId: number) => void;
+  // Search radius in miles
+  radius: number;
+  tradeArea: TradeArea;
+  // While drawing, clicks on the map add polygon vertices
+  drawing?: boolean;
+  onAddPoint?: (point: LatLng) => void;
+}
+
+interface PlottedStore {
+  store: Store;
+  number: number;
+  x: number;
+  y: number;
+}
+
+// 1, 2 or 5 times a power of ten, close to a third of the visible extent
+function scaleBarMiles(extent: number): number {
+  const target = extent / 3;
+  const power = 10 ** Math.floor(Math.log10(target));
+  return [5, 2, 1].map((step) => step * power).find((miles) => miles <= target) ?? power;
+}
+
+export function CompetitorMap({
+  subjectStore,
+  competitors,
+  selected,
+  onToggle,
+  radius,
+  tradeArea,
+  drawing = false,
+  onAddPoint,
+}: CompetitorMapProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const layout = useMemo(() => {
+    if (!hasCoordinates(subjectStore)) return null;
+    const lat0 = subjectStore.latitude!;
+    const lon0 = subjectStore.longitude!;
+    const milesPerDegreeLon = MILES_PER_DEGREE_LAT * Math.cos((lat0 * Math.PI) / 180);
+    const rings = tradeArea.kind === 'rings' ? ringEdges(tradeArea.edges) : [];
+    const polygon = tradeArea.kind === 'polygon' ? tradeArea.points : [];
+
+    // Offsets from the subject in miles, east and north
+    const offset = ({ latitude, longitude }: LatLng) => ({
+      east: (longitude - lon0) * milesPerDegreeLon,
+      north: (latitude - lat0) * MILES_PER_DEGREE_LAT,
+    });
+    const located = competitors
+      .map((store, index) => ({ store, number: index + 1 }))
+      .filter(({ store }) => hasCoordinates(store))
+      .map(({ store, number }) => ({
+        store,
+        number,
+        ...offset({ latitude: store.latitude!, longitude: store.longitude! }),
+      }));
+
+    // Vertices being drawn are already in view, and rescaling mid-drawing would move them
+    const reach = [...located, ...(drawing ? [] : polygon.map(offset))].reduce(
+      (max, { east, north }) => Math.max(max, Math.abs(east), Math.abs(north)),
+      0,
+    );
+    const extent = Math.max(radius, reach, rings[rings.length - 1] ?? 0, 0.5) * 1.1;
+    const pxPerMile = (Math.min(WIDTH, HEIGHT) / 2 - PADDING) / extent;
+    const center = { x: WIDTH / 2, y: HEIGHT / 2 };
+
+    const toPoint = (position: LatLng) => {
+      const { east, north } = offset(position);
+      return { x: center.x + east * pxPerMile, y: center.y - north * pxPerMile };
+    };
+    const toLatLng = (x: number, y: number): LatLng => ({
+      latitude: lat0 + (center.y - y) / pxPerMile / MILES_PER_DEGREE_LAT,
+      longitude: lon0 + (x - center.x) / pxPerMile / milesPerDegreeLon,
+    });
+
+    const plotted: PlottedStore[] = located.map(({ store, number, east, north }) => ({
+      store,
+      number,
+      x: center.x + east * pxPerMile,
+      y: center.y - north * pxPerMile,
+    }));
+
+    return {
+      center,
+      pxPerMile,
+      extent,
+      plotted,
+      rings,
+      polygonPoints: polygon.map(toPoint),
+      toLatLng,
+      unplotted: competitors.length - located.length,
+    };
+  }, [subjectStore, competitors, radius, tradeArea, drawing]);
+
+  if (!layout) {
+    return (
+      <div className="h-40 flex items-center justify-center text-sm text-muted-foreground border rounded-lg">
+        The subject store has no coordinates, so the map is unavailable.
+      </div>
+    );
+  }
+
+  const { center, pxPerMile, extent, plotted, rings, polygonPoints, toLatLng, unplotted } = layout;
+
+  const addPoint = (e: MouseEvent<SVGSVGElement>) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!drawing || !onAddPoint || !matrix) return;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    onAddPoint(toLatLng(point.x, point.y));
+  };
+  const scaleMiles = scaleBarMiles(extent);
+  // Selected markers draw last so they sit on top of unselected neighbours
+  const ordered = [...plotted].sort(
+    (a, b) => Number(selected.has(a.store.storeId)) - Number(selected.has(b.store.storeId)),
+  );
+  const hoveredStore = plotted.find(({ store }) => store.storeId === hovered);
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={cn('w-full h-auto max-h-[420px] border rounded-lg bg-slate-50', drawing && 'cursor-crosshair')}
+        role="group"
+        aria-label="Competitor map"
+        onClick={addPoint}
+      >
+        {/* Search radius */}
+        <circle
+          cx={center.x}
+          cy={center.y}
+          r={radius * pxPerMile}
+          className="fill-primary/5 stroke-primary/60"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+        />
+        <text
+          x={center.x}
+          y={center.y - radius * pxPerMile - 6}
+          textAnchor="middle"
+          className="fill-muted-foreground text-[11px]"
+        >
+          {radius} mi
+        </text>
+
+        {/* Ring bands */}
+        {rings.map((edge) => (
+          <g key={edge}>
+            <circle
+              cx={center.x}
+              cy={center.y}
+              r={edge * pxPerMile}
+              className="fill-none stroke-slate-400"
+              strokeWidth={1}
+              strokeDasharray="2 3"
+            />
+            <text
+              x={center.x + edge * pxPerMile * Math.SQRT1_2 + 3}
+              y={center.y - edge * pxPerMile * Math.SQRT1_2 - 3}
+              className="fill-slate-500 text-[10px]"
+            >
+              {edge} mi
+            </text>
+          </g>
+        ))}
+
+        {/* Drawn trade area */}
+        {polygonPoints.length >= 3 && !drawing ? (
+          <polygon
+            points={polygonPoints.map(({ x, y }) => `${x},${y}`).join(' ')}
+            className="fill-amber-400/15 stroke-amber-600"
+            strokeWidth={1.5}
+          />
+        ) : (
+          polygonPoints.length > 0 && (
+            <polyline
+              points={polygonPoints.map(({ x, y }) => `${x},${y}`).join(' ')}
+              className="fill-none stroke-amber-600"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+            />
+          )
+        )}
+        {drawing &&
+          polygonPoints.map(({ x, y }, i) => <circle key={i} cx={x} cy={y} r={3} className="fill-amber-600" />)}
+
+        {/* Subject, beneath competitors so a nearby one stays clickable */}
+        <g>
+          <rect
+            x={center.x - MARKER_RADIUS}
+            y={center.y - MARKER_RADIUS}
+            width={MARKER_RADIUS * 2}
+            height={MARKER_RADIUS * 2}
+            rx={3}
+            transform={`rotate(45 ${center.x} ${center.y})`}
+            className="fill-green-600 stroke-white"
+            strokeWidth={2}
+          />
+          <title>{`${subjectStore.storeName} (subject)`}</title>
+        </g>
+
+        {ordered.map(({ store, number, x, y }) => {
+          const isSelected = selected.has(store.storeId);
+          return (
+            <g
+              key={store.storeId}
+              role="button"
+              tabIndex={0}
+              aria-pressed={isSelected}
+              aria-label={`${number}. ${store.storeName}, ${store.distance} mi`}
+              className="cursor-pointer focus:outline-none"
+              onClick={(e) => {
+                // Selecting a competitor while drawing should not also add a vertex
+                e.stopPropagation();
+                onToggle(store.storeId);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  onToggle(store.storeId);
+                }
+              }}
+              onMouseEnter={() => setHovered(store.storeId)}
+              onMouseLeave={() => setHovered(null)}
+              onFocus={() => setHovered(store.storeId)}
+              onBlur={() => setHovered(null)}
+            >
+              <circle
+                cx={x}
+                cy={y}
+                r={MARKER_RADIUS}
+                className={cn(
+                  'stroke-primary transition-colors',
+                  isSelected ? 'fill-primary' : 'fill-white',
+                  hovered === store.storeId && 'stroke-foreground',
+                )}
+                strokeWidth={hovered === store.storeId ? 2.5 : 1.5}
+              />
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className={cn('text-[10px] font-medium pointer-events-none', isSelected ? 'fill-primary-foreground' : 'fill-primary')}
+              >
+                {number}
+              </text>
+              <title>{`${store.storeName} (${store.distance} mi)`}</title>
+            </g>
+          );
+        })}
+
+        {/* Scale bar */}
+        <g className="fill-muted-foreground stroke-muted-foreground">
+          <line
+            x1={PADDING}
+            x2={PADDING + scaleMiles * pxPerMile}
+            y1={HEIGHT - PADDING}
+            y2={HEIGHT - PADDING}
+            strokeWidth={2}
+          />
+          <text x={PADDING} y={HEIGHT - PADDING - 6} className="text-[11px] stroke-none">
+            {scaleMiles} mi
+          </text>
+        </g>
+
+        {hoveredStore && (
+          <text x={WIDTH - PADDING} y={PADDING} textAnchor="end" className="fill-foreground text-[12px] font-medium">
+            {hoveredStore.number}. {hoveredStore.store.storeName} · {hoveredStore.store.distance} mi
+          </text>
+        )}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="w-2.5 h-2.5 rotate-45 bg-green-600 inline-block" /> Subject
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-full bg-primary inline-block" /> Selected
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-full border border-primary bg-white inline-block" /> Not selected
+        </span>
+        <span>Click a marker to select or deselect it</span>
+        {unplotted > 0 && (
+          <span className="ml-auto">
+            {unplotted} competitor{unplotted !== 1 ? 's' : ''} without coordinates not shown
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Loader2, RotateCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { BackgroundJob, JobStoreProgress } from '@shared/api';
+
+interface JobProgressProps {
+  job: BackgroundJob;
+  title: string;
+  storeName: (storeId: number) => string;
+}
+
+const STORE_STATUS_LABELS: Record<JobStoreProgress['status'], string> = {
+  pending: 'Waiting',
+  running: 'Fetching',
+  retrying: 'Retrying',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+function percent(done: number, total: number): number {
+  return total > 0 ? Math.round((done / total) * 100) : 100;
+}
+
+export function JobProgress({ job, title, storeName }: JobProgressProps) {
+  const done = job.progress.reduce((sum, store) => sum + store.completedRanges, 0);
+  const total = job.progress.reduce((sum, store) => sum + store.totalRanges, 0);
+  const running = job.status === 'queued' || job.status === 'running';
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          {running && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+          {title}
+        </CardTitle>
+        <CardDescription>
+          {job.status === 'queued' && 'Waiting for earlier pulls to finish'}
+          {job.status === 'running' && `${done} of ${total} date ranges fetched`}
+          {job.status === 'succeeded' && 'Finished'}
+          {job.status === 'failed' && (job.error || 'Failed')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={percent(done, total)} className="h-2" />
+        {job.progress.map((store) => (
+          <div key={store.storeId} className="flex items-center gap-3 text-sm">
+            <span className="w-48 truncate">{storeName(store.storeId)}</span>
+            <Progress value={percent(store.completedRanges, store.totalRanges)} className="flex-1 h-1.5" />
+            {store.retries > 0 && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <RotateCw className="w-3 h-3" />
+                {store.retries}
+              </span>
+            )}
+            <Badge
+              variant={store.status === 'failed' ? 'destructive' : store.status === 'done' ? 'default' : 'outline'}
+              className="w-20 justify-center"
+              title={store.error || undefined}
+            >
+              {STORE_STATUS_LABELS[store.status]}
+            </Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
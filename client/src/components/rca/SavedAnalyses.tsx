@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Archive, ArchiveRestore, Copy, FolderOpen, Loader2, MoreHorizontal, Pencil, Search, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { WIZARD_STEPS } from '@/hooks/useRCAWizard';
+import { useAuth } from '@/hooks/useAuth';
+import { ShareAnalysisDialog } from '@/components/rca/ShareAnalysisDialog';
+import { duplicateAnalysis, listAnalyses, updateAnalysis, isForbiddenError } from '@/lib/api';
+import { hasRole, type AnalysisSummary } from '@shared/api';
+
+type SortKey = 'updated' | 'name' | 'subject' | 'step';
+
+const SORTERS: Record<SortKey, (a: AnalysisSummary, b: AnalysisSummary) => number> = {
+  updated: (a, b) => b.updatedAt.localeCompare(a.updatedAt),
+  name: (a, b) => a.name.localeCompare(b.name),
+  subject: (a, b) => (a.subjectStoreName || '').localeCompare(b.subjectStoreName || ''),
+  step: (a, b) => b.currentStep - a.currentStep,
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function SavedAnalyses() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [sharing, setSharing] = useState<AnalysisSummary | null>(null);
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('updated');
+  const [showArchived, setShowArchived] = useState(false);
+  const [renaming, setRenaming] = useState<AnalysisSummary | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const { data: analyses = [], isLoading, error } = useQuery({
+    queryKey: ['analyses', { archived: showArchived }],
+    queryFn: () => listAnalyses({ archived: showArchived }),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['analyses'] });
+
+  const duplicate = useMutation({
+    mutationFn: (id: number) => duplicateAnalysis(id),
+    onSuccess: (copy) => {
+      toast.success(`Created "${copy.name}"`);
+      invalidate();
+    },
+    onError: (err: Error) => {
+      if (!isForbiddenError(err)) toast.error(err.message);
+    },
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, changes }: { id: number; changes: { name?: string; archived?: boolean } }) =>
+      updateAnalysis(id, changes),
+    onSuccess: () => invalidate(),
+    onError: (err: Error) => {
+      if (!isForbiddenError(err)) toast.error(err.message);
+    },
+  });
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = term
+      ? analyses.filter((a) =>
+          [a.name, a.subjectStoreName, a.ownerName].some((value) => value?.toLowerCase().includes(term))
+        )
+      : analyses;
+    return [...filtered].sort(SORTERS[sortKey]);
+  }, [analyses, search, sortKey]);
+
+  const openRename = (analysis: AnalysisSummary) => {
+    setRenaming(analysis);
+    setNewName(analysis.name);
+  };
+
+  const submitRename = () => {
+    if (!renaming || !newName.trim()) return;
+    update.mutate(
+      { id: renaming.id, changes: { name: newName.trim() } },
+      { onSuccess: () => setRenaming(null) }
+    );
+  };
+
+  // Analyses saved before sign-in existed have no owner; only admins may change them
+  const isAdmin = !!user && hasRole(user.role, 'admin');
+  const isOwner = (analysis: AnalysisSummary) =>
+    analysis.ownerId === null ? isAdmin : analysis.ownerId === user?.id;
+  const canEdit = (analysis: AnalysisSummary) => analysis.ownerId !== null || isAdmin;
+
+  const toggleArchived = (analysis: AnalysisSummary) => {
+    update.mutate(
+      { id: analysis.id, changes: { archived: !analysis.archived } },
+      { onSuccess: () => toast.success(analysis.archived ? 'Analysis restored' : 'Analysis archived') }
+    );
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="text-xl">Saved Analyses</CardTitle>
+        <CardDescription>Pick up where you or a teammate left off</CardDescription>
+        <div className="flex flex-col md:flex-row md:items-center gap-3 pt-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, subject store or owner"
+              className="pl-9"
+            />
+          </div>
+          <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="updated">Last modified</SelectItem>
+              <SelectItem value="name">Name</SelectItem>
+              <SelectItem value="subject">Subject store</SelectItem>
+              <SelectItem value="step">Progress</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived" className="text-sm">Archived</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">
+            {error instanceof Error ? error.message : 'Failed to load analyses'}
+          </p>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            {search ? 'No analyses match your search' : showArchived ? 'No archived analyses' : 'No saved analyses yet'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Subject Store</TableHead>
+                <TableHead className="text-right">Competitors</TableHead>
+                <TableHead>Step</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Last Modified</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((analysis) => (
+                <TableRow
+                  key={analysis.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/analyses/${analysis.id}`)}
+                >
+                  <TableCell className="font-medium">
+                    {analysis.name}
+                    {analysis.archived && <Badge variant="secondary" className="ml-2">Archived</Badge>}
+                    {analysis.ownerId !== null && !isOwner(analysis) && (
+                      <Badge variant="outline" className="ml-2">Shared with you</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{analysis.subjectStoreName || '—'}</TableCell>
+                  <TableCell className="text-right">{analysis.competitorCount}</TableCell>
+                  <TableCell>
+                    {analysis.currentStep}. {WIZARD_STEPS[analysis.currentStep - 1]?.name}
+                  </TableCell>
+                  <TableCell>{analysis.ownerName || '—'}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatDate(analysis.updatedAt)}</TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => navigate(`/analyses/${analysis.id}`)}>
+                          <FolderOpen className="w-4 h-4 mr-2" />
+                          Open
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => duplicate.mutate(analysis.id)}>
+                          <Copy className="w-4 h-4 mr-2" />
+                          Duplicate
+                        </DropdownMenuItem>
+                        {canEdit(analysis) && (
+                          <DropdownMenuItem onClick={() => openRename(analysis)}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                        )}
+                        {isOwner(analysis) && (
+                          <>
+                            <DropdownMenuItem onClick={() => setSharing(analysis)}>
+                              <Share2 className="w-4 h-4 mr-2" />
+                              Share
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => toggleArchived(analysis)}>
+                              {analysis.archived ? (
+                                <ArchiveRestore className="w-4 h-4 mr-2" />
+                              ) : (
+                                <Archive className="w-4 h-4 mr-2" />
+                              )}
+                              {analysis.archived ? 'Restore' : 'Archive'}
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Analysis</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRename} disabled={!newName.trim() || update.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ShareAnalysisDialog analysis={sharing} onClose={() => setSharing(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Loader2, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { listAnalysisShares, shareAnalysis, unshareAnalysis, isForbiddenError } from '@/lib/api';
+import type { AnalysisSummary } from '@shared/api';
+
+interface ShareAnalysisDialogProps {
+  analysis: AnalysisSummary | null;
+  onClose: () => void;
+}
+
+export function ShareAnalysisDialog({ analysis, onClose }: ShareAnalysisDialogProps) {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState('');
+  const sharesKey = ['analyses', analysis?.id, 'shares'];
+
+  const { data: shares = [], isLoading } = useQuery({
+    queryKey: sharesKey,
+    queryFn: () => listAnalysisShares(analysis!.id),
+    enabled: !!analysis,
+  });
+
+  const add = useMutation({
+    mutationFn: (name: string) => shareAnalysis(analysis!.id, name),
+    onSuccess: (entry) => {
+      toast.success(`Shared with ${entry.username}`);
+      setUsername('');
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+    },
+    onError: (err: Error) => {
+      if (!isForbiddenError(err)) toast.error(err.message);
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (userId: number) => unshareAnalysis(analysis!.id, userId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: sharesKey }),
+    onError: (err: Error) => {
+      if (!isForbiddenError(err)) toast.error(err.message);
+    },
+  });
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) add.mutate(username.trim());
+  };
+
+  return (
+    <Dialog open={!!analysis} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share "{analysis?.name}"</DialogTitle>
+          <DialogDescription>People you share with can open and edit this analysis.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={submit} className="flex gap-2">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoFocus
+          />
+          <Button type="submit" disabled={!username.trim() || add.isPending} className="gap-2">
+            <UserPlus className="w-4 h-4" />
+            Share
+          </Button>
+        </form>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary mx-auto" />
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Not shared with anyone yet</p>
+          ) : (
+            shares.map((share) => (
+              <div key={share.userId} className="flex items-center justify-between rounded-md border px-3 py-2">
+                <span className="text-sm">{share.username}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => remove.mutate(share.userId)}
+                  disabled={remove.isPending}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
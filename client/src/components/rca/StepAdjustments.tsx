@@ -1,27 +1,145 @@
-import { Percent, Info } from 'lucide-react';
+import { useMemo } from 'react';
+import { Percent, Info, Scale, ChevronRight, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import type { AdjustmentFactors } from '@/types/rca';
+import { AdjustmentPresets, type PresetValues } from '@/components/rca/AdjustmentPresets';
+import { AdjustmentOverrides } from '@/components/rca/AdjustmentOverrides';
+import type {
+  AdjustmentFactors,
+  AdjustmentModel,
+  AppliedAdjustmentPreset,
+  FeatureCode,
+  Store,
+  StoreRankings,
+} from '@/types/rca';
+import { RANKING_CATEGORIES } from '@shared/rca';
+import { DEFAULT_ADJUSTMENT_MODEL, explainAdjustment, type AdjustmentBreakdown } from '@shared/adjustments';
 
 const ADJUSTMENT_INFO = {
   captiveMarketPremium: 'Additional premium for captive market locations (e.g., apartment complexes, military bases)',
   lossToLease: 'Adjustment for existing below-market leases',
-  ccAdj: 'Climate control adjustment factor',
+  ccAdj: 'Climate control adjustment factor, applied to climate-controlled units only unless an override sets it for others',
 };
 
 interface StepAdjustmentsProps {
   factors: AdjustmentFactors;
   onUpdate: (factors: Partial<AdjustmentFactors>) => void;
+  model: AdjustmentModel;
+  onUpdateModel: (model: Partial<AdjustmentModel>) => void;
+  preset: AppliedAdjustmentPreset | null;
+  onApplyPreset: (preset: PresetValues) => void;
+  subjectStore: Store | null;
+  selectedStores: Store[];
+  storeRankings: Record<number, StoreRankings>;
+  customNames: Record<number, string>;
+  featureCodes: FeatureCode[];
   onNext: () => void;
   onBack: () => void;
 }
 
-export function StepAdjustments({ factors, onUpdate, onNext, onBack }: StepAdjustmentsProps) {
+function signed(percent: number): string {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+// Empty means no bound
+function parseBound(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function BreakdownRow({ name, breakdown }: { name: string; breakdown: AdjustmentBreakdown }) {
   return (
-    <div className="max-w-2xl mx-auto animate-fade-in">
+    <Collapsible className="border rounded-lg">
+      <CollapsibleTrigger className="group flex w-full items-center gap-3 p-3 text-left text-sm">
+        <ChevronRight className="w-4 h-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
+        <span className="flex-1 truncate font-medium">{name}</span>
+        {breakdown.basis === 'unranked' && <Badge variant="outline">Not ranked</Badge>}
+        {breakdown.bound && <Badge variant="secondary">{breakdown.bound === 'cap' ? 'Capped' : 'Floored'}</Badge>}
+        <span className="w-20 text-right font-mono font-semibold">{signed(breakdown.percent)}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t p-3 text-sm space-y-3">
+        {breakdown.categories.length > 0 && (
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium pb-1">Category</th>
+                <th className="text-right font-medium pb-1">Subject</th>
+                <th className="text-right font-medium pb-1">Competitor</th>
+                <th className="text-right font-medium pb-1">Weight</th>
+                <th className="text-right font-medium pb-1">Contribution</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {breakdown.categories.map((category) => (
+                <tr key={category.category}>
+                  <td className="font-sans py-0.5">{category.category}</td>
+                  <td className="text-right">{category.subject}</td>
+                  <td className="text-right">{category.competitor}</td>
+                  <td className="text-right">{category.weight}</td>
+                  <td className="text-right">{signed(category.percent)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="space-y-1 text-muted-foreground">
+          <p>Adjustment factors: <span className="font-mono">{signed(breakdown.factorsPercent)}</span></p>
+          <p>
+            Ranking difference:{' '}
+            <span className="font-mono">{signed(breakdown.rankingPercent)}</span>
+            {breakdown.basis === 'unranked' && ' (subject or competitor has no rankings yet)'}
+          </p>
+          {breakdown.bound && (
+            <p>
+              {signed(breakdown.unboundedPercent)} limited to the {breakdown.bound === 'cap' ? 'cap' : 'floor'} of{' '}
+              <span className="font-mono">{signed(breakdown.percent)}</span>
+            </p>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function StepAdjustments({
+  factors,
+  onUpdate,
+  model,
+  onUpdateModel,
+  preset,
+  onApplyPreset,
+  subjectStore,
+  selectedStores,
+  storeRankings,
+  customNames,
+  featureCodes,
+  onNext,
+  onBack,
+}: StepAdjustmentsProps) {
+  const competitors = useMemo(
+    () => selectedStores.filter((store) => store.storeId !== subjectStore?.storeId),
+    [selectedStores, subjectStore],
+  );
+  const breakdowns = useMemo(
+    () =>
+      competitors.map((store) =>
+        explainAdjustment(store.storeId, {
+          subjectStore,
+          storeRankings,
+          adjustmentFactors: factors,
+          adjustmentModel: model,
+        }),
+      ),
+    [competitors, subjectStore, storeRankings, factors, model],
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in">
       <div className="mb-6 text-center">
         <h2 className="text-2xl font-semibold mb-2">Adjustment Factors</h2>
         <p className="text-muted-foreground">
@@ -29,6 +147,14 @@ export function StepAdjustments({ factors, onUpdate, onNext, onBack }: StepAdjus
         </p>
       </div>
 
+      <AdjustmentPresets
+        factors={factors}
+        model={model}
+        applied={preset}
+        defaultMarket={subjectStore ? `${subjectStore.city}, ${subjectStore.state}` : null}
+        onApply={onApplyPreset}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -138,6 +264,131 @@ export function StepAdjustments({ factors, onUpdate, onNext, onBack }: StepAdjus
         </CardContent>
       </Card>
 
+      <AdjustmentOverrides
+        overrides={model.overrides}
+        factors={factors}
+        featureCodes={featureCodes}
+        onChange={(overrides) => onUpdateModel({ overrides })}
+      />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                Ranking Adjustment Model
+              </CardTitle>
+              <CardDescription className="mt-1.5">
+                Each competitor is adjusted by the weighted average of its ranking differences from the subject
+                store, times the percentage per point, on top of the factors above
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => onUpdateModel({ ...DEFAULT_ADJUSTMENT_MODEL, overrides: model.overrides })}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pointPercent">Per Ranking Point</Label>
+              <div className="relative">
+                <Input
+                  id="pointPercent"
+                  type="number"
+                  step="0.1"
+                  value={model.pointPercent}
+                  onChange={(e) => onUpdateModel({ pointPercent: parseFloat(e.target.value) || 0 })}
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="floorPercent">Floor</Label>
+              <div className="relative">
+                <Input
+                  id="floorPercent"
+                  type="number"
+                  step="0.5"
+                  placeholder="None"
+                  value={model.floorPercent ?? ''}
+                  onChange={(e) => onUpdateModel({ floorPercent: parseBound(e.target.value) })}
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="capPercent">Cap</Label>
+              <div className="relative">
+                <Input
+                  id="capPercent"
+                  type="number"
+                  step="0.5"
+                  placeholder="None"
+                  value={model.capPercent ?? ''}
+                  onChange={(e) => onUpdateModel({ capPercent: parseBound(e.target.value) })}
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category Weights</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {RANKING_CATEGORIES.map((category) => (
+                <div key={category} className="space-y-1">
+                  <Label htmlFor={`weight-${category}`} className="text-xs text-muted-foreground font-normal">
+                    {category}
+                  </Label>
+                  <Input
+                    id={`weight-${category}`}
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={model.weights[category]}
+                    onChange={(e) =>
+                      onUpdateModel({
+                        weights: { ...model.weights, [category]: Math.max(0, parseFloat(e.target.value) || 0) },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">How Each Competitor's Adjustment Is Derived</h4>
+            {model.overrides.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Shown with the base factors; grid rows matching an override use its factors instead.
+              </p>
+            )}
+            {breakdowns.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Select competitors to see their adjustments.</p>
+            ) : (
+              breakdowns.map((breakdown) => (
+                <BreakdownRow
+                  key={breakdown.storeId}
+                  name={
+                    customNames[breakdown.storeId] ||
+                    competitors.find((store) => store.storeId === breakdown.storeId)?.storeName ||
+                    `Store ${breakdown.storeId}`
+                  }
+                  breakdown={breakdown}
+                />
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="mt-8 flex justify-between">
         <Button variant="outline" onClick={onBack}>
           Back
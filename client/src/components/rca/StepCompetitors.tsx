@@ -1,24 +1,85 @@
-import { useState } from 'react';
-import { Building2, MapPin, Navigation, Check, CheckSquare, Square, Loader2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Building2, MapPin, Navigation, Check, CheckSquare, Square, Loader2, Map as MapIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
-import type { Store } from '@/types/rca';
+import { CompetitorMap } from '@/components/rca/CompetitorMap';
+import { DEFAULT_RING_EDGES, OUTSIDE_BAND, ringEdges, storeBand, tradeAreaBands } from '@shared/tradeArea';
+import type { Store, TradeArea } from '@/types/rca';
+
+const TRADE_AREA_KINDS: { kind: TradeArea['kind']; label: string }[] = [
+  { kind: 'radius', label: 'Search radius' },
+  { kind: 'rings', label: 'Ring bands' },
+  { kind: 'polygon', label: 'Drawn area' },
+];
 
 interface StepCompetitorsProps {
   subjectStore: Store;
   competitors: Store[];
+  // Search radius in miles, drawn on the map
+  radius: number;
+  tradeArea: TradeArea;
+  onUpdateTradeArea: (tradeArea: TradeArea) => void;
   onSelect: (stores: Store[]) => Promise<void>;
   onNext: () => void;
   onBack: () => void;
   isLoading?: boolean;
 }
 
-export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, onBack, isLoading }: StepCompetitorsProps) {
+export function StepCompetitors({
+  subjectStore,
+  competitors,
+  radius,
+  tradeArea,
+  onUpdateTradeArea,
+  onSelect,
+  onNext,
+  onBack,
+  isLoading,
+}: StepCompetitorsProps) {
   const [selected, setSelected] = useState<Set<number>>(new Set());
   const [isFetchingMetadata, setIsFetchingMetadata] = useState(false);
+  const [drawing, setDrawing] = useState(false);
+  const [edgesText, setEdgesText] = useState(
+    tradeArea.kind === 'rings' ? tradeArea.edges.join(', ') : DEFAULT_RING_EDGES.join(', '),
+  );
+
+  const bands = useMemo(() => tradeAreaBands(tradeArea), [tradeArea]);
+  const bandByStore = useMemo(
+    () => new Map(competitors.map((store) => [store.storeId, storeBand(store, tradeArea)])),
+    [competitors, tradeArea],
+  );
+
+  const changeKind = (kind: TradeArea['kind']) => {
+    setDrawing(kind === 'polygon');
+    if (kind === 'rings') {
+      // Default bands inside the search radius, ending at it
+      const edges = [...DEFAULT_RING_EDGES.filter((edge) => edge < radius), radius];
+      setEdgesText(edges.join(', '));
+      onUpdateTradeArea({ kind, edges });
+    } else {
+      onUpdateTradeArea(kind === 'polygon' ? { kind, points: [] } : { kind });
+    }
+  };
+
+  const applyEdges = () => {
+    const edges = ringEdges(edgesText.split(/[,\s]+/).map(Number));
+    setEdgesText(edges.join(', '));
+    if (edges.length > 0) onUpdateTradeArea({ kind: 'rings', edges });
+  };
+
+  const selectWithinTradeArea = () => {
+    const within = competitors.filter((store) => {
+      const band = bandByStore.get(store.storeId);
+      return band && band.key !== OUTSIDE_BAND;
+    });
+    setSelected(new Set(within.map((store) => store.storeId)));
+  };
 
   const toggleStore = (storeId: number) => {
     const newSelected = new Set(selected);
@@ -85,6 +146,102 @@ export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, o
           </div>
         </div>
 
+        <Card className="mb-4">
+          <CardHeader className="pb-2">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <MapIcon className="w-4 h-4" />
+                Map
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Label className="text-sm font-normal text-muted-foreground">Trade area</Label>
+                <Select value={tradeArea.kind} onValueChange={(kind) => changeKind(kind as TradeArea['kind'])}>
+                  <SelectTrigger className="w-40 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRADE_AREA_KINDS.map(({ kind, label }) => (
+                      <SelectItem key={kind} value={kind}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {tradeArea.kind === 'rings' && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="ring-edges" className="text-sm shrink-0">Band edges (miles)</Label>
+                <Input
+                  id="ring-edges"
+                  value={edgesText}
+                  onChange={(e) => setEdgesText(e.target.value)}
+                  onBlur={applyEdges}
+                  onKeyDown={(e) => e.key === 'Enter' && applyEdges()}
+                  className="h-8 max-w-48"
+                />
+              </div>
+            )}
+            {tradeArea.kind === 'polygon' && (
+              <div className="flex flex-wrap items-center gap-2">
+                {drawing ? (
+                  <>
+                    <span className="text-sm text-muted-foreground">
+                      Click the map to add corners ({tradeArea.points.length} so far)
+                    </span>
+                    <Button size="sm" onClick={() => setDrawing(false)} disabled={tradeArea.points.length < 3}>
+                      Finish
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      onUpdateTradeArea({ kind: 'polygon', points: [] });
+                      setDrawing(true);
+                    }}
+                  >
+                    Redraw Area
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <CompetitorMap
+              subjectStore={subjectStore}
+              competitors={competitors}
+              selected={selected}
+              onToggle={toggleStore}
+              radius={radius}
+              tradeArea={tradeArea}
+              drawing={drawing}
+              onAddPoint={(point) =>
+                tradeArea.kind === 'polygon' &&
+                onUpdateTradeArea({ kind: 'polygon', points: [...tradeArea.points, point] })
+              }
+            />
+
+            {bands.length > 0 && !drawing && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {bands.map((band) => {
+                  const count = competitors.filter((store) => bandByStore.get(store.storeId)?.key === band.key).length;
+                  return (
+                    <Badge key={band.key} variant="secondary">
+                      {band.label}: {count}
+                    </Badge>
+                  );
+                })}
+                <Button variant="outline" size="sm" className="ml-auto" onClick={selectWithinTradeArea}>
+                  Select Within Trade Area
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <div className="grid gap-3">
           {competitors.map((store, index) => {
             const isSelected = selected.has(store.storeId);
@@ -116,6 +273,11 @@ export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, o
                         <Badge variant="outline" className="shrink-0">
                           ID: {store.storeId}
                         </Badge>
+                        {bandByStore.get(store.storeId) && (
+                          <Badge variant="secondary" className="shrink-0">
+                            {bandByStore.get(store.storeId)!.label}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
                         <span className="flex items-center gap-1">
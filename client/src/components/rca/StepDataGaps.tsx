@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Database, AlertTriangle, Check, DollarSign, Loader2 } from 'lucide-react';
+import { Database, AlertTriangle, Check, DollarSign, Download, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -7,13 +7,19 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
-import type { DateGap } from '@/types/rca';
+import type { DateGap, DateRange, GapFillResult } from '@/types/rca';
+import type { BackgroundJob, GapSettings } from '@shared/api';
+import { JobProgress } from '@/components/rca/JobProgress';
 
 interface StepDataGapsProps {
   gaps: DateGap[];
   selectedApiStores: number[];
   onSetApiStores: (ids: number[]) => void;
   onAnalyze: () => void;
+  gapSettings: GapSettings | null;
+  gapFill: GapFillResult | null;
+  activeJob: BackgroundJob | null;
+  onFetchMissing: () => Promise<unknown>;
   isLoading: boolean;
   onNext: () => void;
   onBack: () => void;
@@ -24,11 +30,16 @@ export function StepDataGaps({
   selectedApiStores, 
   onSetApiStores, 
   onAnalyze, 
+  gapSettings,
+  gapFill,
+  activeJob,
+  onFetchMissing,
   isLoading, 
   onNext, 
   onBack 
 }: StepDataGapsProps) {
   const [analyzed, setAnalyzed] = useState(false);
+  const [fetching, setFetching] = useState(false);
 
   useEffect(() => {
     if (gaps.length === 0 && !analyzed) {
@@ -58,6 +69,21 @@ export function StepDataGaps({
     onSetApiStores([]);
   };
 
+  const fetchMissing = async () => {
+    setFetching(true);
+    try {
+      await onFetchMissing();
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const formatRange = (range: DateRange) =>
+    range.from === range.to ? range.from : `${range.from} – ${range.to}`;
+
+  const storeName = (storeId: number) =>
+    gaps.find((g) => g.storeId === storeId)?.storeName || `Store ${storeId}`;
+
   if (isLoading) {
     return (
       <div className="max-w-3xl mx-auto animate-fade-in">
@@ -125,8 +151,12 @@ export function StepDataGaps({
                       {hasGaps ? (
                         <div className="text-sm text-muted-foreground">
                           <span className="text-warning">{gap.missingDays} days</span> missing
+                          {gap.yearsNeeded.length > 0 && <span> • Years: {gap.yearsNeeded.join(', ')}</span>}
                           {gap.dateRanges.length > 0 && (
-                            <span> • Ranges: {gap.dateRanges.join(', ')}</span>
+                            <span>
+                              {' '}• Ranges: {gap.dateRanges.slice(0, 3).map(formatRange).join(', ')}
+                              {gap.dateRanges.length > 3 && ` +${gap.dateRanges.length - 3} more`}
+                            </span>
                           )}
                         </div>
                       ) : (
@@ -155,7 +185,9 @@ export function StepDataGaps({
             <AlertTitle>API Fetch Warning</AlertTitle>
             <AlertDescription>
               Fetching missing data via API incurs costs. Select stores carefully.
-              API fetches are billed at $12.50 per year of historical data per store.
+              API fetches are billed per calendar year of historical data per store
+              {gapSettings && ` ($${gapSettings.priceTable.perStoreYear.toFixed(2)} per year)`}.
+              {gapSettings && ` Gaps are measured against a ${gapSettings.cadence} collection cadence.`}
             </AlertDescription>
           </Alert>
 
@@ -175,11 +207,73 @@ export function StepDataGaps({
               <Button variant="outline" size="sm" onClick={selectNone}>
                 Clear Selection
               </Button>
+              <Button
+                size="sm"
+                onClick={fetchMissing}
+                disabled={selectedApiStores.length === 0 || fetching}
+                className="gap-2"
+              >
+                {fetching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Fetch Missing Data
+              </Button>
             </div>
           </div>
         </>
       )}
 
+      {fetching && activeJob && (
+        <div className="mt-4">
+          <JobProgress job={activeJob} title="Fetching missing data" storeName={storeName} />
+        </div>
+      )}
+
+      {gapFill && (
+        <Card className="mt-4">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <DollarSign className="w-4 h-4" />
+              Last API Fetch
+            </CardTitle>
+            <CardDescription>{new Date(gapFill.fetchedAt).toLocaleString()}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Estimated cost</p>
+                <p className="font-mono font-medium">${gapFill.estimatedCost.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Actual cost</p>
+                <p className="font-mono font-medium">${gapFill.actualCost.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Records added</p>
+                <p className="font-mono font-medium">{gapFill.recordsAdded}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Duplicates skipped</p>
+                <p className="font-mono font-medium">{gapFill.duplicatesSkipped}</p>
+              </div>
+            </div>
+            {gapFill.stores.map((store) => (
+              <div key={store.storeId} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  <Database className="w-3 h-3 text-muted-foreground" />
+                  {storeName(store.storeId)}
+                </span>
+                {store.error ? (
+                  <span className="text-destructive">{store.error}</span>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {store.recordCount} records • ${store.cost.toFixed(2)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {storesWithGaps.length === 0 && gaps.length > 0 && (
         <Alert className="mt-6 border-success/50 bg-success/10">
           <Check className="h-4 w-4 text-success" />
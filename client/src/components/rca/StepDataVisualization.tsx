@@ -1,10 +1,12 @@
-import { useState, useMemo, useEffect } from 'react';
-import { FileDown, BarChart3, Loader2, ChevronDown, ChevronRight, Settings2 } from 'lucide-react';
+import { Fragment, useState, useMemo, useEffect } from 'react';
+import { FileDown, FileSpreadsheet, FileText, BarChart3, Loader2, ChevronDown, ChevronRight, Settings2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import {
   Dialog,
   DialogContent,
@@ -18,11 +20,25 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import type { Store, StoreMetadata, AdjustmentFactors, RateRecord, FeatureCode, StoreRankings } from '@/types/rca';
-
-// Default unit sizes from RCA_script.py
-const DEFAULT_UNIT_SIZES = ['5x5', '5x10', '10x10', '10x15', '10x20', '10x25', '10x30'];
-const ALL_UNIT_SIZES = ['5x5', '5x10', '10x5', '10x10', '10x15', '10x20', '10x25', '10x30', '10x40', '15x15', '15x20', '20x20'];
+import type {
+  Store,
+  StoreMetadata,
+  AdjustmentFactors,
+  AdjustmentModel,
+  RateRecord,
+  FeatureCode,
+  StoreRankings,
+  TradeArea,
+} from '@/types/rca';
+import {
+  ALL_UNIT_SIZES,
+  DEFAULT_UNIT_SIZES,
+  TRAILING_PERIODS,
+  buildRateGrid,
+  type GroupedStoreRow,
+} from '@shared/rateGrid';
+import { totalAdjustment as sumAdjustments } from '@shared/adjustments';
+import type { CsvExportMode } from '@/lib/exportCsv';
 
 interface StepDataVisualizationProps {
   subjectStore: Store | null;
@@ -30,314 +46,84 @@ interface StepDataVisualizationProps {
   storeMetadata: Record<number, StoreMetadata>;
   storeRankings: Record<number, StoreRankings>;
   adjustmentFactors: AdjustmentFactors;
+  adjustmentModel: AdjustmentModel;
   rateRecords: RateRecord[];
   customNames: Record<number, string>;
   featureCodes: FeatureCode[];
-  onExport: () => void;
-  isLoading: boolean;
+  tradeArea: TradeArea;
+  onExport: (selectedSizes: string[], mode: CsvExportMode) => void;
+  onExportWorkbook: (selectedSizes: string[]) => Promise<void>;
+  onDownloadReport: (selectedSizes: string[]) => Promise<void>;
   onBack: () => void;
 }
 
-interface GroupedData {
-  size: string;
-  featureCode: string;
-  stores: {
-    storeId: number;
-    storeName: string;
-    distance: number;
-    yearBuilt: number | null;
-    squareFootage: number | null;
-    isSubject: boolean;
-    t12Asking: number | null;
-    t12AskingAdj: number | null;
-    t12InStore: number | null;
-    t6Asking: number | null;
-    t6AskingAdj: number | null;
-    t6InStore: number | null;
-    t3Asking: number | null;
-    t3AskingAdj: number | null;
-    t3InStore: number | null;
-    t1Asking: number | null;
-    t1AskingAdj: number | null;
-    t1InStore: number | null;
-    adjustment: number;
-    recordCount: number;
-  }[];
-  averages: {
-    t12Asking: number | null;
-    t12AskingAdj: number | null;
-    t12InStore: number | null;
-    t6Asking: number | null;
-    t6AskingAdj: number | null;
-    t6InStore: number | null;
-    t3Asking: number | null;
-    t3AskingAdj: number | null;
-    t3InStore: number | null;
-    t1Asking: number | null;
-    t1AskingAdj: number | null;
-    t1InStore: number | null;
-  };
-  marketShare: number;
-}
-
 export function StepDataVisualization({ 
   subjectStore, 
   selectedStores, 
   storeMetadata,
   storeRankings,
   adjustmentFactors, 
+  adjustmentModel,
   rateRecords,
   customNames,
   featureCodes,
+  tradeArea,
   onExport, 
-  isLoading, 
+  onExportWorkbook,
+  onDownloadReport,
   onBack 
 }: StepDataVisualizationProps) {
   const [selectedSizes, setSelectedSizes] = useState<string[]>(DEFAULT_UNIT_SIZES);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [showSizeSelector, setShowSizeSelector] = useState(false);
-
-  // Calculate total adjustment
-  const totalAdjustment = 
-    (adjustmentFactors.captiveMarketPremium || 0) + 
-    (adjustmentFactors.lossToLease || 0) + 
-    (adjustmentFactors.ccAdj || 0);
-
-  // Get feature code for a record
-  const getFeatureCode = (record: RateRecord): string => {
-    // Build tag from record features
-    const parts: string[] = [];
-
-    if (record.driveUp) {
-      parts.push('Drive-Up');
-    } else if (record.elevator) {
-      parts.push('Elevator');
-    } else if (record.outdoorAccess) {
-      parts.push('Outdoor');
-    } else {
-      parts.push('Ground Level');
+  const [exportingWorkbook, setExportingWorkbook] = useState(false);
+  const [downloadingReport, setDownloadingReport] = useState(false);
+  const [csvMode, setCsvMode] = useState<CsvExportMode>('summary');
+
+  const exportWorkbook = async () => {
+    setExportingWorkbook(true);
+    try {
+      await onExportWorkbook(selectedSizes);
+    } finally {
+      setExportingWorkbook(false);
     }
+  };
 
-    if (record.climateControlled) {
-      parts.push('Climate Controlled');
-    } else if (record.humidityControlled) {
-      parts.push('Humidity Controlled');
-    } else {
-      parts.push('Non-Climate');
+  const downloadReport = async () => {
+    setDownloadingReport(true);
+    try {
+      await onDownloadReport(selectedSizes);
+    } finally {
+      setDownloadingReport(false);
     }
-
-    const tag = parts.join(' / ');
-
-    // Find matching feature code
-    const fc = featureCodes.find(f => f.originalTag === tag);
-    if (fc) return fc.code;
-
-    // Fallback: suggest code based on features
-    const isClimate = record.climateControlled;
-    if (record.driveUp) return isClimate ? 'DUCC' : 'DU';
-    if (record.elevator) return isClimate ? 'ECC' : 'ENCC';
-    return isClimate ? 'GLCC' : 'GNCC';
   };
 
-  // Calculate store-specific adjustment based on rankings
-  const getStoreAdjustment = (storeId: number): number => {
-    if (!subjectStore || storeId === subjectStore.storeId) return 0;
-
-    const subjectRankings = storeRankings[subjectStore.storeId];
-    const compRankings = storeRankings[storeId];
-
-    if (!subjectRankings || !compRankings) return totalAdjustment / 100;
-
-    // Calculate adjustment based on ranking differences
-    let adjustment = totalAdjustment / 100;
-
-    // Each ranking point difference = ~1% adjustment
-    const rankingCategories = ['Location', 'Age', 'Accessibility', 'VPD', 'Visibility & Signage', 'Brand', 'Quality', 'Size'] as const;
-    let totalDiff = 0;
-
-    rankingCategories.forEach(cat => {
-      const subjectVal = subjectRankings[cat] || 5;
-      const compVal = compRankings[cat] || 5;
-      totalDiff += (subjectVal - compVal);
-    });
-
-    // Average difference across categories, scaled
-    adjustment += (totalDiff / rankingCategories.length) * 0.01;
-
-    return adjustment;
-  };
+  // Calculate total adjustment
+  const totalAdjustment = sumAdjustments(adjustmentFactors);
 
   // Group and process rate data
-  const groupedData = useMemo(() => {
-    if (rateRecords.length === 0) return [];
-
-    const now = new Date();
-    const t12Start = new Date(now);
-    t12Start.setMonth(t12Start.getMonth() - 12);
-    const t6Start = new Date(now);
-    t6Start.setMonth(t6Start.getMonth() - 6);
-    const t3Start = new Date(now);
-    t3Start.setMonth(t3Start.getMonth() - 3);
-    const t1Start = new Date(now);
-    t1Start.setMonth(t1Start.getMonth() - 1);
-
-    // Normalize size for comparison
-    const normalizeSize = (size: string) => {
-      return size.toLowerCase().replace(/\s/g, '').replace(/'/g, '');
-    };
-
-    // Filter to selected sizes
-    const allowedSizes = new Set(selectedSizes.map(s => normalizeSize(s)));
-
-    // Group by (size, featureCode)
-    const groups: Record<string, Record<number, RateRecord[]>> = {};
-
-    rateRecords.forEach(record => {
-      const size = record.size || '';
-      const normalizedSize = normalizeSize(size);
-
-      if (!allowedSizes.has(normalizedSize)) return;
-
-      const featureCode = getFeatureCode(record);
-      const groupKey = `${size}|${featureCode}`;
-
-      if (!groups[groupKey]) {
-        groups[groupKey] = {};
-      }
-
-      if (!groups[groupKey][record.storeId]) {
-        groups[groupKey][record.storeId] = [];
-      }
-
-      groups[groupKey][record.storeId].push(record);
-    });
-
-    // Calculate averages for each group
-    const calcAverages = (records: RateRecord[], startDate: Date) => {
-      const filtered = records.filter(r => {
-        const date = new Date(r.date);
-        return date >= startDate;
-      });
-
-      const walkIn = filtered.filter(r => r.walkInPrice).map(r => r.walkInPrice!);
-      const online = filtered.filter(r => r.onlinePrice).map(r => r.onlinePrice!);
-
-      return {
-        inStore: walkIn.length > 0 ? walkIn.reduce((a, b) => a + b, 0) / walkIn.length : null,
-        asking: online.length > 0 ? online.reduce((a, b) => a + b, 0) / online.length : null,
-      };
-    };
-
-    // Parse size for sorting
-    const parseSize = (sizeStr: string): number => {
-      const parts = sizeStr.toLowerCase().replace(/x/g, ' ').replace(/'/g, '').split(/\s+/);
-      try {
-        if (parts.length >= 2) {
-          return parseFloat(parts[0]) * parseFloat(parts[1]);
-        }
-        return parseFloat(parts[0]) || 0;
-      } catch {
-        return 0;
-      }
-    };
-
-    // Build grouped data
-    const result: GroupedData[] = [];
-    const totalRecords = rateRecords.length;
-
-    Object.entries(groups).forEach(([groupKey, storeRecords]) => {
-      const [size, featureCode] = groupKey.split('|');
-
-      const storeData = Object.entries(storeRecords).map(([storeIdStr, records]) => {
-        const storeId = parseInt(storeIdStr);
-        const store = selectedStores.find(s => s.storeId === storeId);
-        const metadata = storeMetadata[storeId];
-        const adjustment = getStoreAdjustment(storeId);
-
-        const t12 = calcAverages(records, t12Start);
-        const t6 = calcAverages(records, t6Start);
-        const t3 = calcAverages(records, t3Start);
-        const t1 = calcAverages(records, t1Start);
-
-        return {
-          storeId,
-          storeName: customNames[storeId] || store?.storeName || 'Unknown',
-          distance: store?.distance || 0,
-          yearBuilt: metadata?.yearBuilt || null,
-          squareFootage: metadata?.squareFootage || null,
-          isSubject: subjectStore?.storeId === storeId,
-          t12Asking: t12.asking,
-          t12AskingAdj: t12.asking ? t12.asking * (1 + adjustment) : null,
-          t12InStore: t12.inStore,
-          t6Asking: t6.asking,
-          t6AskingAdj: t6.asking ? t6.asking * (1 + adjustment) : null,
-          t6InStore: t6.inStore,
-          t3Asking: t3.asking,
-          t3AskingAdj: t3.asking ? t3.asking * (1 + adjustment) : null,
-          t3InStore: t3.inStore,
-          t1Asking: t1.asking,
-          t1AskingAdj: t1.asking ? t1.asking * (1 + adjustment) : null,
-          t1InStore: t1.inStore,
-          adjustment,
-          recordCount: records.length,
-        };
-      });
-
-      // Sort stores: subject first, then by distance
-      storeData.sort((a, b) => {
-        if (a.isSubject) return -1;
-        if (b.isSubject) return 1;
-        return a.distance - b.distance;
-      });
-
-      // Calculate group averages
-      const allGroupRecords = Object.values(storeRecords).flat();
-      const t12Avg = calcAverages(allGroupRecords, t12Start);
-      const t6Avg = calcAverages(allGroupRecords, t6Start);
-      const t3Avg = calcAverages(allGroupRecords, t3Start);
-      const t1Avg = calcAverages(allGroupRecords, t1Start);
-
-      // Market share (percentage of total records in this group)
-      const groupRecordCount = allGroupRecords.length;
-      const marketShare = (groupRecordCount / totalRecords) * 100;
-
-      result.push({
-        size,
-        featureCode,
-        stores: storeData,
-        averages: {
-          t12Asking: t12Avg.asking,
-          t12AskingAdj: null, // No aggregate adjusted
-          t12InStore: t12Avg.inStore,
-          t6Asking: t6Avg.asking,
-          t6AskingAdj: null,
-          t6InStore: t6Avg.inStore,
-          t3Asking: t3Avg.asking,
-          t3AskingAdj: null,
-          t3InStore: t3Avg.inStore,
-          t1Asking: t1Avg.asking,
-          t1AskingAdj: null,
-          t1InStore: t1Avg.inStore,
-        },
-        marketShare,
-      });
-    });
-
-    // Sort by size then feature code
-    result.sort((a, b) => {
-      const sizeCompare = parseSize(a.size) - parseSize(b.size);
-      if (sizeCompare !== 0) return sizeCompare;
-      return a.featureCode.localeCompare(b.featureCode);
-    });
-
-    return result;
-  }, [rateRecords, selectedSizes, selectedStores, subjectStore, customNames, storeMetadata, featureCodes, storeRankings, totalAdjustment]);
+  const groupedData = useMemo(
+    () =>
+      buildRateGrid({
+        subjectStore,
+        selectedStores,
+        storeMetadata,
+        storeRankings,
+        adjustmentFactors,
+        adjustmentModel,
+        rateRecords,
+        customNames,
+        featureCodes,
+        tradeArea,
+        selectedSizes,
+      }),
+    [rateRecords, selectedSizes, selectedStores, subjectStore, customNames, storeMetadata, featureCodes, tradeArea, storeRankings, adjustmentFactors, adjustmentModel]
+  );
 
   // Expand all groups by default when data loads
   useEffect(() => {
-    if (groupedData.length > 0 && expandedGroups.size === 0) {
-      setExpandedGroups(new Set(groupedData.map(g => `${g.size}|${g.featureCode}`)));
-    }
+    if (groupedData.length === 0) return;
+    setExpandedGroups(prev => (prev.size > 0 ? prev : new Set(groupedData.map(g => `${g.size}|${g.featureCode}`))));
   }, [groupedData]);
 
   const toggleGroup = (groupKey: string) => {
@@ -374,6 +160,12 @@ export function StepDataVisualization({
     return `${value.toFixed(1)} mi`;
   };
 
+  // Hover text for adjusted cells, naming the override when one replaced the base factors
+  const adjustmentTitle = (store: GroupedStoreRow) => {
+    const applied = `${(store.adjustment * 100).toFixed(1)}% adjustment`;
+    return store.adjustmentOverride ? `${applied} (override: ${store.adjustmentOverride})` : applied;
+  };
+
   return (
     <div className="max-w-full mx-auto animate-fade-in">
       <div className="mb-6 text-center">
@@ -470,7 +262,7 @@ export function StepDataVisualization({
             <div className="text-center text-muted-foreground">
               <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
               <p>No rate data available yet.</p>
-              <p className="text-sm mt-1">Data will be fetched when you export.</p>
+              <p className="text-sm mt-1">Go back to the Feature Codes step to load the rate data before exporting.</p>
             </div>
           </CardContent>
         </Card>
@@ -569,6 +361,11 @@ export function StepDataVisualization({
                           <span className="text-muted-foreground w-4 text-right">{idx + 1}</span>
                           <span className="truncate">{store.storeName}</span>
                           {store.isSubject && <Badge variant="default" className="ml-1 text-[9px] py-0 px-1">Subject</Badge>}
+                          {store.adjustmentOverride && (
+                            <Badge variant="outline" className="ml-1 text-[9px] py-0 px-1 shrink-0" title={adjustmentTitle(store)}>
+                              {store.adjustmentOverride}
+                            </Badge>
+                          )}
                         </div>
                         <div className="p-2 border-r text-center font-mono text-muted-foreground">
                           {store.distance > 0 ? formatDistance(store.distance) : '-'}
@@ -576,7 +373,7 @@ export function StepDataVisualization({
                         <div className="p-2 border-r text-center text-muted-foreground">
                           {store.yearBuilt || '-'}
                         </div>
-                        <div className="p-2 border-r text-center font-mono bg-blue-50">
+                        <div className="p-2 border-r text-center font-mono bg-blue-50" title={adjustmentTitle(store)}>
                           {formatCurrency(store.t12AskingAdj)}
                         </div>
                         <div className="p-2 border-r text-center font-mono bg-green-50">
@@ -585,7 +382,7 @@ export function StepDataVisualization({
                         <div className="p-2 border-r text-center font-mono bg-amber-50">
                           {formatCurrency(store.t12InStore)}
                         </div>
-                        <div className="p-2 border-r text-center font-mono bg-blue-50">
+                        <div className="p-2 border-r text-center font-mono bg-blue-50" title={adjustmentTitle(store)}>
                           {formatCurrency(store.t6AskingAdj)}
                         </div>
                         <div className="p-2 border-r text-center font-mono bg-green-50">
@@ -594,7 +391,7 @@ export function StepDataVisualization({
                         <div className="p-2 border-r text-center font-mono bg-amber-50">
                           {formatCurrency(store.t6InStore)}
                         </div>
-                        <div className="p-2 border-r text-center font-mono bg-blue-50">
+                        <div className="p-2 border-r text-center font-mono bg-blue-50" title={adjustmentTitle(store)}>
                           {formatCurrency(store.t3AskingAdj)}
                         </div>
                         <div className="p-2 border-r text-center font-mono bg-green-50">
@@ -603,7 +400,7 @@ export function StepDataVisualization({
                         <div className="p-2 border-r text-center font-mono bg-amber-50">
                           {formatCurrency(store.t3InStore)}
                         </div>
-                        <div className="p-2 border-r text-center font-mono bg-blue-50">
+                        <div className="p-2 border-r text-center font-mono bg-blue-50" title={adjustmentTitle(store)}>
                           {formatCurrency(store.t1AskingAdj)}
                         </div>
                         <div className="p-2 border-r text-center font-mono bg-green-50">
@@ -649,6 +446,34 @@ export function StepDataVisualization({
                         {formatCurrency(group.averages.t1InStore)}
                       </div>
                     </div>
+
+                    {/* Trade-area bands: competitor averages, nearest band first */}
+                    {group.bandAverages.map(({ band, storeCount, averages }) => (
+                      <div
+                        key={band.key}
+                        className="grid grid-cols-[280px,55px,50px,70px,70px,70px,70px,70px,70px,70px,70px,70px,70px,70px,70px] bg-slate-100 border-b text-xs font-medium"
+                      >
+                        <div className="p-2 border-r pl-6 truncate">
+                          {band.label}{' '}
+                          <span className="text-muted-foreground font-normal">
+                            ({storeCount} competitor{storeCount !== 1 ? 's' : ''})
+                          </span>
+                        </div>
+                        <div className="p-2 border-r"></div>
+                        <div className="p-2 border-r"></div>
+                        {TRAILING_PERIODS.map(({ key }, i) => (
+                          <Fragment key={key}>
+                            <div className="p-2 border-r text-center font-mono bg-blue-100">N/A</div>
+                            <div className="p-2 border-r text-center font-mono bg-green-100">
+                              {formatCurrency(averages[`${key}Asking`])}
+                            </div>
+                            <div className={`p-2 text-center font-mono bg-amber-100 ${i < TRAILING_PERIODS.length - 1 ? 'border-r' : ''}`}>
+                              {formatCurrency(averages[`${key}InStore`])}
+                            </div>
+                          </Fragment>
+                        ))}
+                      </div>
+                    ))}
                   </CollapsibleContent>
                 </Collapsible>
               );
@@ -662,40 +487,84 @@ export function StepDataVisualization({
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <FileDown className="w-5 h-5" />
-            Export to CSV
+            Export
           </CardTitle>
           <CardDescription>
-            Download your analysis as CSV files
+            Download your analysis as an Excel workbook or CSV files
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid md:grid-cols-2 gap-4">
-            <div className="p-4 border rounded-lg">
-              <h4 className="font-medium">Full Data Dump</h4>
-              <p className="text-sm text-muted-foreground mt-1">
-                Complete rate records with all details
-              </p>
-            </div>
+          <div className="grid md:grid-cols-3 gap-4">
             <div className="p-4 border rounded-lg">
-              <h4 className="font-medium">Summary Report</h4>
+              <h4 className="font-medium">Excel Workbook</h4>
               <p className="text-sm text-muted-foreground mt-1">
-                Grouped averages with T-period calculations
+                Summary, one sheet per size and feature code as shown above, and raw data
               </p>
             </div>
+            <RadioGroup
+              value={csvMode}
+              onValueChange={(value) => setCsvMode(value as CsvExportMode)}
+              className="contents"
+            >
+              <Label htmlFor="csv-raw" className="flex gap-3 p-4 border rounded-lg cursor-pointer font-normal">
+                <RadioGroupItem value="raw" id="csv-raw" className="mt-0.5" />
+                <div>
+                  <h4 className="font-medium">Full Data Dump</h4>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Every rate record for the selected sizes, with feature codes and adjusted asking rates
+                  </p>
+                </div>
+              </Label>
+              <Label htmlFor="csv-summary" className="flex gap-3 p-4 border rounded-lg cursor-pointer font-normal">
+                <RadioGroupItem value="summary" id="csv-summary" className="mt-0.5" />
+                <div>
+                  <h4 className="font-medium">Summary Report</h4>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Grouped averages with T-period calculations, as shown above
+                  </p>
+                </div>
+              </Label>
+            </RadioGroup>
           </div>
 
-          <Button onClick={onExport} disabled={isLoading} className="w-full" size="lg">
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating Reports...
-              </>
+          <Button
+            onClick={exportWorkbook}
+            disabled={exportingWorkbook || rateRecords.length === 0}
+            className="w-full"
+            size="lg"
+          >
+            {exportingWorkbook ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
-              <>
-                <FileDown className="mr-2 h-4 w-4" />
-                Export CSV Reports
-              </>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
             )}
+            Export Excel Workbook
+          </Button>
+
+          <Button
+            onClick={downloadReport}
+            disabled={downloadingReport || !subjectStore}
+            variant="outline"
+            className="w-full"
+            size="lg"
+          >
+            {downloadingReport ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 h-4 w-4" />
+            )}
+            Download PDF Report
+          </Button>
+
+          <Button
+            onClick={() => onExport(selectedSizes, csvMode)}
+            disabled={rateRecords.length === 0}
+            variant="outline"
+            className="w-full"
+            size="lg"
+          >
+            <FileDown className="mr-2 h-4 w-4" />
+            Export CSV ({csvMode === 'raw' ? 'Full Data' : 'Summary'})
           </Button>
         </CardContent>
       </Card>
@@ -6,19 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { FeatureCode } from '@/types/rca';
-
-const PRESET_CODES = [
-  { code: 'GLCC', label: 'Ground Level Climate Controlled' },
-  { code: 'GNCC', label: 'Ground Level Non-Climate Controlled' },
-  { code: 'ECC', label: 'Elevator Climate Controlled' },
-  { code: 'ENCC', label: 'Elevator Non-Climate Controlled' },
-  { code: 'DUCC', label: 'Drive-Up Climate Controlled' },
-  { code: 'DU', label: 'Drive-Up (Non-Climate)' },
-  { code: 'ICC', label: 'Interior Climate Controlled' },
-  { code: 'INCC', label: 'Interior Non-Climate Controlled' },
-  { code: 'CC', label: 'Climate Controlled (generic)' },
-  { code: 'NCC', label: 'Non-Climate Controlled (generic)' },
-];
+import { STANDARD_FEATURE_CODES } from '@shared/featureCodes';
 
 interface StepFeatureCodesProps {
   featureCodes: FeatureCode[];
@@ -53,7 +41,7 @@ export function StepFeatureCodes({ featureCodes, onUpdate, onInitialize, onNext,
         </CardHeader>
         <CardContent>
           <div className="flex flex-wrap gap-2">
-            {PRESET_CODES.map(({ code, label }) => (
+            {STANDARD_FEATURE_CODES.map(({ code, label }) => (
               <Badge key={code} variant="outline" className="text-xs">
                 <span className="font-mono font-bold mr-1">{code}</span>
                 <span className="text-muted-foreground">= {label}</span>
@@ -84,7 +72,7 @@ export function StepFeatureCodes({ featureCodes, onUpdate, onInitialize, onNext,
                 <p className="text-sm text-muted-foreground">{fc.originalTag}</p>
                 <div className="flex gap-2">
                   <Select
-                    value={PRESET_CODES.some((p) => p.code === fc.code) ? fc.code : 'custom'}
+                    value={STANDARD_FEATURE_CODES.some((p) => p.code === fc.code) ? fc.code : 'custom'}
                     onValueChange={(value) => {
                       if (value !== 'custom') {
                         onUpdate(fc.originalTag, value);
@@ -95,7 +83,7 @@ export function StepFeatureCodes({ featureCodes, onUpdate, onInitialize, onNext,
                       <SelectValue placeholder="Select code" />
                     </SelectTrigger>
                     <SelectContent>
-                      {PRESET_CODES.map(({ code, label }) => (
+                      {STANDARD_FEATURE_CODES.map(({ code, label }) => (
                         <SelectItem key={code} value={code}>
                           <span className="font-mono font-bold">{code}</span>
                         </SelectItem>
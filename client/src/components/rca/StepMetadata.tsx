@@ -1,12 +1,17 @@
 import { useState } from 'react';
-import { Building2, Calendar, Ruler, Search, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { Building2, Calendar, Ruler, Search, CheckCircle2, AlertCircle, Loader2, Link2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { describeProvenance, provenanceLabel } from '@shared/provenance';
+import { MANAGEMENT_TYPE_LABELS, parseFacilityAttributes } from '@shared/facility';
+import { MANAGEMENT_TYPES, type FacilityAttributes, type ManagementType } from '@shared/rca';
 import { SalesforceMatchModal } from './SalesforceMatchModal';
-import type { Store, StoreMetadata, SalesforceMatch } from '@/types/rca';
+import type { Store, StoreMetadata, SalesforceMatch, MetadataProvenance } from '@/types/rca';
 
 interface StepMetadataProps {
   stores: Store[];
@@ -15,6 +20,48 @@ interface StepMetadataProps {
   onNext: () => void;
   onBack: () => void;
   onFetchMatches: (store: Store) => Promise<SalesforceMatch[]>;
+  // Saves the verified record (or manual entry) so later analyses reuse it
+  onLink: (
+    store: Store,
+    link: Pick<StoreMetadata, 'yearBuilt' | 'squareFootage' | 'salesforceMatch'> & Partial<FacilityAttributes>,
+  ) => void;
+}
+
+const FACILITY_NUMBER_INPUTS = [
+  { field: 'unitCount', label: 'Units', placeholder: 'e.g., 650' },
+  { field: 'stories', label: 'Stories', placeholder: 'e.g., 3' },
+  { field: 'climateControlledPercent', label: 'Climate Controlled %', placeholder: 'e.g., 60' },
+  { field: 'occupancyPercent', label: 'Occupancy %', placeholder: 'e.g., 92' },
+] as const;
+
+// Select items cannot have an empty value
+const NO_MANAGEMENT_TYPE = 'none';
+
+const SOURCE_STYLES: Record<MetadataProvenance['source'], string> = {
+  salesforce_auto: 'text-amber-700 border-amber-300',
+  salesforce_confirmed: 'text-green-700 border-green-300',
+  manual: 'text-slate-600 border-slate-300',
+  stortrack: 'text-blue-700 border-blue-300',
+};
+
+// Who set the value and when is in the tooltip
+function ProvenanceBadge({
+  value,
+  provenance,
+}: {
+  value: number | string | null | undefined;
+  provenance: MetadataProvenance | undefined;
+}) {
+  if (value === null || value === undefined || value === '' || !provenance) return null;
+  return (
+    <Badge
+      variant="outline"
+      className={cn('ml-auto text-xs font-normal', SOURCE_STYLES[provenance.source])}
+      title={describeProvenance(provenance)}
+    >
+      {provenanceLabel(provenance)}
+    </Badge>
+  );
 }
 
 export function StepMetadata({ 
@@ -24,6 +71,7 @@ export function StepMetadata({
   onNext, 
   onBack,
   onFetchMatches,
+  onLink,
 }: StepMetadataProps) {
   const [modalOpen, setModalOpen] = useState(false);
   const [selectedStore, setSelectedStore] = useState<Store | null>(null);
@@ -40,6 +88,12 @@ export function StepMetadata({
     return isNaN(num) ? null : num;
   };
 
+  // Percentages keep one decimal place
+  const parseDecimal = (value: string): number | null => {
+    const num = parseFloat(value.replace(/,/g, ''));
+    return isNaN(num) ? null : num;
+  };
+
   const handleVerifyClick = async (store: Store) => {
     setLoadingStoreId(store.storeId);
     setSelectedStore(store);
@@ -79,9 +133,10 @@ export function StepMetadata({
         }
       }
       
-      onUpdate(selectedStore.storeId, { 
-        yearBuilt, 
+      onLink(selectedStore, {
+        yearBuilt,
         squareFootage,
+        ...parseFacilityAttributes(match),
         salesforceMatch: match,
       });
     }
@@ -90,8 +145,9 @@ export function StepMetadata({
   const handleManualEntry = (yearBuilt: number | null, squareFootage: number | null) => {
     if (!selectedStore) return;
     
-    onUpdate(selectedStore.storeId, { 
-      yearBuilt, 
+    // Facility attributes already on screen stay as they are
+    onLink(selectedStore, {
+      yearBuilt,
       squareFootage,
       salesforceMatch: null, // Mark as manually entered
     });
@@ -130,6 +186,12 @@ export function StepMetadata({
                     <span className="text-sm text-muted-foreground">ID: {store.storeId}</span>
                   </div>
                   <div className="flex items-center gap-2">
+                    {storeMeta.linked && (
+                      <Badge variant="outline" title="Reuses the match saved for this store">
+                        <Link2 className="w-3 h-3 mr-1" />
+                        Saved
+                      </Badge>
+                    )}
                     {matchStatus === 'matched' && (
                       <Badge variant="default" className="bg-green-600">
                         <CheckCircle2 className="w-3 h-3 mr-1" />
@@ -158,6 +220,7 @@ export function StepMetadata({
                     <Label htmlFor={`year-${store.storeId}`} className="flex items-center gap-2">
                       <Calendar className="w-4 h-4 text-muted-foreground" />
                       Year Built
+                      <ProvenanceBadge value={storeMeta.yearBuilt} provenance={storeMeta.provenance?.yearBuilt} />
                     </Label>
                     <Input
                       id={`year-${store.storeId}`}
@@ -173,6 +236,7 @@ export function StepMetadata({
                     <Label htmlFor={`sf-${store.storeId}`} className="flex items-center gap-2">
                       <Ruler className="w-4 h-4 text-muted-foreground" />
                       Square Footage
+                      <ProvenanceBadge value={storeMeta.squareFootage} provenance={storeMeta.provenance?.squareFootage} />
                     </Label>
                     <Input
                       id={`sf-${store.storeId}`}
@@ -208,6 +272,68 @@ export function StepMetadata({
                   </div>
                 </div>
                 
+                <div className="mt-4 pt-4 border-t grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {FACILITY_NUMBER_INPUTS.map(({ field, label, placeholder }) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`${field}-${store.storeId}`} className="flex items-center gap-2">
+                        {label}
+                        <ProvenanceBadge value={storeMeta[field]} provenance={storeMeta.provenance?.[field]} />
+                      </Label>
+                      <Input
+                        id={`${field}-${store.storeId}`}
+                        type="number"
+                        min="0"
+                        max={field.endsWith('Percent') ? '100' : undefined}
+                        placeholder={placeholder}
+                        value={storeMeta[field] ?? ''}
+                        onChange={(e) =>
+                          onUpdate(store.storeId, {
+                            [field]: field.endsWith('Percent') ? parseDecimal(e.target.value) : parseNumber(e.target.value),
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <Label htmlFor={`gate-${store.storeId}`} className="flex items-center gap-2">
+                      Gate Hours
+                      <ProvenanceBadge value={storeMeta.gateHours} provenance={storeMeta.provenance?.gateHours} />
+                    </Label>
+                    <Input
+                      id={`gate-${store.storeId}`}
+                      placeholder="e.g., 6am-10pm"
+                      value={storeMeta.gateHours ?? ''}
+                      onChange={(e) => onUpdate(store.storeId, { gateHours: e.target.value || null })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      Management
+                      <ProvenanceBadge value={storeMeta.managementType} provenance={storeMeta.provenance?.managementType} />
+                    </Label>
+                    <Select
+                      value={storeMeta.managementType ?? NO_MANAGEMENT_TYPE}
+                      onValueChange={(value) =>
+                        onUpdate(store.storeId, {
+                          managementType: value === NO_MANAGEMENT_TYPE ? null : (value as ManagementType),
+                        })
+                      }
+                    >
+                      <SelectTrigger aria-label="Management">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_MANAGEMENT_TYPE}>Not set</SelectItem>
+                        {MANAGEMENT_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {MANAGEMENT_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 {storeMeta.salesforceMatch && (
                   <div className="mt-3 p-3 bg-green-50 dark:bg-green-950/20 rounded-lg border border-green-200 dark:border-green-900">
                     <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
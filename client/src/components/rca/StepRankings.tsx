@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Star, Info } from 'lucide-react';
+import { Star, Info, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -7,6 +7,7 @@ import { Slider } from '@/components/ui/slider';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
+import { MANAGEMENT_TYPE_LABELS, suggestRankings } from '@shared/facility';
 import type { Store, StoreRankings, StoreMetadata } from '@/types/rca';
 
 const RANKING_CATEGORIES = [
@@ -52,6 +53,21 @@ export function StepRankings({ stores, rankings, metadata, onUpdate, onNext, onB
     return 4;
   };
 
+  // One line of whatever facility attributes are known, e.g. "650 units · 3 stories"
+  const describeFacility = (storeMeta: StoreMetadata | undefined): string => {
+    if (!storeMeta) return '';
+    return [
+      storeMeta.unitCount != null && `${storeMeta.unitCount.toLocaleString()} units`,
+      storeMeta.stories != null && `${storeMeta.stories} stor${storeMeta.stories === 1 ? 'y' : 'ies'}`,
+      storeMeta.climateControlledPercent != null && `${storeMeta.climateControlledPercent}% climate controlled`,
+      storeMeta.occupancyPercent != null && `${storeMeta.occupancyPercent}% occupied`,
+      storeMeta.gateHours && `Gate ${storeMeta.gateHours}`,
+      storeMeta.managementType && MANAGEMENT_TYPE_LABELS[storeMeta.managementType],
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  };
+
   return (
     <div className="max-w-4xl mx-auto animate-fade-in">
       <div className="mb-6 text-center">
@@ -80,6 +96,11 @@ export function StepRankings({ stores, rankings, metadata, onUpdate, onNext, onB
           const isSubject = index === 0;
           const ageRank = calculateAgeRanking(storeMeta?.yearBuilt);
           const sizeRank = calculateSizeRanking(storeMeta?.squareFootage);
+          const suggestions = suggestRankings(storeMeta);
+          const facility = describeFacility(storeMeta);
+          const pending = suggestions.filter(
+            ({ category, value }) => (storeRankings?.[category] || 5) !== value,
+          );
 
           return (
             <TabsContent key={store.storeId} value={store.storeId.toString()}>
@@ -92,6 +113,7 @@ export function StepRankings({ stores, rankings, metadata, onUpdate, onNext, onB
                   <CardDescription>
                     {store.address}, {store.city} • {storeMeta?.distance ? `${storeMeta.distance} mi` : ''}
                   </CardDescription>
+                  {facility && <p className="text-xs text-muted-foreground">{facility}</p>}
                 </CardHeader>
                 <CardContent className="space-y-6">
                   {/* Auto-calculated rankings */}
@@ -134,40 +156,81 @@ export function StepRankings({ stores, rankings, metadata, onUpdate, onNext, onB
                     </div>
                   </div>
 
-                  {/* Manual rankings */}
+                  {/* Manual rankings, with suggestions from facility attributes */}
+                  {pending.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-dashed">
+                      <span className="text-sm text-muted-foreground">
+                        {pending.length} suggestion{pending.length !== 1 ? 's' : ''} from facility attributes
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          onUpdate(
+                            store.storeId,
+                            Object.fromEntries(pending.map(({ category, value }) => [category, value])),
+                          )
+                        }
+                      >
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Apply Suggestions
+                      </Button>
+                    </div>
+                  )}
                   <div className="space-y-5">
-                    {RANKING_CATEGORIES.map(({ key, description }) => (
-                      <div key={key}>
-                        <div className="flex items-center justify-between mb-3">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium">{key}</span>
-                            <Tooltip>
-                              <TooltipTrigger>
-                                <Info className="w-4 h-4 text-muted-foreground" />
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p className="max-w-xs">{description}</p>
-                              </TooltipContent>
-                            </Tooltip>
+                    {RANKING_CATEGORIES.map(({ key, description }) => {
+                      const suggestion = suggestions.find(({ category }) => category === key);
+                      return (
+                        <div key={key}>
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{key}</span>
+                              <Tooltip>
+                                <TooltipTrigger>
+                                  <Info className="w-4 h-4 text-muted-foreground" />
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p className="max-w-xs">{description}</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </div>
+                            <span className="font-mono text-lg font-semibold">
+                              {storeRankings?.[key as keyof StoreRankings] || 5}
+                            </span>
                           </div>
-                          <span className="font-mono text-lg font-semibold">
-                            {storeRankings?.[key as keyof StoreRankings] || 5}
-                          </span>
-                        </div>
-                        <Slider
-                          value={[storeRankings?.[key as keyof StoreRankings] || 5]}
-                          onValueChange={([value]) => onUpdate(store.storeId, { [key]: value })}
-                          min={1}
-                          max={10}
-                          step={1}
-                          className="py-1"
-                        />
-                        <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                          <span>1 (Worst)</span>
-                          <span>10 (Best)</span>
+                          <Slider
+                            value={[storeRankings?.[key as keyof StoreRankings] || 5]}
+                            onValueChange={([value]) => onUpdate(store.storeId, { [key]: value })}
+                            min={1}
+                            max={10}
+                            step={1}
+                            className="py-1"
+                          />
+                          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                            <span>1 (Worst)</span>
+                            <span>10 (Best)</span>
+                          </div>
+                          {suggestion && (
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                              <Sparkles className="w-3 h-3" />
+                              <span>
+                                Suggested {suggestion.value} ({suggestion.reason})
+                              </span>
+                              {(storeRankings?.[key] || 5) !== suggestion.value && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs"
+                                  onClick={() => onUpdate(store.storeId, { [key]: suggestion.value })}
+                                >
+                                  Use
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
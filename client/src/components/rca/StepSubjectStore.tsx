@@ -1,12 +1,22 @@
-import { Building2, MapPin, Phone, Check, Loader2 } from 'lucide-react';
+import { Building2, MapPin, Phone, Check, Loader2, Target } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import type { Store } from '@/types/rca';
+import type { Store, StoreSearchResult } from '@/types/rca';
+
+// Below this the top-ranked store is not called out as the likely subject
+const BEST_MATCH_THRESHOLD = 0.6;
+
+function matchConfidence(score: number): string {
+  if (score >= 0.85) return 'High';
+  if (score >= BEST_MATCH_THRESHOLD) return 'Medium';
+  return 'Low';
+}
 
 interface StepSubjectStoreProps {
-  stores: Store[];
+  // Ranked by street-address similarity when a street address was searched
+  stores: StoreSearchResult[];
   selectedStore: Store | null;
   onSelect: (store: Store) => void;
   onNext: () => void;
@@ -23,6 +33,9 @@ export function StepSubjectStore({ stores, selectedStore, onSelect, onNext, isLo
     }
   };
 
+  const topScore = stores[0]?.addressScore ?? null;
+  const bestMatch = topScore !== null && topScore >= BEST_MATCH_THRESHOLD ? stores[0] : null;
+
   return (
     <div className="max-w-4xl mx-auto animate-fade-in">
       <div className="mb-6 text-center">
@@ -30,19 +43,27 @@ export function StepSubjectStore({ stores, selectedStore, onSelect, onNext, isLo
         <p className="text-muted-foreground">
           Found {stores.length} store{stores.length !== 1 ? 's' : ''} matching your search. Select your subject store.
         </p>
+        {bestMatch && (
+          <p className="mt-2 text-sm">
+            Best match for the street address: <span className="font-medium">{bestMatch.storeName}</span> (
+            {Math.round(bestMatch.addressScore! * 100)}% similar)
+          </p>
+        )}
       </div>
 
       <div className="grid gap-4 md:grid-cols-2">
         {stores.map((store) => {
           const isSelected = selectedStore?.storeId === store.storeId;
+          const isBestMatch = bestMatch?.storeId === store.storeId;
           const status = getStatusLabel(store.storeStatus);
-          
+
           return (
             <Card
               key={store.storeId}
               className={cn(
                 'cursor-pointer transition-all duration-200 hover:shadow-elevated',
-                isSelected && 'ring-2 ring-primary shadow-elevated'
+                isSelected && 'ring-2 ring-primary shadow-elevated',
+                isBestMatch && !isSelected && 'ring-2 ring-amber-400'
               )}
               onClick={() => onSelect(store)}
             >
@@ -55,6 +76,19 @@ export function StepSubjectStore({ stores, selectedStore, onSelect, onNext, isLo
                     <CardDescription className="mt-1">
                       ID: {store.storeId}
                     </CardDescription>
+                    {store.addressScore !== null && (
+                      <div className="mt-2 flex items-center gap-2">
+                        {isBestMatch && (
+                          <Badge className="bg-amber-500 hover:bg-amber-500 gap-1">
+                            <Target className="w-3 h-3" />
+                            Best match
+                          </Badge>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          Address match {Math.round(store.addressScore * 100)}% ({matchConfidence(store.addressScore)})
+                        </span>
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <Badge variant={status.variant}>{status.label}</Badge>
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getCurrentUser, login, logout, register } from '@/lib/api';
+import { clearWizardState } from '@/lib/wizardStorage';
+
+const ME_KEY = ['auth', 'me'];
+
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user = null, isLoading } = useQuery({
+    queryKey: ME_KEY,
+    queryFn: getCurrentUser,
+    staleTime: Infinity,
+  });
+
+  const onSignedIn = () => {
+    // Anything cached belonged to whoever was signed in before
+    queryClient.clear();
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    onSuccess: (signedIn) => {
+      onSignedIn();
+      queryClient.setQueryData(ME_KEY, signedIn);
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: register,
+    onSuccess: (signedIn) => {
+      onSignedIn();
+      queryClient.setQueryData(ME_KEY, signedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      // The in-progress wizard blob is per browser, not per user
+      clearWizardState();
+      queryClient.clear();
+      queryClient.setQueryData(ME_KEY, null);
+    },
+  });
+
+  return {
+    user,
+    isLoading,
+    login: loginMutation,
+    register: registerMutation,
+    logout: logoutMutation,
+  };
+}
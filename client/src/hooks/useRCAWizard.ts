@@ -1,42 +1,82 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
 import type {
   SearchCriteria,
   Store,
+  StoreSearchResult,
   StoreMetadata,
   StoreRankings,
   AdjustmentFactors,
+  AdjustmentModel,
+  AppliedAdjustmentPreset,
   DateGap,
+  GapFillResult,
   FeatureCode,
   RateRecord,
   WizardStep,
   SalesforceMatch,
+  TradeArea,
 } from '@/types/rca';
 import {
   searchStoresByAddress,
   findCompetitors,
-  fetchHistoricalData,
   getTrailing12MonthRates,
+  getGapSettings,
+  startHistoricalFill,
+  waitForJob,
   getSalesforceMetadataByAddress,
   getSalesforceMatches,
+  getStoreIdentityLinks,
+  getStoreInfo,
+  saveStoreIdentityLink,
+  getAnalysisRates,
+  createAnalysis,
+  updateAnalysis,
+  downloadAnalysisReport,
+  isForbiddenError,
 } from '@/lib/api';
-import { saveWizardState, loadWizardState } from '@/lib/wizardStorage';
+import { saveWizardState, loadWizardState, toPersistedState } from '@/lib/wizardStorage';
+import { useAuth } from '@/hooks/useAuth';
+import { analyzeDateGaps, mergeRateRecords } from '@shared/gaps';
+import { buildTagFromRecord, suggestFeatureCode } from '@shared/featureCodes';
+import { buildRcaWorkbook, downloadBlob } from '@/lib/exportWorkbook';
+import { buildRateCsv, type CsvExportMode } from '@/lib/exportCsv';
+import type { RateGridInput } from '@shared/rateGrid';
+import { DEFAULT_ADJUSTMENT_MODEL } from '@shared/adjustments';
+import { DEFAULT_TRADE_AREA } from '@shared/tradeArea';
+import { stampProvenance } from '@shared/provenance';
+import { EMPTY_FACILITY, parseFacilityAttributes, pickFacility } from '@shared/facility';
+import { FACILITY_FIELDS, METADATA_FIELDS, type FacilityAttributes } from '@shared/rca';
+import type { BackgroundJob, GapSettings, HistoricalFillRequest } from '@shared/api';
 
 export interface RCAWizardState {
   currentStep: number;
   searchCriteria: SearchCriteria;
-  searchResults: Store[];
+  // Best street-address match first when a street address was entered
+  searchResults: StoreSearchResult[];
   subjectStore: Store | null;
   competitors: Store[];
   selectedStores: Store[];
   storeMetadata: Record<number, StoreMetadata>;
   storeRankings: Record<number, StoreRankings>;
   adjustmentFactors: AdjustmentFactors;
+  adjustmentModel: AdjustmentModel;
+  adjustmentPreset: AppliedAdjustmentPreset | null;
+  tradeArea: TradeArea;
   customNames: Record<number, string>;
   dateGaps: DateGap[];
   apiStoreIds: number[];
+  gapSettings: GapSettings | null;
+  gapFill: GapFillResult | null;
+  // Every paid pull for this analysis, so its rows can be reloaded from the job results
+  paidJobIds: number[];
+  // The dates the rate rows were read for, so reopening the analysis later reads the same ones
+  rateCoverage: { from: string; to: string } | null;
   featureCodes: FeatureCode[];
+  // Not saved with the analysis; rebuilt from the database and paidJobIds on open
   rateRecords: RateRecord[];
+  analysisId: number | null;
+  analysisName: string | null;
   isLoading: boolean;
   error: string | null;
 }
@@ -58,6 +98,22 @@ const initialAdjustmentFactors: AdjustmentFactors = {
   ccAdj: 0,
 };
 
+// Gap analysis, gap filling and feature codes all read this window, so the
+// server answers them from one cached pull
+function trailingYear(): { from: string; to: string } {
+  const today = new Date();
+  const from = new Date(today);
+  from.setDate(from.getDate() - 365);
+  return { from: from.toISOString().split('T')[0], to: today.toISOString().split('T')[0] };
+}
+
+async function loadDatabaseRecords(storeIds: number[], coverage: { from: string; to: string }): Promise<RateRecord[]> {
+  const result = await getTrailing12MonthRates({ storeIds, fromDate: coverage.from, toDate: coverage.to });
+  return storeIds.flatMap(
+    (storeId) => result.ratesByStore[storeId] || result.ratesByStore[String(storeId)] || []
+  );
+}
+
 const defaultRankings: StoreRankings = {
   Location: 5,
   Age: 5,
@@ -85,6 +141,8 @@ export const WIZARD_STEPS: WizardStep[] = [
 export function useRCAWizard(initialStep?: number) {
   // Try to load saved state from localStorage
   const savedState = loadWizardState();
+  const { user } = useAuth();
+  const username = user?.username ?? null;
   
   const [state, setState] = useState<RCAWizardState>(savedState || {
     currentStep: initialStep || 1,
@@ -96,15 +154,38 @@ export function useRCAWizard(initialStep?: number) {
     storeMetadata: {},
     storeRankings: {},
     adjustmentFactors: initialAdjustmentFactors,
+    adjustmentModel: DEFAULT_ADJUSTMENT_MODEL,
+    adjustmentPreset: null,
+    tradeArea: DEFAULT_TRADE_AREA,
     customNames: {},
     dateGaps: [],
     apiStoreIds: [],
+    gapSettings: null,
+    gapFill: null,
+    paidJobIds: [],
+    rateCoverage: null,
     featureCodes: [],
     rateRecords: [],
+    analysisId: null,
+    analysisName: null,
     isLoading: false,
     error: null,
   });
 
+  // The StorTrack pull in progress, if any; not part of the saved wizard state
+  const [activeJob, setActiveJob] = useState<BackgroundJob | null>(null);
+
+  // Queue a historical pull and follow its progress until it finishes
+  const runHistoricalFill = useCallback(async (request: HistoricalFillRequest) => {
+    const started = await startHistoricalFill(request);
+    setActiveJob(started);
+    const job = await waitForJob(started.id, setActiveJob);
+    if (job.status === 'failed' || !job.result) {
+      throw new Error(job.error || 'Historical fetch failed');
+    }
+    return job;
+  }, []);
+
   // Save state to localStorage whenever it changes
   useEffect(() => {
     saveWizardState(state);
@@ -142,6 +223,7 @@ export function useRCAWizard(initialStep?: number) {
     try {
       const { state: currentState } = state.searchCriteria;
       const stores = await searchStoresByAddress({
+        streetAddress: state.searchCriteria.streetAddress,
         state: state.searchCriteria.state,
         city: state.searchCriteria.city,
         zip: state.searchCriteria.zipCode,
@@ -166,7 +248,7 @@ export function useRCAWizard(initialStep?: number) {
         error: message,
         searchResults: [],
       }));
-      toast.error(message);
+      if (!isForbiddenError(error)) toast.error(message);
     }
   }, [state.searchCriteria]);
 
@@ -227,9 +309,41 @@ export function useRCAWizard(initialStep?: number) {
       customNames[store.storeId] = store.storeName;
     });
 
+    const storeInfo = getStoreInfo(selected.map((store) => store.storeId)).catch((error) => {
+      console.warn('Failed to load StorTrack store info:', error);
+      return [];
+    });
+
+    // Matches analysts confirmed in earlier analyses win over fuzzy matching
+    const links = await getStoreIdentityLinks(selected.map((store) => store.storeId)).catch((error) => {
+      console.warn('Failed to load saved store links:', error);
+      return [];
+    });
+    links.forEach((link) => {
+      metadata[link.storeId] = stampProvenance(
+        {
+          ...metadata[link.storeId],
+          yearBuilt: link.yearBuilt,
+          squareFootage: link.squareFootage,
+          ...(link.facility ??
+            (link.salesforceMatch ? parseFacilityAttributes(link.salesforceMatch) : EMPTY_FACILITY)),
+          salesforceMatch: link.salesforceMatch,
+          linked: true,
+        },
+        METADATA_FIELDS,
+        {
+          source: link.salesforceMatch ? 'salesforce_confirmed' : 'manual',
+          matchScore: link.salesforceMatch?.combinedScore ?? null,
+          user: link.linkedByName,
+          recordedAt: link.updatedAt,
+        },
+      );
+    });
+    const linkedIds = new Set(links.map((link) => link.storeId));
+
     // Fetch metadata from Salesforce_rawData for each store by matching address and name
     // Uses fuzzy matching logic like RCA_template.py
-    const metadataPromises = selected.map(async (store) => {
+    const metadataPromises = selected.filter((store) => !linkedIds.has(store.storeId)).map(async (store) => {
       try {
         const result = await getSalesforceMetadataByAddress({
           street: store.address,
@@ -240,11 +354,16 @@ export function useRCAWizard(initialStep?: number) {
         });
 
         if (result && result.matched) {
-          metadata[store.storeId] = {
-            ...metadata[store.storeId],
-            yearBuilt: result.yearBuilt,
-            squareFootage: result.squareFootage,
-          };
+          metadata[store.storeId] = stampProvenance(
+            {
+              ...metadata[store.storeId],
+              yearBuilt: result.yearBuilt,
+              squareFootage: result.squareFootage,
+              ...pickFacility(result),
+            },
+            METADATA_FIELDS,
+            { source: 'salesforce_auto', matchScore: result.matchScore ?? null, user: null, recordedAt: new Date().toISOString() },
+          );
         }
       } catch (error) {
         console.warn(`Failed to fetch metadata for store ${store.storeId}:`, error);
@@ -253,6 +372,21 @@ export function useRCAWizard(initialStep?: number) {
 
     await Promise.all(metadataPromises);
 
+    // StorTrack fills in facility attributes that Salesforce and saved links left empty
+    (await storeInfo).forEach((info) => {
+      const current = metadata[info.storeId];
+      if (!current || !info.facility) return;
+      const missing = FACILITY_FIELDS.filter(
+        (field) => (current[field] ?? null) === null && info.facility[field] !== null
+      );
+      if (missing.length === 0) return;
+      metadata[info.storeId] = stampProvenance(
+        { ...current, ...Object.fromEntries(missing.map((field) => [field, info.facility[field]])) },
+        missing,
+        { source: 'stortrack', matchScore: null, user: null, recordedAt: new Date().toISOString() },
+      );
+    });
+
     setState((prev) => ({
       ...prev,
       selectedStores: selected,
@@ -264,7 +398,8 @@ export function useRCAWizard(initialStep?: number) {
 
     const matchedCount = Object.values(metadata).filter(m => m.yearBuilt || m.squareFootage).length;
     if (matchedCount > 0) {
-      toast.success(`Found metadata for ${matchedCount} of ${selected.length} stores`);
+      const reused = links.length > 0 ? ` (${links.length} from saved matches)` : '';
+      toast.success(`Found metadata for ${matchedCount} of ${selected.length} stores${reused}`);
     }
   }, [state.subjectStore]);
 
@@ -285,11 +420,16 @@ export function useRCAWizard(initialStep?: number) {
           ...prev,
           storeMetadata: {
             ...prev.storeMetadata,
-            [store.storeId]: {
-              ...prev.storeMetadata[store.storeId],
-              yearBuilt: result.yearBuilt,
-              squareFootage: result.squareFootage,
-            },
+            [store.storeId]: stampProvenance(
+              {
+                ...prev.storeMetadata[store.storeId],
+                yearBuilt: result.yearBuilt,
+                squareFootage: result.squareFootage,
+                ...pickFacility(result),
+              },
+              METADATA_FIELDS,
+              { source: 'salesforce_auto', matchScore: result.matchScore ?? null, user: null, recordedAt: new Date().toISOString() },
+            ),
           },
         }));
         return result;
@@ -318,15 +458,67 @@ export function useRCAWizard(initialStep?: number) {
     }
   }, []);
 
+  // Records the analyst's Salesforce decision for this analysis and for every later one
+  const linkStoreIdentity = useCallback(
+    async (
+      store: Store,
+      link: Pick<StoreMetadata, 'yearBuilt' | 'squareFootage' | 'salesforceMatch'> & Partial<FacilityAttributes>,
+    ) => {
+      // Facility values the decision leaves out keep what the analyst already has
+      const facility = pickFacility({ ...state.storeMetadata[store.storeId], ...link });
+      setState((prev) => ({
+        ...prev,
+        storeMetadata: {
+          ...prev.storeMetadata,
+          [store.storeId]: stampProvenance(
+            { ...prev.storeMetadata[store.storeId], ...link, linked: true },
+            METADATA_FIELDS.filter((field) => field in link),
+            {
+              source: link.salesforceMatch ? 'salesforce_confirmed' : 'manual',
+              matchScore: link.salesforceMatch?.combinedScore ?? null,
+              user: username,
+              recordedAt: new Date().toISOString(),
+            },
+          ),
+        },
+      }));
+
+      try {
+        await saveStoreIdentityLink(store.storeId, {
+          storeName: store.storeName,
+          address: store.address,
+          city: store.city,
+          state: store.state,
+          zip: store.zip,
+          salesforceMatch: link.salesforceMatch ?? null,
+          yearBuilt: link.yearBuilt,
+          squareFootage: link.squareFootage,
+          facility,
+        });
+      } catch (error) {
+        console.error('Failed to save store link:', error);
+        if (!isForbiddenError(error)) toast.warning('Match applied to this analysis only; it could not be saved for reuse');
+      }
+    },
+    [state.storeMetadata, username],
+  );
+
+  // Values typed into the Metadata step count as manual entries
   const updateStoreMetadata = useCallback((storeId: number, metadata: Partial<StoreMetadata>) => {
+    const edited = METADATA_FIELDS.filter((field) => field in metadata);
     setState((prev) => ({
       ...prev,
       storeMetadata: {
         ...prev.storeMetadata,
-        [storeId]: { ...prev.storeMetadata[storeId], ...metadata },
+        [storeId]: stampProvenance({ ...prev.storeMetadata[storeId], ...metadata }, edited, {
+          source: 'manual',
+          matchScore: null,
+          user: username,
+          recordedAt: new Date().toISOString(),
+        }),
       },
     }));
-  }, []);
+  }, [username]);
 
   const updateStoreRankings = useCallback((storeId: number, rankings: Partial<StoreRankings>) => {
     setState((prev) => ({
@@ -342,9 +534,35 @@ export function useRCAWizard(initialStep?: number) {
     setState((prev) => ({
       ...prev,
       adjustmentFactors: { ...prev.adjustmentFactors, ...factors },
+      adjustmentPreset: prev.adjustmentPreset && { ...prev.adjustmentPreset, modified: true },
+    }));
+  }, []);
+
+  const updateAdjustmentModel = useCallback((model: Partial<AdjustmentModel>) => {
+    setState((prev) => ({
+      ...prev,
+      adjustmentModel: { ...prev.adjustmentModel, ...model },
+      adjustmentPreset: prev.adjustmentPreset && { ...prev.adjustmentPreset, modified: true },
     }));
   }, []);
 
+  // Replace the factors and model with a preset version and record which one
+  const applyAdjustmentPreset = useCallback(
+    (preset: { id: number; name: string; version: number; factors: AdjustmentFactors; model: AdjustmentModel }) => {
+      setState((prev) => ({
+        ...prev,
+        adjustmentFactors: preset.factors,
+        adjustmentModel: preset.model,
+        adjustmentPreset: { id: preset.id, name: preset.name, version: preset.version, modified: false },
+      }));
+    },
+    [],
+  );
+
+  const updateTradeArea = useCallback((tradeArea: TradeArea) => {
+    setState((prev) => ({ ...prev, tradeArea }));
+  }, []);
+
   const updateCustomName = useCallback((storeId: number, name: string) => {
     setState((prev) => ({
       ...prev,
@@ -358,30 +576,25 @@ export function useRCAWizard(initialStep?: number) {
 
     try {
       const storeIds = state.selectedStores.map((s) => s.storeId);
-      const result = await getTrailing12MonthRates({ storeIds });
-
-      // Calculate gaps based on actual data coverage
-      const gaps: DateGap[] = state.selectedStores.map((store) => {
-        const dates = result.datesByStore[store.storeId] || [];
-        const totalExpectedDays = 365;
-        const actualDays = dates.length;
-        const missingDays = Math.max(0, totalExpectedDays - actualDays);
+      const coverage = trailingYear();
+      const [result, settings] = await Promise.all([
+        getTrailing12MonthRates({ storeIds, fromDate: coverage.from, toDate: coverage.to }),
+        getGapSettings(),
+      ]);
 
-        return {
-          storeId: store.storeId,
-          storeName: store.storeName,
-          missingDays,
-          coveragePercent: Math.round((actualDays / totalExpectedDays) * 100 * 10) / 10,
-          dateRanges: [], // Would need more detailed analysis
-          yearsNeeded: missingDays > 30 ? [2024, 2025] : [],
-          estimatedCost: missingDays > 30 ? 12.5 * Math.ceil(missingDays / 30) : 0,
-        };
-      });
+      // Walk each store's collected dates against the expected collection cadence
+      const gaps: DateGap[] = state.selectedStores.map((store) => ({
+        storeId: store.storeId,
+        storeName: store.storeName,
+        ...analyzeDateGaps(result.datesByStore[store.storeId] || [], coverage, settings),
+      }));
 
       setState((prev) => ({
         ...prev,
         isLoading: false,
         dateGaps: gaps,
+        gapSettings: settings,
+        rateCoverage: coverage,
         error: null,
       }));
     } catch (error) {
@@ -393,7 +606,7 @@ export function useRCAWizard(initialStep?: number) {
         error: message,
         dateGaps: [],
       }));
-      toast.error(message);
+      if (!isForbiddenError(error)) toast.error(message);
     }
   }, [state.selectedStores]);
 
@@ -401,6 +614,79 @@ export function useRCAWizard(initialStep?: number) {
     setState((prev) => ({ ...prev, apiStoreIds: ids }));
   }, []);
 
+  // Pay StorTrack for only the missing ranges of the stores ticked on the Data Gaps step
+  const fetchMissingData = useCallback(async () => {
+    const selected = state.dateGaps.filter(
+      (gap) => state.apiStoreIds.includes(gap.storeId) && gap.dateRanges.length > 0
+    );
+    if (selected.length === 0) {
+      toast.error('Select at least one store with missing data');
+      return null;
+    }
+
+    try {
+      const job = await runHistoricalFill({
+        stores: selected.map((gap) => ({ storeId: gap.storeId, ranges: gap.dateRanges })),
+      });
+      const result = job.result;
+      // Paid rows can repeat what the database already holds for a gap's edge days
+      const databaseRecords = await loadDatabaseRecords(
+        selected.map((gap) => gap.storeId),
+        state.rateCoverage ?? trailingYear()
+      );
+      const fresh = mergeRateRecords(databaseRecords, result.records);
+      const added = fresh.records.slice(databaseRecords.length);
+      const { records } = mergeRateRecords(state.rateRecords, added);
+      const gapFill: GapFillResult = {
+        fetchedAt: new Date().toISOString(),
+        stores: result.stores,
+        recordsAdded: added.length,
+        duplicatesSkipped: fresh.duplicates,
+        estimatedCost: selected.reduce((sum, gap) => sum + gap.estimatedCost, 0),
+        actualCost: result.actualCost,
+      };
+
+      setState((prev) => ({ ...prev, rateRecords: records, gapFill, paidJobIds: [...prev.paidJobIds, job.id] }));
+
+      const failed = result.stores.filter((store) => store.error);
+      if (failed.length > 0) {
+        toast.warning(`Fetched ${gapFill.recordsAdded} records; ${failed.length} store(s) failed`);
+      } else {
+        toast.success(`Fetched ${gapFill.recordsAdded} records for $${result.actualCost.toFixed(2)}`);
+      }
+      return gapFill;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch missing data';
+      console.error('Gap fill error:', error);
+      if (!isForbiddenError(error)) toast.error(message);
+      return null;
+    }
+  }, [state.dateGaps, state.apiStoreIds, state.rateRecords, state.rateCoverage, runHistoricalFill]);
+
+  // Saved analyses leave rate rows out to stay under the request size limit
+  const reloadRateRecords = useCallback(async () => {
+    if (state.analysisId === null) return;
+    setState((prev) => ({ ...prev, isLoading: true }));
+
+    try {
+      const records = await getAnalysisRates(state.analysisId);
+      setState((prev) => ({ ...prev, rateRecords: records, isLoading: false }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load rate data';
+      console.error('Rate reload error:', error);
+      setState((prev) => ({ ...prev, isLoading: false }));
+      if (!isForbiddenError(error)) toast.error(message);
+    }
+  }, [state.analysisId]);
+
+  // Once per session, for an analysis opened past the Feature Codes step
+  const reloadedRates = useRef(false);
+  useEffect(() => {
+    if (reloadedRates.current || state.rateRecords.length > 0 || state.featureCodes.length === 0) return;
+    reloadedRates.current = true;
+    reloadRateRecords();
+  }, [state.rateRecords.length, state.featureCodes.length, reloadRateRecords]);
+
   const updateFeatureCode = useCallback((tag: string, code: string) => {
     setState((prev) => ({
       ...prev,
@@ -417,14 +703,14 @@ export function useRCAWizard(initialStep?: number) {
     try {
       // Use the same database query that works for gap analysis
       const storeIds = state.selectedStores.map((s) => s.storeId);
-      const result = await getTrailing12MonthRates({ storeIds });
+      const coverage = state.rateCoverage ?? trailingYear();
+      const databaseRecords = await loadDatabaseRecords(storeIds, coverage);
 
-      // Collect all records from all stores
-      const allRecords: RateRecord[] = [];
-      for (const storeId of storeIds) {
-        const storeRecords = result.ratesByStore[storeId] || result.ratesByStore[String(storeId)] || [];
-        allRecords.push(...storeRecords);
-      }
+      // Keep rows already bought from the API for gaps the database doesn't cover
+      const { records: allRecords } = mergeRateRecords(
+        databaseRecords,
+        state.rateRecords.filter((record) => record.source === 'API')
+      );
 
       console.log(`initializeFeatureCodes: Found ${allRecords.length} total records`);
 
@@ -453,6 +739,7 @@ export function useRCAWizard(initialStep?: number) {
         isLoading: false,
         featureCodes,
         rateRecords: allRecords,
+        rateCoverage: coverage,
       }));
     } catch (error) {
       console.error('Failed to initialize feature codes:', error);
@@ -461,174 +748,113 @@ export function useRCAWizard(initialStep?: number) {
         isLoading: false,
         featureCodes: [],
       }));
-      toast.error('Failed to load feature codes');
-    }
-  }, [state.selectedStores]);
-
-  // Build a tag classification string from record features (matches RCA_script.py logic)
-  const buildTagFromRecord = (record: RateRecord): string => {
-    const parts: string[] = [];
-
-    // Add access type
-    if (record.driveUp) {
-      parts.push('Drive-Up');
-    } else if (record.elevator) {
-      parts.push('Elevator');
-    } else if (record.outdoorAccess) {
-      parts.push('Outdoor');
-    } else {
-      parts.push('Ground Level');
+      if (!isForbiddenError(error)) toast.error('Failed to load feature codes');
     }
-
-    // Add climate info
-    if (record.climateControlled) {
-      parts.push('Climate Controlled');
-    } else if (record.humidityControlled) {
-      parts.push('Humidity Controlled');
-    } else {
-      parts.push('Non-Climate');
+  }, [state.selectedStores, state.rateRecords, state.rateCoverage]);
+
+  // Everything the rate grid and the exports built from it need
+  const rateGridInput = useCallback((selectedSizes: string[]): RateGridInput => ({
+    subjectStore: state.subjectStore,
+    selectedStores: state.selectedStores,
+    storeMetadata: state.storeMetadata,
+    storeRankings: state.storeRankings,
+    adjustmentFactors: state.adjustmentFactors,
+    adjustmentModel: state.adjustmentModel,
+    rateRecords: state.rateRecords,
+    customNames: state.customNames,
+    featureCodes: state.featureCodes,
+    tradeArea: state.tradeArea,
+    selectedSizes,
+  }), [state]);
+
+  // Export the records already loaded for the grid, so files are instant and match the screen
+  const exportCSV = useCallback((selectedSizes: string[], mode: CsvExportMode) => {
+    if (state.rateRecords.length === 0) {
+      toast.error('No rate data loaded yet; complete the Feature Codes step first');
+      return;
     }
 
-    // Fallback to existing tag or unitType if no features
-    if (parts.length === 0) {
-      return record.tag || record.unitType || 'Standard';
+    const { csv, rowCount } = buildRateCsv(rateGridInput(selectedSizes), mode);
+    if (rowCount === 0) {
+      toast.error('No rate records match the selected unit sizes');
+      return;
     }
 
-    return parts.join(' / ');
-  };
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `RCA_export_${date}_${mode === 'raw' ? 'data' : 'summary'}.csv`);
+    toast.success(mode === 'raw' ? `Exported ${rowCount} records` : `Exported ${rowCount} summary rows`);
+  }, [state.rateRecords.length, rateGridInput]);
 
-  // Suggest feature code based on tag text (matches RCA_script.py suggest_feature_code)
-  const suggestFeatureCode = (featureText: string): string => {
-    if (!featureText) return 'UNKNOWN';
-
-    const lower = featureText.toLowerCase();
-
-    // Check for climate control
-    const isClimate = lower.includes('climate') && !lower.includes('non-climate');
-
-    // Check for access type
-    const isDriveUp = lower.includes('drive');
-    const isElevator = lower.includes('elevator');
-    const isGround = lower.includes('ground') || lower.includes('first floor');
-    const isInterior = lower.includes('interior');
-    const isOutdoor = lower.includes('outdoor');
-
-    // Determine code based on access type + climate
-    if (isDriveUp) {
-      return isClimate ? 'DUCC' : 'DU';
-    } else if (isElevator) {
-      return isClimate ? 'ECC' : 'ENCC';
-    } else if (isGround) {
-      return isClimate ? 'GLCC' : 'GNCC';
-    } else if (isInterior) {
-      return isClimate ? 'ICC' : 'INCC';
-    } else if (isOutdoor) {
-      return isClimate ? 'OCC' : 'ONC';
-    } else {
-      // Default based on climate only
-      return isClimate ? 'CC' : 'NCC';
+  // Export the on-screen rate comparison grid as a multi-sheet Excel workbook
+  const exportWorkbook = useCallback(async (selectedSizes: string[]) => {
+    if (state.rateRecords.length === 0) {
+      toast.error('No rate data loaded yet; complete the Feature Codes step first');
+      return;
     }
-  };
-
-  // Legacy function for backwards compatibility
-  const generateFeatureCode = (tag: string): string => {
-    return suggestFeatureCode(tag);
-  };
-
-  // Export real CSV data
-  const exportCSV = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      // Fetch historical data for all selected stores
-      const today = new Date();
-      const fromDate = new Date(today);
-      fromDate.setMonth(fromDate.getMonth() - 12);
-
-      const allRecords: RateRecord[] = [];
-
-      for (const store of state.selectedStores) {
-        try {
-          const records = await fetchHistoricalData({
-            storeId: store.storeId,
-            fromDate: fromDate.toISOString().split('T')[0],
-            toDate: today.toISOString().split('T')[0],
-          });
-          allRecords.push(...records);
-        } catch (e) {
-          console.warn(`Failed to fetch data for store ${store.storeId}:`, e);
-        }
-      }
-
-      if (allRecords.length === 0) {
-        toast.error('No data available to export');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+      const blob = await buildRcaWorkbook(rateGridInput(selectedSizes), state.adjustmentPreset);
+      downloadBlob(blob, `RCA_${new Date().toISOString().slice(0, 10)}.xlsx`);
+      toast.success('Exported Excel workbook');
+    } catch (error) {
+      console.error('Workbook export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export workbook');
+    }
+  }, [state.rateRecords.length, state.adjustmentPreset, rateGridInput]);
 
-      // Apply custom names
-      const recordsWithNames = allRecords.map((record) => ({
-        ...record,
-        storeName: state.customNames[record.storeId] || record.storeName,
-      }));
+  // Save the analysis to the server, creating it on first save
+  const saveAnalysis = useCallback(async (name?: string) => {
+    const analysisName =
+      name ||
+      state.analysisName ||
+      (state.subjectStore
+        ? `${state.subjectStore.storeName} - ${state.subjectStore.city}, ${state.subjectStore.state}`
+        : 'Untitled analysis');
 
-      // Generate CSV
-      const headers = [
-        'Store Name',
-        'Address',
-        'City',
-        'State',
-        'ZIP',
-        'Unit Type',
-        'Size',
-        'Features',
-        'Climate Controlled',
-        'Drive Up',
-        'Walk-In Price',
-        'Online Price',
-        'Date',
-        'Promo',
-      ];
-
-      const rows = recordsWithNames.map((r) => [
-        `"${r.storeName}"`,
-        `"${r.address}"`,
-        `"${r.city}"`,
-        `"${r.state}"`,
-        `"${r.zip}"`,
-        `"${r.unitType}"`,
-        `"${r.size}"`,
-        `"${r.features || ''}"`,
-        r.climateControlled ? 'Yes' : 'No',
-        r.driveUp ? 'Yes' : 'No',
-        r.walkInPrice || '',
-        r.onlinePrice || '',
-        r.date,
-        `"${r.promo || ''}"`,
-      ]);
-
-      const csvContent = [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
+    try {
+      const payload = {
+        name: analysisName,
+        currentStep: state.currentStep,
+        state: toPersistedState(state),
+      };
+      const saved = state.analysisId
+        ? await updateAnalysis(state.analysisId, payload)
+        : await createAnalysis(payload);
+
+      setState((prev) => ({ ...prev, analysisId: saved.id, analysisName: saved.name }));
+      toast.success(`Saved "${saved.name}"`);
+      return saved;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save analysis';
+      console.error('Save analysis error:', error);
+      if (!isForbiddenError(error)) toast.error(message);
+      return null;
+    }
+  }, [state]);
 
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `RCA_export_${new Date().toISOString().slice(0, 10)}_data.csv`;
-      a.click();
-      URL.revokeObjectURL(url);
+  // The PDF is rendered server-side from the saved analysis, so save first
+  const downloadReport = useCallback(async (selectedSizes: string[]) => {
+    const saved = await saveAnalysis();
+    // Users who can't save (viewers) still get the last saved version
+    const analysisId = saved?.id ?? state.analysisId;
+    if (!analysisId) return;
 
-      toast.success(`Exported ${recordsWithNames.length} records`);
-      setState((prev) => ({ ...prev, isLoading: false }));
+    try {
+      const blob = await downloadAnalysisReport(analysisId, selectedSizes);
+      const name = (saved?.name ?? state.analysisName ?? 'analysis').replace(/[^\w.-]+/g, '_');
+      downloadBlob(blob, `RCA_${name}.pdf`);
+      toast.success('Downloaded PDF report');
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to export data';
-      console.error('Export error:', error);
-      toast.error(message);
-      setState((prev) => ({ ...prev, isLoading: false }));
+      console.error('PDF report error:', error);
+      if (!isForbiddenError(error)) {
+        toast.error(error instanceof Error ? error.message : 'Failed to generate PDF report');
+      }
     }
-  }, [state.selectedStores, state.customNames]);
+  }, [saveAnalysis, state.analysisId, state.analysisName]);
 
   return {
     state,
+    activeJob,
     actions: {
       setStep,
       nextStep,
@@ -640,14 +866,22 @@ export function useRCAWizard(initialStep?: number) {
       fetchStoreMetadata,
       fetchSalesforceMatchesForStore,
       updateStoreMetadata,
+      linkStoreIdentity,
       updateStoreRankings,
       updateAdjustmentFactors,
+      updateAdjustmentModel,
+      applyAdjustmentPreset,
+      updateTradeArea,
       updateCustomName,
       analyzeGaps,
       setApiStoreIds,
+      fetchMissingData,
       updateFeatureCode,
       initializeFeatureCodes,
       exportCSV,
+      exportWorkbook,
+      saveAnalysis,
+      downloadReport,
     },
   };
 }
@@ -1,175 +1,205 @@
-import type { Store, RateRecord, SalesforceMatch } from "@/types/rca";
+import type {
+  AdjustmentPreset,
+  AdjustmentPresetInput,
+  AdjustmentPresetVersion,
+  AnalysisInput,
+  AnalysisShareEntry,
+  AnalysisSummary,
+  AnalysisUpdate,
+  ApiFailure,
+  ApiResponse,
+  AuthUser,
+  BackgroundJob,
+  CompetitorsResponse,
+  GapSettings,
+  HistoricalFillRequest,
+  RateRecord,
+  SalesforceMatch,
+  SalesforceMetadata,
+  SavedAnalysis,
+  Store,
+  StoreIdentityLink,
+  StoreIdentityLinkInput,
+  StoreSearchResult,
+  TrailingRatesResponse,
+} from '@shared/api';
+import { isJobFinished } from '@shared/api';
+import { toast } from 'sonner';
+
+type QueryValue = string | number | boolean | number[] | undefined | null;
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
 
-async function apiRequest<T>(endpoint: string, body: { action: string; params: Record<string, any> }): Promise<T> {
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
+function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  if (!query) return path;
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    params.append(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// 403s are already shown to the user by apiRequest; callers use this to avoid a second toast
+export function isForbiddenError(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 403;
+}
+
+async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', query, body } = options;
+  const response = await fetch(buildUrl(path, query), {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
   });
 
-  if (!response.ok) {
-    throw new Error(`API error: ${response.status}`);
+  const data: ApiResponse<T> | null = await response.json().catch(() => null);
+
+  // Session expired or never existed: send the user to sign in
+  if (response.status === 401 && !path.startsWith('/api/auth/')) {
+    const next = encodeURIComponent(window.location.pathname);
+    window.location.assign(`/login?next=${next}`);
   }
 
-  const data = await response.json();
-  if (!data.success) {
-    throw new Error(data.error || 'Unknown error');
+  if (!data) {
+    throw new ApiError(`API error: ${response.status}`, response.status);
+  }
+  if (data.success === false) {
+    if (response.status === 403) {
+      toast.error('Permission denied', {
+        id: 'api-forbidden',
+        description: `${data.error}. Ask an admin if you need access.`,
+      });
+    }
+    // Validation failures carry per-field issues; surface the first one
+    const issues = data.details?.issues as { path: string; message: string }[] | undefined;
+    const message = issues?.length ? `${data.error}: ${issues[0].message}` : data.error || 'Unknown error';
+    throw new ApiError(message, response.status, data.code);
   }
 
   return data.data;
 }
 
 export async function searchStoresByAddress(params: {
+  streetAddress?: string;
   state: string;
   city: string;
   zip: string;
   storeName?: string;
   companyName?: string;
-}): Promise<Store[]> {
-  const data = await apiRequest<any[]>('/api/stortrack', {
-    action: 'findStoresByAddress',
-    params: {
+}): Promise<StoreSearchResult[]> {
+  return apiRequest<StoreSearchResult[]>('/api/stores/search', {
+    query: {
+      streetAddress: params.streetAddress,
       country: 'United States',
       state: params.state,
       city: params.city,
       zip: params.zip,
-      storename: params.storeName || '',
-      companyname: params.companyName || '',
+      storeName: params.storeName,
+      companyName: params.companyName,
     },
   });
-
-  return data.map((store: any) => ({
-    storeId: store.storeid || store.id,
-    masterId: store.masterid,
-    storeName: store.storename || store.name || '',
-    address: store.address || '',
-    city: store.city || '',
-    state: store.state || '',
-    zip: store.zip || '',
-    distance: store.distance || 0,
-    latitude: store.latitude,
-    longitude: store.longitude,
-  }));
 }
 
 export async function findCompetitors(params: {
   storeId: number;
   radius: number;
-}): Promise<{ subject: Store; competitors: Store[] }> {
-  const data = await apiRequest<any>('/api/stortrack', {
-    action: 'findCompetitors',
-    params: {
-      storeid: params.storeId,
-      coveragezone: params.radius,
-    },
+}): Promise<CompetitorsResponse> {
+  return apiRequest<CompetitorsResponse>(`/api/stores/${params.storeId}/competitors`, {
+    query: { radius: params.radius },
   });
+}
 
-  const storeData = Array.isArray(data) ? data[0] : data;
-
-  const subject: Store = {
-    storeId: storeData.storeid,
-    masterId: storeData.masterid,
-    storeName: storeData.storename || '',
-    address: storeData.address || '',
-    city: storeData.city || '',
-    state: storeData.state || '',
-    zip: storeData.zip || '',
-    distance: 0,
-  };
-
-  const competitorsData = storeData.competitorstores || [];
-  const competitors: Store[] = competitorsData.map((comp: any) => ({
-    storeId: comp.storeid,
-    masterId: comp.masterid,
-    storeName: comp.storename || '',
-    address: comp.address || '',
-    city: comp.city || '',
-    state: comp.state || '',
-    zip: comp.zip || '',
-    distance: comp.distance || 0,
-  }));
-
-  return { subject, competitors };
-}
-
-export async function fetchHistoricalData(params: {
-  storeId: number;
-  fromDate: string;
-  toDate: string;
-}): Promise<RateRecord[]> {
-  const data = await apiRequest<any[]>('/api/stortrack', {
-    action: 'fetchHistoricalData',
-    params: {
-      storeid: params.storeId,
-      from: params.fromDate,
-      to: params.toDate,
-    },
-  });
+export async function getGapSettings(): Promise<GapSettings> {
+  return apiRequest<GapSettings>('/api/rates/gap-settings');
+}
 
-  const records: RateRecord[] = [];
-
-  for (const storeData of data) {
-    const rates = storeData.rates || storeData.rateinfo || [];
-    for (const rate of rates) {
-      records.push({
-        storeId: params.storeId,
-        storeName: storeData.storename || '',
-        address: storeData.address || '',
-        city: storeData.city || '',
-        state: storeData.state || '',
-        zip: storeData.zip || '',
-        unitType: rate.spacetype || rate.unittype || '',
-        size: rate.size || rate.unitsize || '',
-        width: rate.width,
-        length: rate.length,
-        height: rate.height,
-        features: rate.features || '',
-        tag: rate.tag || rate.spacetype || '',
-        climateControlled: rate.climate_controlled || rate.cc || false,
-        humidityControlled: rate.humidity_controlled || false,
-        driveUp: rate.drive_up || rate.driveup || false,
-        elevator: rate.elevator || false,
-        outdoorAccess: rate.outdoor_access || false,
-        walkInPrice: rate.regular_rate || rate.regularrate || rate.rate,
-        onlinePrice: rate.online_rate || rate.onlinerate,
-        date: rate.date_collected || rate.datecollected || rate.date || '',
-        promo: rate.promo || rate.promotion || '',
-        source: 'API' as const,
-      });
+// Queue a paid StorTrack pull of the given ranges; the server runs it as a background job
+export async function startHistoricalFill(request: HistoricalFillRequest): Promise<BackgroundJob> {
+  return apiRequest<BackgroundJob>('/api/jobs/historical-fill', { method: 'POST', body: request });
+}
+
+export async function getJob(id: number): Promise<BackgroundJob> {
+  return apiRequest<BackgroundJob>(`/api/jobs/${id}`);
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Follow a job over server-sent events, falling back to polling if the stream drops.
+// Resolves with the finished job whether it succeeded or failed.
+export function waitForJob(id: number, onUpdate: (job: BackgroundJob) => void): Promise<BackgroundJob> {
+  return new Promise((resolve, reject) => {
+    const finish = (job: BackgroundJob) => {
+      onUpdate(job);
+      if (!isJobFinished(job.status)) return false;
+      resolve(job);
+      return true;
+    };
+
+    const poll = async () => {
+      try {
+        while (!finish(await getJob(id))) {
+          await new Promise((r) => setTimeout(r, JOB_POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    if (typeof EventSource === 'undefined') {
+      void poll();
+      return;
     }
-  }
 
-  return records;
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    source.addEventListener('job', (event) => {
+      if (finish(JSON.parse((event as MessageEvent<string>).data))) source.close();
+    });
+    source.onerror = () => {
+      source.close();
+      void poll();
+    };
+  });
 }
 
 export async function checkMCPHealth(): Promise<{ healthy: boolean; status: number }> {
-  return apiRequest('/api/database', { action: 'healthCheck', params: {} });
+  return apiRequest('/api/mcp/health');
 }
 
-export async function getMCPDatabases(): Promise<any[]> {
-  return apiRequest('/api/database', { action: 'getDatabases', params: {} });
+export async function getMCPDatabases(): Promise<unknown[]> {
+  return apiRequest('/api/mcp/databases');
 }
 
-export async function getMCPSites(params?: { state?: string; city?: string }): Promise<any[]> {
-  return apiRequest('/api/database', { action: 'getSites', params: params || {} });
+export async function getMCPSites(params?: { state?: string; city?: string }): Promise<unknown[]> {
+  return apiRequest('/api/mcp/sites', { query: params });
 }
 
-export async function queryStortrackData(endpoint: string, queryParams?: Record<string, string>): Promise<any> {
-  return apiRequest('/api/database', { action: 'getStortrackData', params: { endpoint, queryParams } });
+export async function queryStortrackData(endpoint: string, queryParams?: Record<string, string>): Promise<unknown> {
+  return apiRequest(`/api/mcp/stortrack/${endpoint.replace(/^\//, '')}`, { query: queryParams });
 }
 
-export async function queryMCPDatabase(database: string, table: string, filters?: Record<string, string>, limit?: number): Promise<any> {
-  return apiRequest('/api/database', { action: 'queryDatabase', params: { database, table, filters, limit } });
+export async function queryMCPDatabase(database: string, table: string, filters?: Record<string, string>, limit?: number): Promise<unknown> {
+  return apiRequest('/api/mcp/query', { method: 'POST', body: { database, table, filters, limit } });
 }
 
 export async function getTrailing12MonthRates(params: {
   storeIds: number[];
   fromDate?: string;
   toDate?: string;
-}): Promise<{ ratesByStore: Record<number, RateRecord[]>; datesByStore: Record<number, string[]> }> {
-  return apiRequest('/api/database', { action: 'getTrailing12MonthRates', params });
+}): Promise<TrailingRatesResponse> {
+  return apiRequest<TrailingRatesResponse>('/api/rates/trailing', { query: params });
 }
 
 export async function getSalesforceMetadataByAddress(params: {
@@ -178,47 +208,9 @@ export async function getSalesforceMetadataByAddress(params: {
   state: string;
   postalCode: string;
   storeName?: string;
-}): Promise<{
-  yearBuilt: number | null;
-  squareFootage: number | null;
-  matched: boolean;
-  matchScore?: number;
-} | null> {
+}): Promise<SalesforceMetadata | null> {
   try {
-    const results = await apiRequest<any[]>('/api/database', {
-      action: 'getSalesforceMetadataByAddress',
-      params
-    });
-
-    if (!results || (Array.isArray(results) && results.length === 0)) {
-      return null;
-    }
-
-    const record = Array.isArray(results) ? results[0] : results;
-
-    let yearBuilt: number | null = null;
-    let squareFootage: number | null = null;
-
-    if (record.Year_Built__c) {
-      const parsed = parseInt(record.Year_Built__c, 10);
-      if (!isNaN(parsed) && parsed >= 1900 && parsed <= 2030) {
-        yearBuilt = parsed;
-      }
-    }
-
-    if (record.Net_RSF__c) {
-      const parsed = parseFloat(record.Net_RSF__c);
-      if (!isNaN(parsed) && parsed > 0) {
-        squareFootage = parsed;
-      }
-    }
-
-    return {
-      yearBuilt,
-      squareFootage,
-      matched: true,
-      matchScore: record.combinedScore,
-    };
+    return await apiRequest<SalesforceMetadata | null>('/api/salesforce/metadata', { query: params });
   } catch (error) {
     console.error('Failed to fetch Salesforce metadata by address:', error);
     return null;
@@ -233,29 +225,114 @@ export async function getSalesforceMatches(params: {
   storeName?: string;
 }): Promise<SalesforceMatch[]> {
   try {
-    const results = await apiRequest<SalesforceMatch[]>('/api/database', {
-      action: 'getSalesforceMetadataByAddress',
-      params
-    });
-
-    if (!results || !Array.isArray(results)) {
-      return [];
-    }
-
-    return results;
+    return await apiRequest<SalesforceMatch[]>('/api/salesforce/matches', { query: params });
   } catch (error) {
     console.error('Failed to fetch Salesforce matches:', error);
     return [];
   }
 }
 
-export async function getStoreInfo(storeIds: number[]): Promise<Record<number, {
-  storeId: number;
-  storeName: string;
-  address: string;
-  city: string;
-  state: string;
-  zip: string;
-}>> {
-  return apiRequest('/api/database', { action: 'getStoreInfo', params: { storeIds } });
+export async function getStoreIdentityLinks(storeIds: number[]): Promise<StoreIdentityLink[]> {
+  return apiRequest('/api/store-links/lookup', { query: { storeIds } });
+}
+
+export async function listStoreIdentityLinks(): Promise<StoreIdentityLink[]> {
+  return apiRequest('/api/store-links');
+}
+
+export async function saveStoreIdentityLink(storeId: number, link: StoreIdentityLinkInput): Promise<StoreIdentityLink> {
+  return apiRequest(`/api/store-links/${storeId}`, { method: 'PUT', body: link });
+}
+
+export async function deleteStoreIdentityLink(storeId: number): Promise<{ storeId: number }> {
+  return apiRequest(`/api/store-links/${storeId}`, { method: 'DELETE' });
+}
+
+export async function getStoreInfo(storeIds: number[]): Promise<Store[]> {
+  return apiRequest<Store[]>('/api/stores/info', { query: { storeIds } });
+}
+
+export async function listAnalyses(params: { archived?: boolean } = {}): Promise<AnalysisSummary[]> {
+  return apiRequest<AnalysisSummary[]>('/api/analyses', { query: params });
+}
+
+export async function getAnalysis(id: number): Promise<SavedAnalysis> {
+  return apiRequest<SavedAnalysis>(`/api/analyses/${id}`);
+}
+
+export async function getAnalysisRates(id: number): Promise<RateRecord[]> {
+  return apiRequest<RateRecord[]>(`/api/analyses/${id}/rates`);
+}
+
+export async function createAnalysis(analysis: AnalysisInput): Promise<SavedAnalysis> {
+  return apiRequest<SavedAnalysis>('/api/analyses', { method: 'POST', body: analysis });
+}
+
+export async function updateAnalysis(id: number, changes: AnalysisUpdate): Promise<SavedAnalysis> {
+  return apiRequest<SavedAnalysis>(`/api/analyses/${id}`, { method: 'PUT', body: changes });
+}
+
+// The report is a PDF, not the JSON envelope; failures still come back as JSON
+export async function downloadAnalysisReport(id: number, sizes: string[]): Promise<Blob> {
+  const response = await fetch(buildUrl(`/api/analyses/${id}/report.pdf`, { sizes: sizes.join(',') }));
+  if (response.ok) return response.blob();
+
+  const data: ApiFailure | null = await response.json().catch(() => null);
+  throw new ApiError(data?.error || `API error: ${response.status}`, response.status, data?.code);
+}
+
+export async function duplicateAnalysis(id: number): Promise<SavedAnalysis> {
+  return apiRequest<SavedAnalysis>(`/api/analyses/${id}/duplicate`, { method: 'POST' });
+}
+
+export async function deleteAnalysis(id: number): Promise<{ id: number }> {
+  return apiRequest<{ id: number }>(`/api/analyses/${id}`, { method: 'DELETE' });
+}
+
+export async function listAnalysisShares(id: number): Promise<AnalysisShareEntry[]> {
+  return apiRequest<AnalysisShareEntry[]>(`/api/analyses/${id}/shares`);
+}
+
+export async function shareAnalysis(id: number, username: string): Promise<AnalysisShareEntry> {
+  return apiRequest<AnalysisShareEntry>(`/api/analyses/${id}/shares`, { method: 'POST', body: { username } });
+}
+
+export async function unshareAnalysis(id: number, userId: number): Promise<{ userId: number }> {
+  return apiRequest<{ userId: number }>(`/api/analyses/${id}/shares/${userId}`, { method: 'DELETE' });
+}
+
+export async function listAdjustmentPresets(): Promise<AdjustmentPreset[]> {
+  return apiRequest('/api/adjustment-presets');
+}
+
+export async function listAdjustmentPresetVersions(id: number): Promise<AdjustmentPresetVersion[]> {
+  return apiRequest(`/api/adjustment-presets/${id}/versions`);
+}
+
+export async function createAdjustmentPreset(preset: AdjustmentPresetInput): Promise<AdjustmentPreset> {
+  return apiRequest('/api/adjustment-presets', { method: 'POST', body: preset });
+}
+
+export async function updateAdjustmentPreset(id: number, preset: AdjustmentPresetInput): Promise<AdjustmentPreset> {
+  return apiRequest(`/api/adjustment-presets/${id}`, { method: 'PUT', body: preset });
+}
+
+export async function archiveAdjustmentPreset(id: number): Promise<{ id: number }> {
+  return apiRequest(`/api/adjustment-presets/${id}`, { method: 'DELETE' });
+}
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  return apiRequest<AuthUser | null>('/api/auth/me');
+}
+
+export async function login(credentials: { username: string; password: string }): Promise<AuthUser> {
+  return apiRequest<AuthUser>('/api/auth/login', { method: 'POST', body: credentials });
+}
+
+export async function register(details: { username: string; email: string; password: string }): Promise<AuthUser> {
+  return apiRequest<AuthUser>('/api/auth/register', { method: 'POST', body: details });
+}
+
+export async function logout(): Promise<null> {
+  return apiRequest<null>('/api/auth/logout', { method: 'POST' });
 }
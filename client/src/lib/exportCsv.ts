@@ -0,0 +1,171 @@
+import { featureCodeForRecord } from '@shared/featureCodes';
+import { explainAdjustment, type AdjustmentBreakdown } from '@shared/adjustments';
+import { fieldProvenance } from '@shared/provenance';
+import {
+  TRAILING_PERIODS,
+  buildRateGrid,
+  normalizeSize,
+  sizeBucket,
+  type GroupedAverages,
+  type RateGridInput,
+} from '@shared/rateGrid';
+
+// "raw" is one row per rate record; "summary" is the grouped grid from the Data Visualization step
+export type CsvExportMode = 'raw' | 'summary';
+
+type Cell = string | number | null | undefined;
+
+function csvCell(value: Cell): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Cell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+function price(value: number | null | undefined): string | null {
+  return value ? value.toFixed(2) : null;
+}
+
+function percent(fraction: number): string {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
+
+function rawRows(input: RateGridInput): Cell[][] {
+  const allowedSizes = new Set(input.selectedSizes.map(normalizeSize));
+  const stores = new Map(input.selectedStores.map((store) => [store.storeId, store]));
+  // Overrides make the adjustment depend on the grid cell, not just the store
+  const adjustments = new Map<string, AdjustmentBreakdown>();
+  const adjustmentFor = (storeId: number, featureCode: string, size: string) => {
+    const key = `${storeId}|${featureCode}|${size}`;
+    if (!adjustments.has(key)) {
+      adjustments.set(key, explainAdjustment(storeId, input, { featureCode, sizeBucket: sizeBucket(size) }));
+    }
+    return adjustments.get(key)!;
+  };
+
+  const header = [
+    'Store ID', 'Store Name', 'Role', 'Address', 'City', 'State', 'ZIP', 'Distance',
+    'Unit Type', 'Size', 'Feature Code', 'Features', 'Climate Controlled', 'Drive Up',
+    'Walk-In Price', 'Online Price', 'Adjustment', 'Adjustment Override', 'Online Price (Adj)',
+    'Date', 'Promo', 'Source',
+  ];
+
+  const rows = input.rateRecords
+    .filter((record) => allowedSizes.has(normalizeSize(record.size || '')))
+    .map((record) => {
+      const isSubject = record.storeId === input.subjectStore?.storeId;
+      const featureCode = featureCodeForRecord(record, input.featureCodes);
+      const breakdown = adjustmentFor(record.storeId, featureCode, record.size || '');
+      const adjustment = breakdown.percent / 100;
+      return [
+        record.storeId,
+        input.customNames[record.storeId] || record.storeName,
+        isSubject ? 'Subject' : 'Competitor',
+        record.address,
+        record.city,
+        record.state,
+        record.zip,
+        isSubject ? 0 : stores.get(record.storeId)?.distance ?? record.distance,
+        record.unitType,
+        record.size,
+        featureCode,
+        record.features,
+        record.climateControlled ? 'Yes' : 'No',
+        record.driveUp ? 'Yes' : 'No',
+        price(record.walkInPrice),
+        price(record.onlinePrice),
+        percent(adjustment),
+        breakdown.override ? breakdown.override.label || 'Override' : null,
+        price(record.onlinePrice ? record.onlinePrice * (1 + adjustment) : null),
+        record.date,
+        record.promo,
+        record.source,
+      ];
+    });
+
+  return [header, ...rows];
+}
+
+function summaryRows(input: RateGridInput): Cell[][] {
+  const periodHeaders = TRAILING_PERIODS.flatMap(({ label }) => [
+    `${label} Asking`,
+    `${label} Asking (Adj)`,
+    `${label} In-Store`,
+  ]);
+  const periodValues = (values: GroupedAverages) =>
+    TRAILING_PERIODS.flatMap(({ key }) => [
+      price(values[`${key}Asking`]),
+      price(values[`${key}AskingAdj`]),
+      price(values[`${key}InStore`]),
+    ]);
+
+  const header = [
+    'Size', 'Feature Code', 'Store', 'Role', 'Distance', 'Year Built', 'Net RSF', 'Year Built Source',
+    'Net RSF Source', 'Adjustment', 'Adjustment Override', ...periodHeaders, 'Records', 'Market Share',
+  ];
+
+  const rows = buildRateGrid(input).flatMap((group) => {
+    const marketShare = `${group.marketShare.toFixed(1)}%`;
+    return [
+      ...group.stores.map((store) => [
+        group.size,
+        group.featureCode,
+        store.storeName,
+        store.isSubject ? 'Subject' : 'Competitor',
+        store.distance,
+        store.yearBuilt,
+        store.squareFootage,
+        fieldProvenance(input.storeMetadata[store.storeId], 'yearBuilt'),
+        fieldProvenance(input.storeMetadata[store.storeId], 'squareFootage'),
+        percent(store.adjustment),
+        store.adjustmentOverride,
+        ...periodValues(store),
+        store.recordCount,
+        marketShare,
+      ]),
+      [
+        group.size,
+        group.featureCode,
+        'Market Average',
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        ...periodValues(group.averages),
+        group.stores.reduce((sum, store) => sum + store.recordCount, 0),
+        marketShare,
+      ],
+      ...group.bandAverages.map(({ band, storeCount, averages }) => [
+        group.size,
+        group.featureCode,
+        `${band.label} Average (${storeCount} competitors)`,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        ...periodValues(averages),
+        null,
+        null,
+      ]),
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+/** CSV of the loaded rate records, limited to the selected sizes; rowCount excludes the header. */
+export function buildRateCsv(input: RateGridInput, mode: CsvExportMode): { csv: string; rowCount: number } {
+  const rows = mode === 'raw' ? rawRows(input) : summaryRows(input);
+  return { csv: toCsv(rows), rowCount: rows.length - 1 };
+}
@@ -0,0 +1,278 @@
+import type { Worksheet } from 'exceljs';
+import { featureCodeForRecord } from '@shared/featureCodes';
+import { describeAdjustmentPreset, totalAdjustment } from '@shared/adjustments';
+import { fieldProvenance } from '@shared/provenance';
+import { RANKING_CATEGORIES, type AppliedAdjustmentPreset } from '@shared/rca';
+import {
+  SIZE_BUCKET_LABELS,
+  TRAILING_PERIODS,
+  buildRateGrid,
+  type GroupedData,
+  type RateGridInput,
+} from '@shared/rateGrid';
+
+const CURRENCY = '"$"#,##0.00';
+const PERCENT = '0.0%';
+const INTEGER = '#,##0';
+const DISTANCE = '0.00 "mi"';
+
+// Excel rejects sheet names over 31 characters or containing : \ / ? * [ ]
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[:\\/?*[\]]/g, '-').slice(0, 31);
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base.slice(0, 31 - `(${n})`.length - 1)} (${n})`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function styleHeader(sheet: Worksheet, rowNumber: number) {
+  const row = sheet.getRow(rowNumber);
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1F3A5F' } };
+  row.alignment = { vertical: 'middle', wrapText: true };
+}
+
+function storeName(input: RateGridInput, storeId: number): string {
+  return (
+    input.customNames[storeId] ||
+    input.selectedStores.find((store) => store.storeId === storeId)?.storeName ||
+    `Store ${storeId}`
+  );
+}
+
+function addSummarySheet(sheet: Worksheet, input: RateGridInput, preset: AppliedAdjustmentPreset | null) {
+  const { subjectStore, adjustmentFactors } = input;
+
+  sheet.columns = [
+    { width: 34 }, { width: 10 }, { width: 32 }, { width: 18 }, { width: 8 },
+    { width: 12 }, { width: 12 }, { width: 12 }, { width: 12 }, { width: 40 }, { width: 40 },
+  ];
+
+  sheet.addRow(['Rate Comparison Analysis']).font = { bold: true, size: 16 };
+  sheet.addRow([
+    'Subject Store',
+    subjectStore ? storeName(input, subjectStore.storeId) : '—',
+  ]);
+  if (subjectStore) {
+    sheet.addRow(['Address', `${subjectStore.address}, ${subjectStore.city}, ${subjectStore.state} ${subjectStore.zip}`]);
+  }
+  sheet.addRow(['Generated', new Date()]).getCell(2).numFmt = 'yyyy-mm-dd hh:mm';
+  sheet.addRow([]);
+
+  sheet.addRow(['Adjustments']).font = { bold: true };
+  sheet.addRow(['Preset', describeAdjustmentPreset(preset)]);
+  const adjustments: [string, number][] = [
+    ['Captive Market Premium', adjustmentFactors.captiveMarketPremium || 0],
+    ['Loss to Lease', adjustmentFactors.lossToLease || 0],
+    ['CC Adjustment', adjustmentFactors.ccAdj || 0],
+    ['Total Adjustment', totalAdjustment(adjustmentFactors)],
+  ];
+  adjustments.forEach(([label, value]) => {
+    sheet.addRow([label, value / 100]).getCell(2).numFmt = PERCENT;
+  });
+  sheet.lastRow!.font = { bold: true };
+  sheet.addRow([]);
+
+  const { adjustmentModel: model } = input;
+  sheet.addRow(['Ranking Adjustment Model']).font = { bold: true };
+  const bounds: [string, number | null][] = [
+    ['Per Ranking Point', model.pointPercent],
+    ['Floor', model.floorPercent],
+    ['Cap', model.capPercent],
+  ];
+  bounds.forEach(([label, value]) => {
+    sheet.addRow([label, value === null ? 'None' : value / 100]).getCell(2).numFmt = PERCENT;
+  });
+  RANKING_CATEGORIES.forEach((category) => {
+    sheet.addRow([`${category} weight`, model.weights[category]]);
+  });
+  sheet.addRow([]);
+
+  if (model.overrides.length > 0) {
+    sheet.addRow(['Adjustment Overrides']).font = { bold: true };
+    const header = sheet.addRow(['Override', 'Feature Codes', 'Sizes', 'Captive Market', 'Loss to Lease', 'CC Adj.']);
+    styleHeader(sheet, header.number);
+    model.overrides.forEach((override) => {
+      const factor = (value: number | undefined) => (typeof value === 'number' ? value / 100 : null);
+      const row = sheet.addRow([
+        override.label || 'Override',
+        override.featureCodes.join(', ') || 'All',
+        override.sizeBuckets.map((bucket) => SIZE_BUCKET_LABELS[bucket]).join(', ') || 'All',
+        factor(override.factors.captiveMarketPremium),
+        factor(override.factors.lossToLease),
+        factor(override.factors.ccAdj),
+      ]);
+      [4, 5, 6].forEach((cell) => {
+        row.getCell(cell).numFmt = PERCENT;
+      });
+    });
+    sheet.addRow([]);
+  }
+
+  const header = sheet.addRow([
+    'Store', 'Role', 'Address', 'City', 'State', 'Distance', 'Year Built', 'Net RSF', 'Records',
+    'Year Built Source', 'Net RSF Source',
+  ]);
+  styleHeader(sheet, header.number);
+  sheet.views = [{ state: 'frozen', ySplit: header.number }];
+
+  input.selectedStores.forEach((store) => {
+    const metadata = input.storeMetadata[store.storeId];
+    const isSubject = store.storeId === subjectStore?.storeId;
+    const row = sheet.addRow([
+      storeName(input, store.storeId),
+      isSubject ? 'Subject' : 'Competitor',
+      store.address,
+      store.city,
+      store.state,
+      isSubject ? 0 : store.distance ?? null,
+      metadata?.yearBuilt ?? null,
+      metadata?.squareFootage ?? null,
+      input.rateRecords.filter((record) => record.storeId === store.storeId).length,
+      fieldProvenance(metadata, 'yearBuilt'),
+      fieldProvenance(metadata, 'squareFootage'),
+    ]);
+    row.getCell(6).numFmt = DISTANCE;
+    row.getCell(8).numFmt = INTEGER;
+    row.getCell(9).numFmt = INTEGER;
+    if (isSubject) row.font = { bold: true };
+  });
+}
+
+function addGroupSheet(sheet: Worksheet, group: GroupedData) {
+  const periodHeaders = TRAILING_PERIODS.flatMap(({ label }) => [
+    `${label} Asking`,
+    `${label} Asking (Adj)`,
+    `${label} In-Store`,
+  ]);
+  sheet.columns = [
+    { width: 34 }, { width: 12 }, { width: 11 }, { width: 11 }, { width: 11 }, { width: 18 },
+    ...periodHeaders.map(() => ({ width: 13 })),
+    { width: 10 },
+  ];
+
+  sheet.addRow(['Store', 'Distance', 'Year Built', 'Net RSF', 'Adjustment', 'Override', ...periodHeaders, 'Records']);
+  styleHeader(sheet, 1);
+  sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+
+  const periodValues = (values: GroupedData['averages']) =>
+    TRAILING_PERIODS.flatMap(({ key }) => [
+      values[`${key}Asking`],
+      values[`${key}AskingAdj`],
+      values[`${key}InStore`],
+    ]);
+
+  group.stores.forEach((store) => {
+    const row = sheet.addRow([
+      store.storeName,
+      store.distance,
+      store.yearBuilt,
+      store.squareFootage,
+      store.adjustment,
+      store.adjustmentOverride,
+      ...periodValues(store),
+      store.recordCount,
+    ]);
+    if (store.isSubject) row.font = { bold: true };
+  });
+
+  const average = sheet.addRow(['Market Average', null, null, null, null, null, ...periodValues(group.averages), null]);
+  average.font = { bold: true };
+  average.border = { top: { style: 'thin' } };
+  group.bandAverages.forEach(({ band, storeCount, averages }) => {
+    sheet.addRow([`${band.label} (${storeCount} competitors)`, null, null, null, null, null, ...periodValues(averages), null]);
+  });
+  sheet.addRow([]);
+  sheet.addRow(['Market Share', group.marketShare / 100]).getCell(2).numFmt = PERCENT;
+
+  sheet.getColumn(2).numFmt = DISTANCE;
+  sheet.getColumn(4).numFmt = INTEGER;
+  sheet.getColumn(5).numFmt = PERCENT;
+  periodHeaders.forEach((_, i) => {
+    sheet.getColumn(7 + i).numFmt = CURRENCY;
+  });
+  sheet.getColumn(7 + periodHeaders.length).numFmt = INTEGER;
+}
+
+function addRawSheet(sheet: Worksheet, input: RateGridInput) {
+  const columns: { header: string; width: number; numFmt?: string }[] = [
+    { header: 'Store ID', width: 10 },
+    { header: 'Store Name', width: 34 },
+    { header: 'Address', width: 30 },
+    { header: 'City', width: 16 },
+    { header: 'State', width: 7 },
+    { header: 'ZIP', width: 8 },
+    { header: 'Unit Type', width: 16 },
+    { header: 'Size', width: 9 },
+    { header: 'Feature Code', width: 12 },
+    { header: 'Features', width: 30 },
+    { header: 'Climate Controlled', width: 10 },
+    { header: 'Drive Up', width: 9 },
+    { header: 'Walk-In Price', width: 13, numFmt: CURRENCY },
+    { header: 'Online Price', width: 13, numFmt: CURRENCY },
+    { header: 'Date', width: 12, numFmt: 'yyyy-mm-dd' },
+    { header: 'Promo', width: 30 },
+    { header: 'Source', width: 10 },
+  ];
+  sheet.columns = columns.map(({ header, width, numFmt }) => ({ header, width, style: numFmt ? { numFmt } : {} }));
+  styleHeader(sheet, 1);
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+
+  input.rateRecords.forEach((record) => {
+    const date = new Date(record.date);
+    sheet.addRow([
+      record.storeId,
+      input.customNames[record.storeId] || record.storeName,
+      record.address,
+      record.city,
+      record.state,
+      record.zip,
+      record.unitType,
+      record.size,
+      featureCodeForRecord(record, input.featureCodes),
+      record.features,
+      record.climateControlled ? 'Yes' : 'No',
+      record.driveUp ? 'Yes' : 'No',
+      record.walkInPrice ?? null,
+      record.onlinePrice ?? null,
+      Number.isNaN(date.getTime()) ? record.date : date,
+      record.promo,
+      record.source,
+    ]);
+  });
+}
+
+// Summary, one sheet per size × feature code group as on the Data Visualization step, then raw data
+export async function buildRcaWorkbook(
+  input: RateGridInput,
+  preset: AppliedAdjustmentPreset | null = null,
+): Promise<Blob> {
+  // exceljs is large; only load it when someone exports
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const used = new Set<string>();
+
+  addSummarySheet(workbook.addWorksheet(sheetName('Summary', used)), input, preset);
+  buildRateGrid(input).forEach((group) => {
+    addGroupSheet(workbook.addWorksheet(sheetName(`${group.size} ${group.featureCode}`, used)), group);
+  });
+  addRawSheet(workbook.addWorksheet(sheetName('Raw Data', used)), input);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,81 +1,122 @@
-import type { RCAWizardState } from '@/hooks/useRCAWizard';
-
-const STORAGE_KEY = 'rca-wizard-state';
-const STORAGE_VERSION = '1.0';
-
-interface StoredState {
-  version: string;
-  timestamp: number;
-  state: RCAWizardState;
-}
-
-// Save wizard state to localStorage
-export function saveWizardState(state: RCAWizardState): void {
-  try {
-    const storedState: StoredState = {
-      version: STORAGE_VERSION,
-      timestamp: Date.now(),
-      state,
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedState));
-  } catch (error) {
-    console.error('Failed to save wizard state:', error);
-  }
-}
-
-// Load wizard state from localStorage
-export function loadWizardState(): RCAWizardState | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-
-    const parsed: StoredState = JSON.parse(stored);
-    
-    // Check version compatibility
-    if (parsed.version !== STORAGE_VERSION) {
-      console.warn('Wizard state version mismatch, clearing storage');
-      clearWizardState();
-      return null;
-    }
-
-    // Check if state is too old (older than 7 days)
-    const sevenDaysInMs = 7 * 24 * 60 * 60 * 1000;
-    if (Date.now() - parsed.timestamp > sevenDaysInMs) {
-      console.warn('Wizard state expired, clearing storage');
-      clearWizardState();
-      return null;
-    }
-
-    return parsed.state;
-  } catch (error) {
-    console.error('Failed to load wizard state:', error);
-    return null;
-  }
-}
-
-// Clear wizard state from localStorage
-export function clearWizardState(): void {
-  try {
-    localStorage.removeItem(STORAGE_KEY);
-  } catch (error) {
-    console.error('Failed to clear wizard state:', error);
-  }
-}
-
-// Check if there's a saved state
-export function hasSavedState(): boolean {
-  return localStorage.getItem(STORAGE_KEY) !== null;
-}
-
-// Get the timestamp of the last saved state
-export function getLastSavedTimestamp(): number | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-    
-    const parsed: StoredState = JSON.parse(stored);
-    return parsed.timestamp;
-  } catch (error) {
-    return null;
-  }
-}
+import type { SavedAnalysis } from '@shared/api';
+import type { RCAWizardState } from '@/hooks/useRCAWizard';
+import { resolveAdjustmentModel } from '@shared/adjustments';
+import { DEFAULT_TRADE_AREA } from '@shared/tradeArea';
+
+const STORAGE_KEY = 'rca-wizard-state';
+const STORAGE_VERSION = '1.0';
+
+interface StoredState {
+  version: string;
+  timestamp: number;
+  state: RCAWizardState;
+}
+
+// Save wizard state to localStorage
+export function saveWizardState(state: RCAWizardState): void {
+  try {
+    const storedState: StoredState = {
+      version: STORAGE_VERSION,
+      timestamp: Date.now(),
+      state,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedState));
+  } catch (error) {
+    console.error('Failed to save wizard state:', error);
+  }
+}
+
+// Load wizard state from localStorage
+export function loadWizardState(): RCAWizardState | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed: StoredState = JSON.parse(stored);
+    
+    // Check version compatibility
+    if (parsed.version !== STORAGE_VERSION) {
+      console.warn('Wizard state version mismatch, clearing storage');
+      clearWizardState();
+      return null;
+    }
+
+    // Check if state is too old (older than 7 days)
+    const sevenDaysInMs = 7 * 24 * 60 * 60 * 1000;
+    if (Date.now() - parsed.timestamp > sevenDaysInMs) {
+      console.warn('Wizard state expired, clearing storage');
+      clearWizardState();
+      return null;
+    }
+
+    return withStateDefaults(parsed.state);
+  } catch (error) {
+    console.error('Failed to load wizard state:', error);
+    return null;
+  }
+}
+
+// Clear wizard state from localStorage
+export function clearWizardState(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear wizard state:', error);
+  }
+}
+
+// Check if there's a saved state
+export function hasSavedState(): boolean {
+  return localStorage.getItem(STORAGE_KEY) !== null;
+}
+
+// Get the timestamp of the last saved state
+export function getLastSavedTimestamp(): number | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    
+    const parsed: StoredState = JSON.parse(stored);
+    return parsed.timestamp;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Fill in state added after the analysis was saved
+function withStateDefaults(state: RCAWizardState): RCAWizardState {
+  return {
+    ...state,
+    adjustmentModel: resolveAdjustmentModel(state.adjustmentModel),
+    adjustmentPreset: state.adjustmentPreset ?? null,
+    tradeArea: state.tradeArea ?? DEFAULT_TRADE_AREA,
+    paidJobIds: state.paidJobIds ?? [],
+    rateCoverage: state.rateCoverage ?? null,
+    rateRecords: state.rateRecords ?? [],
+  };
+}
+
+// Fields that only make sense for the current browser session. Rate rows can
+// run past the 10mb request limit and are reloaded when the analysis is opened.
+const TRANSIENT_KEYS = ['isLoading', 'error', 'analysisId', 'analysisName', 'rateRecords'] as const;
+
+// Strip transient fields before sending the state to the server
+export function toPersistedState(state: RCAWizardState): Record<string, unknown> {
+  const persisted: Record<string, unknown> = { ...state };
+  TRANSIENT_KEYS.forEach((key) => delete persisted[key]);
+  return persisted;
+}
+
+// Make a server-side analysis the current local wizard state
+export function restoreSavedAnalysis(analysis: SavedAnalysis): RCAWizardState {
+  const state = {
+    ...withStateDefaults(analysis.state as unknown as RCAWizardState),
+    currentStep: analysis.currentStep,
+    analysisId: analysis.id,
+    analysisName: analysis.name,
+    isLoading: false,
+    error: null,
+  };
+  saveWizardState(state);
+  return state;
+}
@@ -2,11 +2,16 @@ import { Link } from 'react-router-dom';
 import { BarChart3, ArrowRight, Building2, Database, FileSpreadsheet, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SavedAnalyses } from '@/components/rca/SavedAnalyses';
+import { UserMenu } from '@/components/UserMenu';
 const Index = () => {
   return <div className="min-h-screen bg-background">
       {/* Hero Section */}
       <div className="relative overflow-hidden">
         <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-transparent" />
+        <div className="container mx-auto px-4 pt-4 relative flex justify-end">
+          <UserMenu />
+        </div>
         <div className="container mx-auto px-4 py-20 relative">
           <div className="max-w-3xl mx-auto text-center">
             <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary mb-6">
@@ -35,6 +40,13 @@ const Index = () => {
         </div>
       </div>
 
+      {/* Saved Analyses */}
+      <div className="container mx-auto px-4 pb-4">
+        <div className="max-w-6xl mx-auto">
+          <SavedAnalyses />
+        </div>
+      </div>
+
       {/* Features Grid */}
       <div className="container mx-auto px-4 py-16">
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { getAnalysis } from '@/lib/api';
+import { restoreSavedAnalysis } from '@/lib/wizardStorage';
+
+// Loads a saved analysis into the wizard and jumps to the step it was saved on
+export default function OpenAnalysisPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getAnalysis(Number(id))
+      .then((analysis) => {
+        if (cancelled) return;
+        const state = restoreSavedAnalysis(analysis);
+        navigate(`/rca/step/${state.currentStep}`, { replace: true });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to open analysis');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, navigate]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted">
+      <div className="text-center">
+        {error ? (
+          <>
+            <p className="mb-4 text-xl text-muted-foreground">{error}</p>
+            <a href="/" className="text-primary underline hover:text-primary/90">
+              Return to Home
+            </a>
+          </>
+        ) : (
+          <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
+        )}
+      </div>
+    </div>
+  );
+}
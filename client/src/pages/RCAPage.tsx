@@ -13,7 +13,7 @@ import { StepFeatureCodes } from "@/components/rca/StepFeatureCodes";
 import { StepDataVisualization } from "@/components/rca/StepDataVisualization";
 
 export default function RCAPage() {
-  const { state, actions } = useRCAWizard();
+  const { state, actions, activeJob } = useRCAWizard();
 
   const renderStep = () => {
     switch (state.currentStep) {
@@ -46,6 +46,9 @@ export default function RCAPage() {
           <StepCompetitors
             subjectStore={state.subjectStore!}
             competitors={state.competitors}
+            radius={state.searchCriteria.radius}
+            tradeArea={state.tradeArea}
+            onUpdateTradeArea={actions.updateTradeArea}
             onSelect={actions.selectStoresForAnalysis}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
@@ -61,6 +64,7 @@ export default function RCAPage() {
             onNext={actions.nextStep}
             onBack={actions.prevStep}
             onFetchMatches={actions.fetchSalesforceMatchesForStore}
+            onLink={actions.linkStoreIdentity}
           />
         );
       case 5:
@@ -79,6 +83,15 @@ export default function RCAPage() {
           <StepAdjustments
             factors={state.adjustmentFactors}
             onUpdate={actions.updateAdjustmentFactors}
+            model={state.adjustmentModel}
+            onUpdateModel={actions.updateAdjustmentModel}
+            preset={state.adjustmentPreset}
+            onApplyPreset={actions.applyAdjustmentPreset}
+            subjectStore={state.subjectStore}
+            selectedStores={state.selectedStores}
+            storeRankings={state.storeRankings}
+            customNames={state.customNames}
+            featureCodes={state.featureCodes}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
           />
@@ -100,6 +113,10 @@ export default function RCAPage() {
             selectedApiStores={state.apiStoreIds}
             onSetApiStores={actions.setApiStoreIds}
             onAnalyze={actions.analyzeGaps}
+            gapSettings={state.gapSettings}
+            gapFill={state.gapFill}
+            activeJob={activeJob}
+            onFetchMissing={actions.fetchMissingData}
             isLoading={state.isLoading}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
@@ -123,11 +140,14 @@ export default function RCAPage() {
             storeMetadata={state.storeMetadata}
             storeRankings={state.storeRankings}
             adjustmentFactors={state.adjustmentFactors}
+            adjustmentModel={state.adjustmentModel}
             rateRecords={state.rateRecords}
             customNames={state.customNames}
             featureCodes={state.featureCodes}
+            tradeArea={state.tradeArea}
             onExport={actions.exportCSV}
-            isLoading={state.isLoading}
+            onExportWorkbook={actions.exportWorkbook}
+            onDownloadReport={actions.downloadReport}
             onBack={actions.prevStep}
           />
         );
@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { ArrowLeft, Link2, Loader2, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { UserMenu } from '@/components/UserMenu';
+import { SalesforceMatchModal } from '@/components/rca/SalesforceMatchModal';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  deleteStoreIdentityLink,
+  getSalesforceMatches,
+  isForbiddenError,
+  listStoreIdentityLinks,
+  saveStoreIdentityLink,
+} from '@/lib/api';
+import { hasRole, parseSquareFootage, parseYearBuilt } from '@shared/api';
+import type { SalesforceMatch, StoreIdentityLink, StoreIdentityLinkInput } from '@shared/api';
+import { parseFacilityAttributes } from '@shared/facility';
+
+const LINKS_KEY = ['store-links'];
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Admin review of the Salesforce records analysts have confirmed for StorTrack stores
+export default function StoreLinksPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [verifying, setVerifying] = useState<StoreIdentityLink | null>(null);
+  const [matches, setMatches] = useState<SalesforceMatch[]>([]);
+  const [loadingStoreId, setLoadingStoreId] = useState<number | null>(null);
+
+  const isAdmin = !!user && hasRole(user.role, 'admin');
+
+  const { data: links = [], isLoading, error } = useQuery({
+    queryKey: LINKS_KEY,
+    queryFn: listStoreIdentityLinks,
+    enabled: isAdmin,
+  });
+
+  const onError = (err: Error) => {
+    if (!isForbiddenError(err)) toast.error(err.message);
+  };
+
+  const save = useMutation({
+    mutationFn: ({ storeId, link }: { storeId: number; link: StoreIdentityLinkInput }) =>
+      saveStoreIdentityLink(storeId, link),
+    onSuccess: (saved) => {
+      toast.success(`Updated the link for ${saved.storeName}`);
+      queryClient.invalidateQueries({ queryKey: LINKS_KEY });
+    },
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (storeId: number) => deleteStoreIdentityLink(storeId),
+    onSuccess: () => {
+      toast.success('Link removed; the store will be fuzzy matched again');
+      queryClient.invalidateQueries({ queryKey: LINKS_KEY });
+    },
+    onError,
+  });
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return links;
+    return links.filter((link) =>
+      [link.storeName, link.address, link.city, link.salesforceMatch?.Name, String(link.storeId)].some((value) =>
+        value?.toLowerCase().includes(term)
+      )
+    );
+  }, [links, search]);
+
+  const reverify = async (link: StoreIdentityLink) => {
+    setLoadingStoreId(link.storeId);
+    try {
+      setMatches(
+        await getSalesforceMatches({
+          street: link.address,
+          city: link.city,
+          state: link.state,
+          postalCode: link.zip,
+          storeName: link.storeName,
+        })
+      );
+    } catch (err) {
+      console.error('Failed to fetch Salesforce matches:', err);
+      setMatches([]);
+    } finally {
+      setLoadingStoreId(null);
+      setVerifying(link);
+    }
+  };
+
+  const saveDecision = (
+    link: StoreIdentityLink,
+    decision: Pick<StoreIdentityLinkInput, 'salesforceMatch' | 'yearBuilt' | 'squareFootage'>
+  ) => {
+    const { storeName, address, city, state, zip } = link;
+    // A newly chosen record brings its own facility attributes; a manual entry keeps the saved ones
+    const facility = decision.salesforceMatch ? parseFacilityAttributes(decision.salesforceMatch) : link.facility;
+    save.mutate({ storeId: link.storeId, link: { storeName, address, city, state, zip, ...decision, facility } });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+        <Link to="/">
+          <Button variant="ghost" size="sm" className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Home
+          </Button>
+        </Link>
+        <UserMenu />
+      </div>
+
+      <div className="container mx-auto px-4 pb-12">
+        <Card className="max-w-6xl mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="w-5 h-5" />
+              Store Identity Links
+            </CardTitle>
+            <CardDescription>
+              The Salesforce record confirmed for each StorTrack store. Analyses reuse these instead of fuzzy
+              matching, so correct a wrong link here once rather than in every analysis.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!isAdmin ? (
+              <p className="text-sm text-muted-foreground">Only admins can review store links.</p>
+            ) : (
+              <>
+                <div className="relative max-w-sm">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by store, address or Salesforce name"
+                    className="pl-9"
+                  />
+                </div>
+
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                  </div>
+                ) : error ? (
+                  <p className="text-sm text-destructive">{(error as Error).message}</p>
+                ) : visible.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-8 text-center">
+                    {links.length === 0
+                      ? 'No stores have been verified yet. Links are saved from the Metadata step.'
+                      : 'No links match your search.'}
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Store</TableHead>
+                        <TableHead>Salesforce Record</TableHead>
+                        <TableHead className="text-right">Year Built</TableHead>
+                        <TableHead className="text-right">NRSF</TableHead>
+                        <TableHead>Linked By</TableHead>
+                        <TableHead className="w-[1%]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visible.map((link) => (
+                        <TableRow key={link.storeId}>
+                          <TableCell>
+                            <div className="font-medium">{link.storeName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              ID {link.storeId} · {link.address}, {link.city}, {link.state} {link.zip}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {link.salesforceMatch ? (
+                              <>
+                                <div>{link.salesforceMatch.Name}</div>
+                                <div className="text-xs text-muted-foreground">{link.salesforceMatch.parsedAddress}</div>
+                              </>
+                            ) : (
+                              <Badge variant="secondary">No match · manual entry</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{link.yearBuilt ?? '—'}</TableCell>
+                          <TableCell className="text-right">{link.squareFootage?.toLocaleString() ?? '—'}</TableCell>
+                          <TableCell>
+                            <div>{link.linkedByName ?? 'Unknown'}</div>
+                            <div className="text-xs text-muted-foreground">{formatDate(link.updatedAt)}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => reverify(link)}
+                                disabled={loadingStoreId === link.storeId}
+                              >
+                                {loadingStoreId === link.storeId ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  'Re-verify'
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => remove.mutate(link.storeId)}
+                                disabled={remove.isPending}
+                                aria-label="Remove link"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {verifying && (
+        <SalesforceMatchModal
+          open={!!verifying}
+          onOpenChange={(open) => !open && setVerifying(null)}
+          store={verifying}
+          matches={matches}
+          onSelectMatch={(match) =>
+            match &&
+            saveDecision(verifying, {
+              salesforceMatch: match,
+              yearBuilt: parseYearBuilt(match.Year_Built__c),
+              squareFootage: parseSquareFootage(match.Net_RSF__c),
+            })
+          }
+          onManualEntry={(yearBuilt, squareFootage) =>
+            saveDecision(verifying, { salesforceMatch: null, yearBuilt, squareFootage })
+          }
+        />
+      )}
+    </div>
+  );
+}
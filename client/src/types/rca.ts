@@ -1,5 +1,23 @@
 // RCA Tool Type Definitions
 
+import type { DateRange, HistoricalFillStoreResult } from '@shared/api';
+
+// API records are defined once, next to the zod schemas the server validates against.
+export type { Store, StoreSearchResult, RateRecord, SalesforceMatch, DateRange } from '@shared/api';
+
+// Analysis inputs are shared with the server, which renders reports from them.
+export type {
+  StoreMetadata,
+  MetadataProvenance,
+  StoreRankings,
+  AdjustmentFactors,
+  AdjustmentModel,
+  AppliedAdjustmentPreset,
+  FeatureCode,
+  LatLng,
+  TradeArea,
+} from '@shared/rca';
+
 export interface SearchCriteria {
   streetAddress: string;
   country: string;
@@ -11,100 +29,24 @@ export interface SearchCriteria {
   radius: number;
 }
 
-export interface Store {
-  storeId: number;
-  masterId?: number;
-  storeName: string;
-  address: string;
-  city: string;
-  state: string;
-  zip: string;
-  phone?: string;
-  latitude?: number;
-  longitude?: number;
-  storeStatus?: number;
-  distance?: number;
-}
-
-export interface StoreMetadata {
-  yearBuilt: number | null;
-  squareFootage: number | null;
-  distance?: number;
-  salesforceMatch?: SalesforceMatch | null;
-}
-
-// Salesforce match from fuzzy matching (like RCA_template.py)
-export interface SalesforceMatch {
-  Name: string;
-  Year_Built__c: string | number | null;
-  Net_RSF__c: string | number | null;
-  ShippingAddress: string | null;
-  nameScore: number;
-  addressScore: number;
-  combinedScore: number;
-  parsedStoreName: string;
-  parsedAddress: string;
-}
-
-export interface StoreRankings {
-  Location: number;
-  Age: number;
-  Accessibility: number;
-  VPD: number;
-  'Visibility & Signage': number;
-  Brand: number;
-  Quality: number;
-  Size: number;
-}
-
-export interface AdjustmentFactors {
-  captiveMarketPremium: number;
-  lossToLease: number;
-  ccAdj: number;
-}
-
 export interface DateGap {
   storeId: number;
   storeName: string;
   missingDays: number;
   coveragePercent: number;
-  dateRanges: string[];
+  dateRanges: DateRange[];
   yearsNeeded: number[];
   estimatedCost: number;
 }
 
-export interface FeatureCode {
-  originalTag: string;
-  code: string;
-  count: number;
-}
-
-export interface RateRecord {
-  storeId: number;
-  storeName: string;
-  address: string;
-  city: string;
-  state: string;
-  zip: string;
-  distance?: number;
-  unitType: string;
-  size: string;
-  width?: number;
-  length?: number;
-  height?: number;
-  features: string;
-  tag: string;
-  climateControlled: boolean;
-  humidityControlled: boolean;
-  driveUp: boolean;
-  elevator: boolean;
-  outdoorAccess: boolean;
-  walkInPrice?: number;
-  onlinePrice?: number;
-  pctDifference?: number;
-  date: string;
-  promo: string;
-  source: 'Database' | 'API';
+// Outcome of the last paid fetch of missing data
+export interface GapFillResult {
+  fetchedAt: string;
+  stores: HistoricalFillStoreResult[];
+  recordsAdded: number;
+  duplicatesSkipped: number;
+  estimatedCost: number;
+  actualCost: number;
 }
 
 export interface WizardStep {
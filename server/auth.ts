@@ -0,0 +1,191 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  hasRole,
+  loginSchema,
+  registerSchema,
+  type AuthUser,
+  type UserRole,
+} from "@shared/api";
+import type { User } from "@shared/schema";
+import { HttpError, handle, sendError, validate } from "./http";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: AuthUser;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(":");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function toAuthUser(user: User): AuthUser {
+  return { id: user.id, username: user.username, email: user.email, role: user.role };
+}
+
+// The first account becomes the admin. Registration is open, so everyone after
+// starts as a viewer until an admin grants a role that can run paid lookups.
+async function roleForNewUser(): Promise<UserRole> {
+  return (await storage.listUsers()).length === 0 ? "admin" : "viewer";
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using an insecure development secret");
+  return "rca-dev-session-secret";
+}
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) =>
+    req.session.regenerate((err) => (err ? reject(err) : resolve())),
+  );
+}
+
+/**
+ * Rejects requests without a signed-in user and exposes the user as
+ * `req.user` for the route handlers behind it.
+ */
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  try {
+    const user = req.session.userId
+      ? await storage.getUser(req.session.userId)
+      : undefined;
+    if (!user) {
+      throw new HttpError(401, "Sign in required", "UNAUTHENTICATED");
+    }
+    req.user = toAuthUser(user);
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+};
+
+/**
+ * Rejects signed-in users below `role` with a 403. Must run after
+ * `requireAuth`.
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (req.user && hasRole(req.user.role, role)) {
+      next();
+      return;
+    }
+    sendError(
+      res,
+      new HttpError(403, `This action requires the ${role} role`, "FORBIDDEN", {
+        requiredRole: role,
+        role: req.user?.role,
+      }),
+    );
+  };
+}
+
+/** Session middleware plus the /api/auth routes; everything else under /api requires a user. */
+export function setupAuth(app: Express) {
+  const MemoryStore = createMemoryStore(session);
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: sessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+
+  app.post(
+    "/api/auth/register",
+    handle(async (req, res) => {
+      const { username, email, password } = validate(registerSchema, req.body, "registration");
+      if (await storage.getUserByUsername(username)) {
+        throw new HttpError(409, "Username is already taken", "USERNAME_TAKEN");
+      }
+      const user = await storage.createUser({
+        username,
+        email,
+        passwordHash: await hashPassword(password),
+        role: await roleForNewUser(),
+      });
+      await regenerateSession(req);
+      req.session.userId = user.id;
+      res.status(201);
+      return toAuthUser(user);
+    }),
+  );
+
+  app.post(
+    "/api/auth/login",
+    handle(async (req) => {
+      const { username, password } = validate(loginSchema, req.body, "login");
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        throw new HttpError(401, "Invalid username or password", "INVALID_CREDENTIALS");
+      }
+      await regenerateSession(req);
+      req.session.userId = user.id;
+      return toAuthUser(user);
+    }),
+  );
+
+  app.post(
+    "/api/auth/logout",
+    handle(
+      (req) =>
+        new Promise<null>((resolve, reject) =>
+          req.session.destroy((err) => (err ? reject(err) : resolve(null))),
+        ),
+    ),
+  );
+
+  // Returns null rather than 401 so the client can ask "who am I?" freely.
+  app.get(
+    "/api/auth/me",
+    handle(async (req) => {
+      const user = req.session.userId
+        ? await storage.getUser(req.session.userId)
+        : undefined;
+      return user ? toAuthUser(user) : null;
+    }),
+  );
+
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,199 @@
+import type { Response } from "express";
+import { and, arrayOverlaps, eq, gt, lte } from "drizzle-orm";
+import { apiCache } from "@shared/schema";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * How long each upstream action stays fresh. Store listings and competitor
+ * sets rarely change; rate queries that include today's data go stale fastest.
+ */
+export const CACHE_TTLS = {
+  storeSearch: 24 * HOUR,
+  storeInfo: 24 * HOUR,
+  competitors: 24 * HOUR,
+  historicalRates: 12 * HOUR,
+  trailingRates: HOUR,
+  latestRates: 15 * MINUTE,
+  salesforceMatches: 6 * HOUR,
+} as const;
+
+export type CacheAction = keyof typeof CACHE_TTLS;
+
+export type CacheStatus = "HIT" | "MISS";
+
+interface Entry {
+  value: unknown;
+  storeIds: number[];
+  expiresAt: number;
+}
+
+const MAX_MEMORY_ENTRIES = 500;
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry first for eviction.
+const memory = new Map<string, Entry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+const persistent = !!process.env.DATABASE_URL && process.env.CACHE_PERSIST !== "false";
+
+async function db() {
+  const { db } = await import("./db");
+  return db;
+}
+
+function cacheKey(action: CacheAction, params: unknown): string {
+  return `${action}:${stableStringify(params)}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function remember(key: string, entry: Entry) {
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+async function readThrough(key: string): Promise<Entry | undefined> {
+  const hit = memory.get(key);
+  if (hit && hit.expiresAt > Date.now()) {
+    remember(key, hit);
+    return hit;
+  }
+  memory.delete(key);
+  if (!persistent) return undefined;
+
+  try {
+    const [row] = await (await db())
+      .select()
+      .from(apiCache)
+      .where(and(eq(apiCache.key, key), gt(apiCache.expiresAt, new Date())));
+    if (!row) return undefined;
+    const entry = { value: row.value, storeIds: row.storeIds, expiresAt: row.expiresAt.getTime() };
+    remember(key, entry);
+    return entry;
+  } catch (error) {
+    // The cache must never take a request down; fall back to the upstream call.
+    console.error("Cache read failed:", error);
+    return undefined;
+  }
+}
+
+async function write(key: string, action: CacheAction, entry: Entry) {
+  remember(key, entry);
+  if (!persistent) return;
+
+  try {
+    const row = {
+      key,
+      action,
+      value: entry.value,
+      storeIds: entry.storeIds,
+      expiresAt: new Date(entry.expiresAt),
+    };
+    await (await db())
+      .insert(apiCache)
+      .values(row)
+      .onConflictDoUpdate({ target: apiCache.key, set: row });
+  } catch (error) {
+    console.error("Cache write failed:", error);
+  }
+}
+
+/**
+ * Returns the cached result for `action` + `params`, or runs `load` and caches
+ * it. `storeIds` tags the entry (given the loaded value) so it can be purged
+ * per store. Concurrent misses for the same key share one upstream call.
+ */
+export async function cached<T>(
+  action: CacheAction,
+  params: unknown,
+  storeIds: (value: T) => number[],
+  load: () => Promise<T>,
+): Promise<{ value: T; status: CacheStatus }> {
+  const key = cacheKey(action, params);
+
+  const hit = await readThrough(key);
+  if (hit) return { value: hit.value as T, status: "HIT" };
+
+  let pending = inFlight.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = load()
+      .then(async (value) => {
+        await write(key, action, {
+          value,
+          storeIds: storeIds(value),
+          expiresAt: Date.now() + CACHE_TTLS[action],
+        });
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+
+  return { value: await pending, status: "MISS" };
+}
+
+/** `cached`, plus an `X-Cache: HIT|MISS` header on the response. */
+export async function cachedResponse<T>(
+  res: Response,
+  action: CacheAction,
+  params: unknown,
+  storeIds: (value: T) => number[],
+  load: () => Promise<T>,
+): Promise<T> {
+  const { value, status } = await cached(action, params, storeIds, load);
+  res.set("X-Cache", status);
+  return value;
+}
+
+/** Drops every entry tagged with `storeId`, or everything when omitted. */
+export async function purgeCache(
+  storeId?: number,
+): Promise<{ memory: number; database: number }> {
+  let memoryPurged = 0;
+  for (const [key, entry] of Array.from(memory)) {
+    if (storeId === undefined || entry.storeIds.includes(storeId)) {
+      memory.delete(key);
+      memoryPurged++;
+    }
+  }
+
+  let databasePurged = 0;
+  if (persistent) {
+    const deleted = await (await db())
+      .delete(apiCache)
+      .where(storeId === undefined ? undefined : arrayOverlaps(apiCache.storeIds, [storeId]))
+      .returning({ key: apiCache.key });
+    databasePurged = deleted.length;
+  }
+
+  return { memory: memoryPurged, database: databasePurged };
+}
+
+/**
+ * Hourly removal of expired rows from the persistent tier; memory entries are
+ * dropped when read after expiry or evicted by size.
+ */
+export function scheduleCachePruning() {
+  if (!persistent) return;
+  setInterval(async () => {
+    try {
+      await (await db()).delete(apiCache).where(lte(apiCache.expiresAt, new Date()));
+    } catch (error) {
+      console.error("Cache prune failed:", error);
+    }
+  }, HOUR).unref();
+}
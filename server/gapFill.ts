@@ -0,0 +1,108 @@
+import {
+  collectionCadenceSchema,
+  historicalPriceTableSchema,
+  type GapSettings,
+  type HistoricalFillRequest,
+  type HistoricalFillResponse,
+  type HistoricalFillStoreResult,
+  type RateRecord,
+} from "@shared/api";
+import { DEFAULT_GAP_SETTINGS, historicalFetchCost } from "@shared/gaps";
+import { cached } from "./cache";
+import { fetchHistoricalData } from "./stortrack";
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// GAP_COLLECTION_CADENCE and STORTRACK_PRICE_TABLE (JSON) override the defaults;
+// invalid values are reported once at startup and ignored.
+function loadGapSettings(): GapSettings {
+  const settings = { ...DEFAULT_GAP_SETTINGS };
+
+  if (process.env.GAP_COLLECTION_CADENCE) {
+    const cadence = collectionCadenceSchema.safeParse(process.env.GAP_COLLECTION_CADENCE);
+    if (cadence.success) settings.cadence = cadence.data;
+    else console.warn("Ignoring invalid GAP_COLLECTION_CADENCE:", process.env.GAP_COLLECTION_CADENCE);
+  }
+
+  if (process.env.STORTRACK_PRICE_TABLE) {
+    const priceTable = historicalPriceTableSchema.safeParse(
+      parseJson(process.env.STORTRACK_PRICE_TABLE),
+    );
+    if (priceTable.success) settings.priceTable = priceTable.data;
+    else console.warn("Ignoring invalid STORTRACK_PRICE_TABLE:", priceTable.error.issues);
+  }
+
+  return settings;
+}
+
+/** Collection cadence and StorTrack prices used for gap analysis and billing. */
+export const gapSettings = loadGapSettings();
+
+/** Progress callbacks for long fills; see server/jobs.ts. */
+export interface FillProgressHandlers {
+  onStoreStart?(storeId: number): void;
+  onRangeDone?(storeId: number, recordCount: number): void;
+  onRetry?(storeId: number, reason: string): void;
+  onStoreDone?(result: HistoricalFillStoreResult): void;
+}
+
+/**
+ * Pulls only the requested missing ranges from the paid StorTrack historical
+ * endpoint. Stores run one at a time to stay under the rate limit; a failing
+ * store is reported and skipped rather than failing the whole fill.
+ */
+export async function fillHistoricalGaps(
+  request: HistoricalFillRequest,
+  handlers: FillProgressHandlers = {},
+): Promise<HistoricalFillResponse> {
+  const records: RateRecord[] = [];
+  const stores: HistoricalFillStoreResult[] = [];
+
+  for (const { storeId, ranges } of request.stores) {
+    const billed: typeof ranges = [];
+    let recordCount = 0;
+    let error: string | null = null;
+    handlers.onStoreStart?.(storeId);
+
+    for (const range of ranges) {
+      const query = { storeId, from: range.from, to: range.to };
+      try {
+        const { value, status } = await cached("historicalRates", query, () => [storeId], () =>
+          fetchHistoricalData(query, {
+            onRetry: (_attempt, reason) => handlers.onRetry?.(storeId, reason),
+          }),
+        );
+        if (status === "MISS") billed.push(range);
+        records.push(...value);
+        recordCount += value.length;
+        handlers.onRangeDone?.(storeId, value.length);
+      } catch (err) {
+        console.error(`Historical fill failed for store ${storeId}:`, err);
+        error = err instanceof Error ? err.message : "Historical fetch failed";
+        break;
+      }
+    }
+
+    const result = {
+      storeId,
+      ranges,
+      recordCount,
+      cost: historicalFetchCost(billed, gapSettings.priceTable),
+      error,
+    };
+    stores.push(result);
+    handlers.onStoreDone?.(result);
+  }
+
+  return {
+    records,
+    stores,
+    actualCost: stores.reduce((sum, store) => sum + store.cost, 0),
+  };
+}
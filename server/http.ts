@@ -0,0 +1,82 @@
+import type { Request, Response, RequestHandler } from "express";
+import { ZodError, type ZodType, type ZodTypeDef } from "zod";
+import type { ApiFailure } from "@shared/api";
+
+/**
+ * Error with an HTTP status and a machine-readable code. Route handlers throw
+ * these; `handle` turns them into the `{ success: false, ... }` envelope.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code = "ERROR",
+    readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function validate<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  input: unknown,
+  what = "request",
+): T {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new HttpError(400, `Invalid ${what}`, "VALIDATION_ERROR", {
+      issues: formatIssues(result.error),
+    });
+  }
+  return result.data;
+}
+
+function formatIssues(error: ZodError) {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+export function sendError(res: Response, error: unknown) {
+  if (error instanceof HttpError) {
+    const body: ApiFailure = {
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: error.details,
+    };
+    res.status(error.status).json(body);
+    return;
+  }
+
+  console.error("API error:", error);
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const body: ApiFailure = { success: false, error: message };
+  res.status(500).json(body);
+}
+
+/**
+ * Wraps a handler so its return value is sent as `{ success: true, data }`.
+ * When a response schema is given the payload is checked against it first,
+ * which keeps the server honest about the contract in `shared/api.ts`.
+ */
+export function handle<T>(
+  fn: (req: Request, res: Response) => Promise<T>,
+  responseSchema?: ZodType<T, ZodTypeDef, unknown>,
+): RequestHandler {
+  return async (req, res) => {
+    try {
+      const data = await fn(req, res);
+      if (res.headersSent) return;
+      const payload = responseSchema ? responseSchema.parse(data) : data;
+      res.json({ success: true, data: payload });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        console.error("Response failed schema validation:", formatIssues(error));
+      }
+      sendError(res, error);
+    }
+  };
+}
@@ -5,7 +5,9 @@ import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+// Saved analysis state (metadata, Salesforce matches and rankings per store) can
+// outgrow the 100kb default; rate rows are no longer part of it.
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.get("/api/health", (_req, res) => {
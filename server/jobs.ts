@@ -0,0 +1,162 @@
+import {
+  isJobFinished,
+  type BackgroundJob,
+  type HistoricalFillRequest,
+  type JobStoreProgress,
+} from "@shared/api";
+import type { Job, JobUpdate } from "@shared/schema";
+import { fillHistoricalGaps } from "./gapFill";
+import { storage } from "./storage";
+
+type JobListener = (job: BackgroundJob) => void;
+
+// Jobs run one at a time in this process: StorTrack rate-limits per account,
+// so parallel pulls would only trade places in its queue.
+const queue: number[] = [];
+let draining = false;
+
+const listeners = new Map<number, Set<JobListener>>();
+
+export function toBackgroundJob(job: Job): BackgroundJob {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    result: job.result ?? null,
+    error: job.error ?? null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+/** Calls `listener` with every update to job `id` until unsubscribed. */
+export function subscribeToJob(id: number, listener: JobListener): () => void {
+  let set = listeners.get(id);
+  if (!set) {
+    set = new Set();
+    listeners.set(id, set);
+  }
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(id);
+  };
+}
+
+function publish(job: Job) {
+  const snapshot = toBackgroundJob(job);
+  listeners.get(job.id)?.forEach((listener) => listener(snapshot));
+}
+
+async function update(id: number, changes: JobUpdate) {
+  const job = await storage.updateJob(id, changes);
+  if (job) publish(job);
+}
+
+export async function enqueueHistoricalFill(
+  request: HistoricalFillRequest,
+  ownerId: number,
+): Promise<BackgroundJob> {
+  const progress: JobStoreProgress[] = request.stores.map(({ storeId, ranges }) => ({
+    storeId,
+    status: "pending",
+    completedRanges: 0,
+    totalRanges: ranges.length,
+    recordCount: 0,
+    retries: 0,
+    error: null,
+  }));
+  const job = await storage.createJob({ type: "historicalFill", ownerId, request, progress });
+  queue.push(job.id);
+  void drain();
+  return toBackgroundJob(job);
+}
+
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      // A job whose failure cannot even be recorded (say the database is down)
+      // must not take the process or the jobs queued behind it down with it
+      try {
+        await run(id);
+      } catch (error) {
+        console.error(`Job ${id} could not be run:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+async function run(id: number) {
+  const job = await storage.getJob(id);
+  if (!job || isJobFinished(job.status)) return;
+
+  const progress = job.progress.map((store) => ({ ...store }));
+  const storeProgress = (storeId: number) => progress.find((store) => store.storeId === storeId)!;
+
+  // Progress callbacks fire synchronously from the fill; chain the writes so
+  // they land (and reach subscribers) in order. A write that fails is logged
+  // and the fill carries on, so the chain never holds an unhandled rejection.
+  const logged = (write: Promise<unknown>) =>
+    write.catch((error) => console.error(`Job ${id} could not record progress:`, error));
+  let writes = logged(update(id, { status: "running", progress }));
+  const save = () => {
+    const snapshot = progress.map((store) => ({ ...store }));
+    writes = writes.then(() => logged(update(id, { progress: snapshot })));
+  };
+
+  try {
+    const result = await fillHistoricalGaps(job.request, {
+      onStoreStart: (storeId) => {
+        storeProgress(storeId).status = "running";
+        save();
+      },
+      onRangeDone: (storeId, recordCount) => {
+        const store = storeProgress(storeId);
+        store.status = "running";
+        store.completedRanges++;
+        store.recordCount += recordCount;
+        save();
+      },
+      onRetry: (storeId) => {
+        const store = storeProgress(storeId);
+        store.status = "retrying";
+        store.retries++;
+        save();
+      },
+      onStoreDone: ({ storeId, error }) => {
+        const store = storeProgress(storeId);
+        store.status = error ? "failed" : "done";
+        store.error = error;
+        save();
+      },
+    });
+    await writes;
+    await update(id, { status: "succeeded", result });
+  } catch (error) {
+    console.error(`Job ${id} failed:`, error);
+    await writes;
+    await update(id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Job failed",
+    });
+  }
+}
+
+/**
+ * Jobs only run in the process that queued them, so any left unfinished by a
+ * previous process are marked failed at startup.
+ */
+export async function failInterruptedJobs() {
+  try {
+    const failed = await storage.failUnfinishedJobs("Interrupted by a server restart");
+    if (failed > 0) console.warn(`Marked ${failed} interrupted job(s) as failed`);
+  } catch (error) {
+    console.error("Failed to clean up interrupted jobs:", error);
+  }
+}
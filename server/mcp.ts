@@ -0,0 +1,376 @@
+import type {
+  RateRecord,
+  Store,
+  TrailingRatesQuery,
+  LatestRatesQuery,
+} from "@shared/api";
+import {
+  sql,
+  joinSql,
+  identifier,
+  assertDatabase,
+  assertTable,
+  assertColumn,
+  toInteger,
+  toFilterValue,
+  toStoreId,
+  formatDate,
+  type SqlFragment,
+} from "./sql";
+import { parseFacilityValues } from "@shared/facility";
+
+const MCP_BASE_URL = "https://mcp.wwgmcpserver.com";
+const MCP_API_KEY = process.env.WWG_MCP_API_KEY || "";
+
+type Row = Record<string, unknown>;
+
+export async function universalQuery(
+  database: string,
+  query: SqlFragment,
+): Promise<Row[]> {
+  const url = `${MCP_BASE_URL}/query/universal`;
+
+  const body = {
+    database: assertDatabase(database),
+    query: query.text,
+  };
+
+  console.log(`MCP Universal Query: ${url}`, JSON.stringify(body));
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "X-API-Key": MCP_API_KEY,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`MCP API Error: ${response.status} - ${errorText}`);
+    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
+  }
+
+  const jsonResponse = await response.json();
+  console.log(`MCP Universal Query response keys:`, Object.keys(jsonResponse));
+
+  if (jsonResponse.results && Array.isArray(jsonResponse.results)) {
+    console.log(`MCP response has ${jsonResponse.results.length} results`);
+    return jsonResponse.results;
+  }
+
+  if (Array.isArray(jsonResponse)) {
+    return jsonResponse;
+  } else if (jsonResponse.data && Array.isArray(jsonResponse.data)) {
+    return jsonResponse.data;
+  }
+
+  return jsonResponse;
+}
+
+async function mcpRequest(endpoint: string, params?: Record<string, string>) {
+  const url = new URL(`${MCP_BASE_URL}${endpoint}`);
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, value);
+      }
+    });
+  }
+
+  console.log(`MCP Request: ${url.toString()}`);
+
+  const response = await fetch(url.toString(), {
+    method: "GET",
+    headers: {
+      "X-API-Key": MCP_API_KEY,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`MCP API Error: ${response.status} - ${errorText}`);
+    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+export async function healthCheck() {
+  const response = await fetch(`${MCP_BASE_URL}/health`);
+  return { healthy: response.ok, status: response.status };
+}
+
+export async function getDatabases() {
+  return await mcpRequest("/databases");
+}
+
+export async function getSites(params?: { state?: string; city?: string }) {
+  return await mcpRequest("/sites", params as Record<string, string>);
+}
+
+export async function getStortrackData(
+  endpoint: string,
+  params?: Record<string, string>,
+) {
+  return await mcpRequest(`/stortrack${endpoint}`, params);
+}
+
+export async function queryDatabase(
+  database: unknown,
+  table: unknown,
+  filters?: Record<string, unknown>,
+  limit?: unknown,
+) {
+  const db = assertDatabase(database);
+  const tableName = assertTable(db, table);
+  const top = toInteger(limit ?? 1000, "limit", { min: 1, max: 1000 });
+
+  const conditions = Object.entries(filters || {}).map(([key, value]) => {
+    const column = identifier(assertColumn(db, tableName, key));
+    const filterValue = toFilterValue(key, value);
+    return filterValue === null
+      ? sql`${column} IS NULL`
+      : sql`${column} = ${filterValue}`;
+  });
+
+  const where =
+    conditions.length > 0
+      ? sql` WHERE ${joinSql(conditions, " AND ")}`
+      : sql``;
+
+  return await universalQuery(
+    db,
+    sql`SELECT TOP ${top} * FROM dbo.${identifier(tableName)}${where}`,
+  );
+}
+
+export async function getAnalytics(type: string) {
+  return await mcpRequest(`/analytics/${encodeURIComponent(type)}`);
+}
+
+export async function getStorEdgeData(
+  endpoint: string,
+  params?: Record<string, string>,
+) {
+  return await mcpRequest(`/storedge/${endpoint}`, params);
+}
+
+const RATE_COLUMNS = sql`
+  r.Store_ID,
+  s.Name as Store_Name,
+  s.Street_Address,
+  s.City,
+  s.State,
+  s.Zip,
+  r.Size,
+  r.Width,
+  r.Length,
+  r.Spacetype,
+  r.CC as Climate_Controlled,
+  r.Humidity_Controlled,
+  r.Drive_Up,
+  r.Elevator,
+  r.Outdoor_Access,
+  r.Regular_Rate,
+  r.Online_Rate,
+  r.Promo,
+  r.Date_Collected
+`;
+
+function str(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function num(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toRateRecord(row: Row): RateRecord {
+  const features: string[] = [];
+  if (row.Climate_Controlled) features.push("Climate Controlled");
+  if (row.Humidity_Controlled) features.push("Humidity Controlled");
+  if (row.Drive_Up) features.push("Drive Up");
+  if (row.Elevator) features.push("Elevator");
+  if (row.Outdoor_Access) features.push("Outdoor Access");
+
+  const walkInPrice = num(row.Regular_Rate);
+  const onlinePrice = num(row.Online_Rate);
+
+  return {
+    storeId: Number(row.Store_ID),
+    storeName: str(row.Store_Name),
+    address: str(row.Street_Address),
+    city: str(row.City),
+    state: str(row.State),
+    zip: str(row.Zip),
+    unitType: str(row.Spacetype) || "Standard",
+    size: str(row.Size),
+    width: num(row.Width),
+    length: num(row.Length),
+    features: features.join(", "),
+    tag: str(row.Spacetype) || "Standard",
+    climateControlled: !!row.Climate_Controlled,
+    humidityControlled: !!row.Humidity_Controlled,
+    driveUp: !!row.Drive_Up,
+    elevator: !!row.Elevator,
+    outdoorAccess: !!row.Outdoor_Access,
+    walkInPrice,
+    onlinePrice,
+    pctDifference:
+      walkInPrice && onlinePrice
+        ? ((walkInPrice - onlinePrice) / walkInPrice) * 100
+        : 0,
+    date: str(row.Date_Collected),
+    promo: str(row.Promo),
+    source: "Database",
+  };
+}
+
+/** Fills in the trailing year for missing dates, so equal ranges share a cache entry. */
+export function withTrailingYear(params: TrailingRatesQuery): TrailingRatesQuery {
+  return {
+    ...params,
+    fromDate: params.fromDate || formatDate(new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)),
+    toDate: params.toDate || formatDate(new Date()),
+  };
+}
+
+export async function getTrailing12MonthRates(params: TrailingRatesQuery) {
+  const storeIdList = params.storeIds.map(toStoreId);
+  const { fromDate, toDate } = withTrailingYear(params);
+
+  const rateSql = sql`
+    SELECT ${RATE_COLUMNS}
+    FROM dbo.Rates r
+    LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
+    WHERE r.Store_ID IN (${storeIdList})
+    AND r.Date_Collected >= ${fromDate}
+    AND r.Date_Collected <= ${toDate}
+    ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
+  `;
+
+  const rawResult = await universalQuery("Stortrack", rateSql);
+  // universalQuery already extracts the results array, so rawResult is the array directly
+  const rows = Array.isArray(rawResult) ? rawResult : [];
+  console.log(`getTrailing12MonthRates: Processing ${rows.length} rate records`);
+
+  const ratesByStore: Record<number, RateRecord[]> = {};
+  const datesByStore: Record<number, Set<string>> = {};
+
+  for (const row of rows) {
+    const record = toRateRecord(row);
+    const storeId = record.storeId;
+
+    if (!ratesByStore[storeId]) {
+      ratesByStore[storeId] = [];
+      datesByStore[storeId] = new Set();
+    }
+
+    ratesByStore[storeId].push(record);
+
+    if (record.date) {
+      datesByStore[storeId].add(record.date);
+    }
+  }
+
+  const datesByStoreArrays: Record<number, string[]> = {};
+  for (const [storeId, dates] of Object.entries(datesByStore)) {
+    datesByStoreArrays[Number(storeId)] = Array.from(dates).sort().reverse();
+  }
+
+  return { ratesByStore, datesByStore: datesByStoreArrays };
+}
+
+export async function getLatestRates(
+  params: LatestRatesQuery,
+): Promise<RateRecord[]> {
+  const storeIdList = params.storeIds.map(toStoreId);
+
+  const latestRateSql = sql`
+    SELECT ${RATE_COLUMNS}
+    FROM dbo.Rates r
+    LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
+    WHERE r.Store_ID IN (${storeIdList})
+    AND r.Date_Collected >= DATEADD(day, -${params.daysBack}, GETDATE())
+    ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
+  `;
+  const rows = await universalQuery("Stortrack", latestRateSql);
+  return (Array.isArray(rows) ? rows : []).map(toRateRecord);
+}
+
+const STORE_COLUMNS = [
+  "ID",
+  "Name",
+  "Street_Address",
+  "City",
+  "State",
+  "Zip",
+  "Country",
+  "Phone",
+  "Latitude",
+  "Longitude",
+];
+// Assumed names, not yet confirmed against dbo.Stores. If any is missing, the
+// lookup falls back to STORE_COLUMNS and the stores come back without facility
+// attributes; the miss is remembered until restart so later lookups skip them.
+const STORE_FACILITY_COLUMNS = [
+  "Unit_Count",
+  "Stories",
+  "Climate_Controlled_Pct",
+  "Occupancy",
+  "Gate_Hours",
+  "Management_Type",
+];
+
+/** SQL Server's message when a selected column does not exist. */
+export function isMissingColumnError(error: unknown): boolean {
+  return error instanceof Error && /invalid column name/i.test(error.message);
+}
+
+function selectStores(storeIds: number[], columns: string[]): Promise<Row[]> {
+  return universalQuery(
+    "Stortrack",
+    sql`
+      SELECT ${joinSql(columns.map(identifier), ", ")}
+      FROM dbo.Stores
+      WHERE ID IN (${storeIds.map(toStoreId)})
+    `,
+  );
+}
+
+let storeFacilityColumnsMissing = false;
+
+export async function getStoreInfo(storeIds: number[]): Promise<Store[]> {
+  const columns = storeFacilityColumnsMissing ? STORE_COLUMNS : [...STORE_COLUMNS, ...STORE_FACILITY_COLUMNS];
+  const rows = await selectStores(storeIds, columns).catch((error) => {
+    if (storeFacilityColumnsMissing || !isMissingColumnError(error)) throw error;
+    storeFacilityColumnsMissing = true;
+    console.warn("dbo.Stores lacks the facility columns; store info will be loaded without them:", error);
+    return selectStores(storeIds, STORE_COLUMNS);
+  });
+
+  return (Array.isArray(rows) ? rows : []).map((row) => ({
+    storeId: Number(row.ID),
+    storeName: str(row.Name),
+    address: str(row.Street_Address),
+    city: str(row.City),
+    state: str(row.State),
+    zip: str(row.Zip),
+    phone: row.Phone ? str(row.Phone) : null,
+    latitude: num(row.Latitude),
+    longitude: num(row.Longitude),
+    facility: parseFacilityValues({
+      unitCount: row.Unit_Count,
+      stories: row.Stories,
+      climateControlledPercent: row.Climate_Controlled_Pct,
+      occupancyPercent: row.Occupancy,
+      gateHours: row.Gate_Hours,
+      managementType: row.Management_Type,
+    }),
+  }));
+}
@@ -0,0 +1,552 @@
+import PDFDocument from "pdfkit";
+import { z } from "zod";
+import {
+  adjustmentOverrideSchema,
+  metadataProvenanceSchema,
+  storeSchema,
+  tradeAreaSchema,
+  type RateRecord,
+} from "@shared/api";
+import type { Analysis } from "@shared/schema";
+import { RANKING_CATEGORIES, type AppliedAdjustmentPreset } from "@shared/rca";
+import {
+  DEFAULT_UNIT_SIZES,
+  SIZE_BUCKET_LABELS,
+  TRAILING_PERIODS,
+  buildRateGrid,
+  type GroupedAverages,
+  type GroupedData,
+  type RateGridInput,
+} from "@shared/rateGrid";
+import {
+  describeAdjustmentPreset,
+  explainAdjustment,
+  resolveAdjustmentModel,
+  totalAdjustment,
+} from "@shared/adjustments";
+import { describeTradeArea } from "@shared/tradeArea";
+import { provenanceLabel } from "@shared/provenance";
+import { HttpError, validate } from "./http";
+
+// The printed Rate Comparison Analysis deliverable, rendered from a saved
+// analysis with the same grid the Data Visualization step shows.
+
+const BRAND_NAME = process.env.REPORT_BRAND_NAME || "RCA Tool";
+const BRAND_COLOR = "#1F3A5F";
+const MUTED_COLOR = "#6B7280";
+const SHADE_COLOR = "#EEF2F7";
+
+const MARGIN = 36;
+const ROW_HEIGHT = 16;
+const FONT = "Helvetica";
+const BOLD_FONT = "Helvetica-Bold";
+
+// The slice of the wizard state a report needs. Saved state is whatever the
+// client persisted, so check it rather than trusting it.
+const reportStateSchema = z.object({
+  subjectStore: storeSchema.nullable().default(null),
+  selectedStores: z.array(storeSchema).default([]),
+  storeMetadata: z
+    .record(
+      z.object({
+        yearBuilt: z.number().nullable().default(null),
+        squareFootage: z.number().nullable().default(null),
+        provenance: z
+          .object({
+            yearBuilt: metadataProvenanceSchema.optional(),
+            squareFootage: metadataProvenanceSchema.optional(),
+          })
+          .optional(),
+      }),
+    )
+    .default({}),
+  storeRankings: z.record(z.record(z.number())).default({}),
+  adjustmentFactors: z
+    .object({
+      captiveMarketPremium: z.number().default(0),
+      lossToLease: z.number().default(0),
+      ccAdj: z.number().default(0),
+    })
+    .default({}),
+  // Missing categories and settings fall back to the default model
+  adjustmentModel: z
+    .object({
+      weights: z.record(z.number().min(0)).default({}),
+      pointPercent: z.number().optional(),
+      floorPercent: z.number().nullable().optional(),
+      capPercent: z.number().nullable().optional(),
+      overrides: z.array(adjustmentOverrideSchema).default([]),
+    })
+    .default({}),
+  adjustmentPreset: z
+    .object({ id: z.number(), name: z.string(), version: z.number(), modified: z.boolean().default(false) })
+    .nullable()
+    .default(null),
+  tradeArea: tradeAreaSchema.default({ kind: "radius" }),
+  customNames: z.record(z.string()).default({}),
+  featureCodes: z
+    .array(z.object({ originalTag: z.string(), code: z.string(), count: z.number() }))
+    .default([]),
+});
+
+// Without strictNullChecks zod infers every key as optional; the defaults
+// above fill them in. Rankings may still lack categories nobody scored,
+// which storeAdjustment treats as the midpoint.
+type ReportState = Omit<RateGridInput, "selectedSizes" | "rateRecords"> & { adjustmentPreset: AppliedAdjustmentPreset | null };
+
+interface Column {
+  header: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+interface Row {
+  cells: string[];
+  bold?: boolean;
+  shaded?: boolean;
+}
+
+type Doc = PDFKit.PDFDocument;
+
+function money(value: number | null | undefined): string {
+  return value == null ? "—" : `$${value.toFixed(2)}`;
+}
+
+function percent(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function integer(value: number | null | undefined): string {
+  return value == null ? "—" : Math.round(value).toLocaleString("en-US");
+}
+
+function miles(value: number | null | undefined): string {
+  return value == null ? "—" : `${value.toFixed(2)} mi`;
+}
+
+function storeName(input: RateGridInput, storeId: number): string {
+  return (
+    input.customNames[storeId] ||
+    input.selectedStores.find((store) => store.storeId === storeId)?.storeName ||
+    `Store ${storeId}`
+  );
+}
+
+function bottomLimit(doc: Doc): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function sectionTitle(doc: Doc, title: string, subtitle?: string) {
+  if (doc.y + 60 > bottomLimit(doc)) doc.addPage();
+  doc.x = MARGIN;
+  doc.font(BOLD_FONT).fontSize(14).fillColor(BRAND_COLOR).text(title);
+  if (subtitle) {
+    doc.font(FONT).fontSize(9).fillColor(MUTED_COLOR).text(subtitle);
+  }
+  doc.moveDown(0.5);
+}
+
+// Fixed-height rows; the header repeats when a table runs onto a new page
+function drawTable(doc: Doc, columns: Column[], rows: Row[], headerHeight = ROW_HEIGHT) {
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  let y = doc.y;
+
+  const drawRow = (cells: string[], height: number, options: { header?: boolean; bold?: boolean; shaded?: boolean }) => {
+    if (options.header) {
+      doc.rect(MARGIN, y, tableWidth, height).fill(BRAND_COLOR);
+    } else if (options.shaded) {
+      doc.rect(MARGIN, y, tableWidth, height).fill(SHADE_COLOR);
+    }
+    doc
+      .font(options.header || options.bold ? BOLD_FONT : FONT)
+      .fontSize(7.5)
+      .fillColor(options.header ? "#FFFFFF" : "#111827");
+
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      doc.text(cells[i] ?? "", x + 3, y + 4, {
+        width: column.width - 6,
+        height: height - 4,
+        align: column.align ?? "left",
+        ellipsis: true,
+        lineBreak: options.header,
+      });
+      x += column.width;
+    });
+
+    y += height;
+    doc
+      .moveTo(MARGIN, y)
+      .lineTo(MARGIN + tableWidth, y)
+      .lineWidth(0.5)
+      .strokeColor("#D1D5DB")
+      .stroke();
+  };
+
+  const drawHeader = () => drawRow(columns.map((column) => column.header), headerHeight, { header: true });
+
+  drawHeader();
+  rows.forEach((row) => {
+    if (y + ROW_HEIGHT > bottomLimit(doc)) {
+      doc.addPage();
+      y = doc.y;
+      drawHeader();
+    }
+    drawRow(row.cells, ROW_HEIGHT, row);
+  });
+
+  doc.x = MARGIN;
+  doc.y = y + 12;
+}
+
+function addCoverPage(doc: Doc, analysis: Analysis, input: RateGridInput, preset: AppliedAdjustmentPreset | null) {
+  const { subjectStore } = input;
+  const width = doc.page.width - MARGIN * 2;
+
+  doc.rect(0, 0, doc.page.width, 120).fill(BRAND_COLOR);
+  doc.font(BOLD_FONT).fontSize(12).fillColor("#FFFFFF").text(BRAND_NAME.toUpperCase(), MARGIN, 40, { width });
+  doc.font(BOLD_FONT).fontSize(26).text("Rate Comparison Analysis", MARGIN, 62, { width });
+
+  doc.y = 170;
+  doc.font(BOLD_FONT).fontSize(20).fillColor("#111827").text(
+    subjectStore ? storeName(input, subjectStore.storeId) : analysis.name,
+    MARGIN,
+    doc.y,
+    { width },
+  );
+  if (subjectStore) {
+    doc
+      .font(FONT)
+      .fontSize(12)
+      .fillColor(MUTED_COLOR)
+      .text(`${subjectStore.address}, ${subjectStore.city}, ${subjectStore.state} ${subjectStore.zip}`, { width });
+  }
+  doc.moveDown(2);
+
+  const dates = input.rateRecords.map((record) => record.date.slice(0, 10)).sort();
+  const details: [string, string][] = [
+    ["Analysis", analysis.name],
+    ["Competitors", String(input.selectedStores.filter((s) => s.storeId !== subjectStore?.storeId).length)],
+    ["Rate records", integer(input.rateRecords.length)],
+    ["Rate data", dates.length > 0 ? `${dates[0]} to ${dates[dates.length - 1]}` : "None loaded"],
+    ["Unit sizes", input.selectedSizes.join(", ")],
+    ["Total adjustment", percent(totalAdjustment(input.adjustmentFactors))],
+    ["Adjustment preset", describeAdjustmentPreset(preset)],
+    ["Trade area", describeTradeArea(input.tradeArea)],
+    ["Generated", new Date().toISOString().slice(0, 10)],
+  ];
+  details.forEach(([label, value]) => {
+    const y = doc.y;
+    doc.font(BOLD_FONT).fontSize(11).fillColor("#111827").text(label, MARGIN, y, { width: 140 });
+    doc.font(FONT).text(value, MARGIN + 150, y, { width: width - 150 });
+    doc.moveDown(0.4);
+  });
+}
+
+function addCompetitorTable(doc: Doc, input: RateGridInput) {
+  sectionTitle(doc, "Competitive Set", "Subject store and selected competitors, nearest first");
+
+  const stores = [...input.selectedStores].sort((a, b) => {
+    if (a.storeId === input.subjectStore?.storeId) return -1;
+    if (b.storeId === input.subjectStore?.storeId) return 1;
+    return (a.distance ?? 0) - (b.distance ?? 0);
+  });
+
+  drawTable(
+    doc,
+    [
+      { header: "Store", width: 150 },
+      { header: "Role", width: 55 },
+      { header: "Address", width: 170 },
+      { header: "Distance", width: 50, align: "right" },
+      { header: "Year Built", width: 50, align: "right" },
+      { header: "Net RSF", width: 55, align: "right" },
+      { header: "Records", width: 45, align: "right" },
+      { header: "Year Source", width: 72 },
+      { header: "RSF Source", width: 72 },
+    ],
+    stores.map((store) => {
+      const isSubject = store.storeId === input.subjectStore?.storeId;
+      const metadata = input.storeMetadata[store.storeId];
+      return {
+        cells: [
+          storeName(input, store.storeId),
+          isSubject ? "Subject" : "Competitor",
+          `${store.address}, ${store.city}, ${store.state} ${store.zip}`,
+          isSubject ? "—" : miles(store.distance),
+          metadata?.yearBuilt ? String(metadata.yearBuilt) : "—",
+          integer(metadata?.squareFootage),
+          integer(input.rateRecords.filter((record) => record.storeId === store.storeId).length),
+          metadata?.yearBuilt ? provenanceLabel(metadata.provenance?.yearBuilt) : "—",
+          metadata?.squareFootage != null ? provenanceLabel(metadata.provenance?.squareFootage) : "—",
+        ],
+        bold: isSubject,
+      };
+    }),
+  );
+}
+
+function addRankingsMatrix(doc: Doc, input: RateGridInput) {
+  sectionTitle(doc, "Rankings", "1 (worst) to 10 (best) per category");
+
+  const rows = input.selectedStores.map((store) => {
+    const rankings = input.storeRankings[store.storeId];
+    const values = RANKING_CATEGORIES.map((category) => rankings?.[category]);
+    const scored = values.filter((value): value is number => typeof value === "number");
+    const average = scored.length > 0 ? scored.reduce((a, b) => a + b, 0) / scored.length : null;
+    return {
+      cells: [
+        storeName(input, store.storeId),
+        ...values.map((value) => (typeof value === "number" ? String(value) : "—")),
+        average == null ? "—" : average.toFixed(1),
+      ],
+      bold: store.storeId === input.subjectStore?.storeId,
+    };
+  });
+
+  drawTable(
+    doc,
+    [
+      { header: "Store", width: 170 },
+      ...RANKING_CATEGORIES.map((category) => ({ header: category, width: 60, align: "center" as const })),
+      { header: "Average", width: 60, align: "center" },
+    ],
+    rows,
+    26,
+  );
+}
+
+function signed(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function addAdjustments(doc: Doc, input: RateGridInput, preset: AppliedAdjustmentPreset | null) {
+  const factors = input.adjustmentFactors;
+  const model = input.adjustmentModel;
+
+  sectionTitle(
+    doc,
+    "Adjustment Methodology",
+    `Each competitor's asking rates are adjusted by the factors below plus ${model.pointPercent}% per point of ` +
+      "weighted average ranking difference from the subject store (subject minus competitor)",
+  );
+
+  drawTable(
+    doc,
+    [
+      { header: "Factor", width: 200 },
+      { header: "Value", width: 160, align: "right" },
+    ],
+    [
+      { cells: ["Preset", describeAdjustmentPreset(preset)] },
+      { cells: ["Captive Market Premium", percent(factors.captiveMarketPremium || 0)] },
+      { cells: ["Loss to Lease", percent(factors.lossToLease || 0)] },
+      { cells: ["CC Adjustment", percent(factors.ccAdj || 0)] },
+      { cells: ["Total Adjustment", percent(totalAdjustment(factors))], bold: true },
+      { cells: ["Per Ranking Point", percent(model.pointPercent)], shaded: true },
+      { cells: ["Floor", model.floorPercent === null ? "None" : percent(model.floorPercent)], shaded: true },
+      { cells: ["Cap", model.capPercent === null ? "None" : percent(model.capPercent)], shaded: true },
+    ],
+  );
+
+  drawTable(
+    doc,
+    RANKING_CATEGORIES.map((category) => ({ header: `${category} weight`, width: 80, align: "center" as const })),
+    [{ cells: RANKING_CATEGORIES.map((category) => String(model.weights[category])) }],
+    26,
+  );
+
+  if (model.overrides.length > 0) {
+    const factor = (value: number | undefined) => (typeof value === "number" ? percent(value) : "—");
+    sectionTitle(doc, "Adjustment Overrides", "Replace the factors above for matching rates; the first match applies");
+    drawTable(
+      doc,
+      [
+        { header: "Override", width: 180 },
+        { header: "Feature Codes", width: 140 },
+        { header: "Sizes", width: 140 },
+        { header: "Captive Market", width: 80, align: "right" },
+        { header: "Loss to Lease", width: 80, align: "right" },
+        { header: "CC Adj.", width: 70, align: "right" },
+      ],
+      model.overrides.map((override) => ({
+        cells: [
+          override.label || "Override",
+          override.featureCodes.join(", ") || "All",
+          override.sizeBuckets.map((bucket) => SIZE_BUCKET_LABELS[bucket]).join(", ") || "All",
+          factor(override.factors.captiveMarketPremium),
+          factor(override.factors.lossToLease),
+          factor(override.factors.ccAdj),
+        ],
+      })),
+    );
+  }
+
+  const competitors = input.selectedStores.filter((store) => store.storeId !== input.subjectStore?.storeId);
+  sectionTitle(doc, "Competitor Adjustments");
+  drawTable(
+    doc,
+    [
+      { header: "Store", width: 200 },
+      { header: "Factors", width: 70, align: "right" },
+      { header: "Rankings", width: 70, align: "right" },
+      { header: "Before Bounds", width: 80, align: "right" },
+      { header: "Applied", width: 70, align: "right" },
+      { header: "Note", width: 200 },
+    ],
+    competitors.map((store) => {
+      const breakdown = explainAdjustment(store.storeId, input);
+      const note =
+        breakdown.basis === "unranked"
+          ? "Not ranked; factors only"
+          : breakdown.bound === "cap"
+            ? "Limited by cap"
+            : breakdown.bound === "floor"
+              ? "Limited by floor"
+              : "";
+      return {
+        cells: [
+          storeName(input, store.storeId),
+          signed(breakdown.factorsPercent),
+          signed(breakdown.rankingPercent),
+          signed(breakdown.unboundedPercent),
+          signed(breakdown.percent),
+          note,
+        ],
+      };
+    }),
+  );
+}
+
+function periodCells(values: GroupedAverages): string[] {
+  return TRAILING_PERIODS.flatMap(({ key }) => [
+    money(values[`${key}Asking`]),
+    money(values[`${key}AskingAdj`]),
+    money(values[`${key}InStore`]),
+  ]);
+}
+
+function addRateGroup(doc: Doc, group: GroupedData) {
+  sectionTitle(doc, `${group.size} ${group.featureCode}`, `Market share ${percent(group.marketShare)} of rate records`);
+
+  drawTable(
+    doc,
+    [
+      { header: "Store", width: 146 },
+      { header: "Distance", width: 44, align: "right" },
+      { header: "Adj.", width: 38, align: "right" },
+      ...TRAILING_PERIODS.flatMap(({ label }) => [
+        { header: `${label} Asking`, width: 41, align: "right" as const },
+        { header: `${label} Adj.`, width: 41, align: "right" as const },
+        { header: `${label} In-Store`, width: 41, align: "right" as const },
+      ]),
+    ],
+    [
+      ...group.stores.map((store) => ({
+        cells: [
+          store.storeName,
+          store.isSubject ? "—" : miles(store.distance),
+          `${percent(store.adjustment * 100)}${store.adjustmentOverride ? "*" : ""}`,
+          ...periodCells(store),
+        ],
+        bold: store.isSubject,
+      })),
+      { cells: ["Market Average", "", "", ...periodCells(group.averages)], bold: true, shaded: true },
+      ...group.bandAverages.map(({ band, storeCount, averages }) => ({
+        cells: [`${band.label} (${storeCount})`, "", "", ...periodCells(averages)],
+        shaded: true,
+      })),
+    ],
+    26,
+  );
+
+  const overrides = [...new Set(group.stores.map((store) => store.adjustmentOverride).filter(Boolean))];
+  if (overrides.length > 0) {
+    doc
+      .font(FONT)
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(`* Adjusted with override: ${overrides.join(", ")}`, MARGIN, doc.y + 4)
+      .moveDown();
+  }
+}
+
+// Footer on every page; bufferPages lets us go back once the page count is known
+function addPageFooters(doc: Doc, analysis: Analysis) {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font(FONT)
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(`${BRAND_NAME} · ${analysis.name}`, MARGIN, doc.page.height - 24, {
+        width: doc.page.width - MARGIN * 2,
+        align: "left",
+        lineBreak: false,
+      })
+      .text(`Page ${i - start + 1} of ${count}`, MARGIN, doc.page.height - 24, {
+        width: doc.page.width - MARGIN * 2,
+        align: "right",
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+/**
+ * Renders a saved analysis as the PDF report: cover, competitive set,
+ * rankings, adjustments, then one T12/T6/T3/T1 table per size and feature code.
+ * Rate rows come separately since newer analyses are saved without them.
+ */
+export function renderAnalysisReport(
+  analysis: Analysis,
+  rateRecords: RateRecord[],
+  selectedSizes = DEFAULT_UNIT_SIZES,
+): Promise<Buffer> {
+  const state = validate(reportStateSchema, analysis.state, "analysis state") as ReportState;
+  if (!state.subjectStore) {
+    throw new HttpError(409, "Select a subject store before generating a report", "NO_SUBJECT_STORE");
+  }
+
+  const { adjustmentPreset, ...rest } = state;
+  const input: RateGridInput = {
+    ...rest,
+    rateRecords,
+    adjustmentModel: resolveAdjustmentModel(state.adjustmentModel),
+    selectedSizes,
+  };
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    layout: "landscape",
+    margin: MARGIN,
+    bufferPages: true,
+    info: { Title: `Rate Comparison Analysis - ${analysis.name}`, Author: BRAND_NAME },
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  addCoverPage(doc, analysis, input, adjustmentPreset);
+  doc.addPage();
+  addCompetitorTable(doc, input);
+  addRankingsMatrix(doc, input);
+  addAdjustments(doc, input, adjustmentPreset);
+
+  const groups = buildRateGrid(input);
+  doc.addPage();
+  if (groups.length === 0) {
+    sectionTitle(doc, "Rate Comparison", "No rate records match the selected unit sizes");
+  }
+  groups.forEach((group) => addRateGroup(doc, group));
+
+  addPageFooters(doc, analysis);
+  doc.end();
+  return done;
+}
@@ -1,807 +1,816 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-
-const STORTRACK_BASEURL = process.env.STORTRACK_BASEURL || "";
-const STORTRACK_USERNAME = process.env.STORTRACK_USERNAME || "";
-const STORTRACK_PASSWORD = process.env.STORTRACK_PASSWORD || "";
-const MCP_BASE_URL = "https://mcp.wwgmcpserver.com";
-const MCP_API_KEY = process.env.WWG_MCP_API_KEY || "";
-
-let cachedToken: string | null = null;
-let tokenExpiry: number = 0;
-
-async function getAuthToken(): Promise<string | null> {
-  if (cachedToken && Date.now() < tokenExpiry) {
-    return cachedToken;
-  }
-
-  const authUrl = `${STORTRACK_BASEURL.replace(/\/$/, "")}/authtoken`;
-
-  try {
-    const response = await fetch(authUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: new URLSearchParams({
-        grant_type: "password",
-        username: STORTRACK_USERNAME,
-        password: STORTRACK_PASSWORD,
-      }),
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      const token = data.access_token || data.token;
-      if (token) {
-        cachedToken = `Bearer ${token}`;
-        tokenExpiry = Date.now() + 55 * 60 * 1000;
-        return cachedToken;
-      }
-    }
-    console.error(
-      "Auth token fetch failed:",
-      response.status,
-      await response.text(),
-    );
-  } catch (error) {
-    console.error("Auth token exception:", error);
-  }
-  return null;
+import { z } from "zod";
+import {
+  storeSchema,
+  rateRecordSchema,
+  dateRangeSchema,
+  salesforceMatchSchema,
+  salesforceMetadataSchema,
+  competitorsResponseSchema,
+  trailingRatesResponseSchema,
+  storeIdParamsSchema,
+  storeSearchQuerySchema,
+  storeSearchResultSchema,
+  competitorsQuerySchema,
+  storeInfoQuerySchema,
+  historicalFillRequestSchema,
+  gapSettingsSchema,
+  isJobFinished,
+  jobIdParamsSchema,
+  trailingRatesQuerySchema,
+  latestRatesQuerySchema,
+  salesforceAddressQuerySchema,
+  salesforceNameQuerySchema,
+  mcpSitesQuerySchema,
+  mcpTableQuerySchema,
+  analysisIdParamsSchema,
+  analysisListQuerySchema,
+  analysisInputSchema,
+  analysisUpdateSchema,
+  analysisShareSchema,
+  analysisShareParamsSchema,
+  analysisReportQuerySchema,
+  userIdParamsSchema,
+  userRoleUpdateSchema,
+  type AuthUser,
+  type SalesforceAddressQuery,
+  type BackgroundJob,
+  adjustmentPresetIdParamsSchema,
+  adjustmentPresetInputSchema,
+  type AdjustmentPreset,
+  type AdjustmentPresetVersion,
+  storeIdentityLinksQuerySchema,
+  storeIdentityLinkInputSchema,
+  type StoreIdentityLink,
+  type RateRecord,
+  type Store,
+  hasRole,
+} from "@shared/api";
+import type {
+  AdjustmentPresetRecord,
+  AdjustmentPresetVersionRecord,
+  Analysis,
+  InsertAdjustmentPreset,
+  Job,
+  StoreIdentityLinkRecord,
+} from "@shared/schema";
+import { resolveAdjustmentModel, type PartialAdjustmentModel } from "@shared/adjustments";
+import { rankStoresByAddress } from "@shared/matching";
+import { pickFacility } from "@shared/facility";
+import { mergeRateRecords } from "@shared/gaps";
+import { hasCoordinates, withCoordinates } from "@shared/tradeArea";
+import { HttpError, handle, validate } from "./http";
+import { storage } from "./storage";
+import { requireRole, setupAuth, toAuthUser } from "./auth";
+import {
+  findStoresByAddress,
+  findCompetitors,
+} from "./stortrack";
+import {
+  healthCheck,
+  getDatabases,
+  getSites,
+  getStortrackData,
+  queryDatabase,
+  getAnalytics,
+  getStorEdgeData,
+  getTrailing12MonthRates,
+  withTrailingYear,
+  getLatestRates,
+  getStoreInfo,
+} from "./mcp";
+import {
+  getSalesforceByName,
+  getSalesforceMetadataByAddress,
+  toSalesforceMetadata,
+} from "./salesforce";
+import { scheduleSalesforceIndexRefresh } from "./salesforceIndex";
+import { gapSettings } from "./gapFill";
+import {
+  enqueueHistoricalFill,
+  failInterruptedJobs,
+  subscribeToJob,
+  toBackgroundJob,
+} from "./jobs";
+import { cached, cachedResponse, purgeCache, scheduleCachePruning } from "./cache";
+import { renderAnalysisReport } from "./report";
+
+// Express 5 wildcards capture path segments as an array.
+function wildcardPath(segments: string | string[] | undefined): string {
+  const parts = Array.isArray(segments) ? segments : segments ? [segments] : [];
+  return parts.map(encodeURIComponent).join("/");
 }
 
-async function findStoresByAddress(params: {
-  country?: string;
-  state?: string;
-  city?: string;
-  zip?: string;
-  storename?: string;
-  companyname?: string;
-}) {
-  const token = await getAuthToken();
-  if (!token) {
-    throw new Error("Failed to authenticate with StorTrack API");
-  }
-
-  const url = `${STORTRACK_BASEURL.replace(/\/$/, "")}/storesbyaddress`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      authorization: token,
-    },
-    body: JSON.stringify({
-      country: params.country || "United States",
-      state: params.state || "",
-      city: params.city || "",
-      zip: params.zip || "",
-      storename: params.storename || "",
-      companyname: params.companyname || "",
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Find stores failed:", response.status, errorText);
-    throw new Error(`StorTrack API error: ${response.status}`);
-  }
-
-  const result = await response.json();
-  return result.stores || [];
+function stringParams(query: unknown): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries((query as Record<string, unknown>) || {}).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string",
+    ),
+  );
 }
 
-async function findCompetitors(params: {
-  storeid?: number;
-  masterid?: number;
-  coveragezone?: number;
-}) {
-  const token = await getAuthToken();
-  if (!token) {
-    throw new Error("Failed to authenticate with StorTrack API");
-  }
-
-  const url = `${STORTRACK_BASEURL.replace(/\/$/, "")}/findcompetitors`;
+function storeIdsOf(stores: { storeId?: number }[]): number[] {
+  return stores.map((store) => store.storeId);
+}
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      authorization: token,
-    },
-    body: JSON.stringify({
-      storeid: params.storeid ? [params.storeid] : [],
-      masterid: params.masterid ? [params.masterid] : [],
-      coveragezone: params.coveragezone || 5.0,
-    }),
+// The competitor map needs coordinates, which dbo.Stores has and StorTrack's
+// competitor search leaves out. Without them the stores still list, just unplotted.
+async function locateCompetitors(result: { subject: Store; competitors: Store[] }) {
+  const unlocated = storeIdsOf([result.subject, ...result.competitors].filter((store) => !hasCoordinates(store)));
+  if (unlocated.length === 0) return result;
+  const located = await getStoreInfo(unlocated).catch((error) => {
+    console.warn("Failed to load competitor coordinates:", error);
+    return [];
   });
+  const [subject, ...competitors] = withCoordinates([result.subject, ...result.competitors], located);
+  return { subject, competitors };
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Find competitors failed:", response.status, errorText);
-    throw new Error(`StorTrack API error: ${response.status}`);
-  }
-
-  return await response.json();
+// The metadata route is derived from the same match list, so both share an entry.
+// Salesforce rows carry no StorTrack IDs; only a full purge clears these.
+function cachedSalesforceMatches(res: Response, query: SalesforceAddressQuery) {
+  return cachedResponse(res, "salesforceMatches", query, () => [], () =>
+    getSalesforceMetadataByAddress(query),
+  );
 }
 
-async function fetchHistoricalData(
-  params: {
-    storeid: number;
-    from: string;
-    to: string;
-  },
-  maxRetries = 3,
-) {
-  const token = await getAuthToken();
-  if (!token) {
-    throw new Error("Failed to authenticate with StorTrack API");
+function findAnalysis<T>(analysis: T | undefined): T {
+  if (!analysis) {
+    throw new HttpError(404, "Analysis not found", "NOT_FOUND");
   }
+  return analysis;
+}
 
-  const url = `${STORTRACK_BASEURL.replace(/\/$/, "")}/historicaldata`;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          authorization: token,
-        },
-        body: JSON.stringify({
-          storeid: params.storeid,
-          masterid: 0,
-          from: params.from,
-          to: params.to,
-          requestyear: 0,
-        }),
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        return Array.isArray(result) ? result : [result];
-      }
-
-      if (response.status === 429) {
-        console.warn(`Rate limited on attempt ${attempt + 1}, waiting...`);
-        await new Promise((r) => setTimeout(r, 60000));
-        continue;
-      }
-
-      if ([500, 503, 404].includes(response.status)) {
-        console.warn(`Got ${response.status} on attempt ${attempt + 1}`);
-        if (attempt < maxRetries - 1) {
-          await new Promise((r) => setTimeout(r, 5000 * (attempt + 1)));
-          continue;
-        }
-      }
-
-      const errorText = await response.text();
-      console.error("Historical data failed:", response.status, errorText);
-      throw new Error(`StorTrack API error: ${response.status}`);
-    } catch (error) {
-      if (attempt === maxRetries - 1) throw error;
-      await new Promise((r) => setTimeout(r, 2000 * (attempt + 1)));
+/**
+ * Loads an analysis the user may work on. "view" and "edit" admit the owner
+ * and users it was shared with; "own" (delete, archive, sharing) admits only
+ * the owner. Analyses saved before sign-in existed have no owner: anyone may
+ * view them, but only admins may change them.
+ * Analyses the user cannot see at all are reported as missing.
+ */
+async function loadAnalysis(
+  id: number,
+  user: AuthUser,
+  access: "view" | "edit" | "own",
+): Promise<Analysis> {
+  const analysis = findAnalysis(await storage.getAnalysis(id));
+  if (analysis.ownerId === null) {
+    if (access !== "view" && !hasRole(user.role, "admin")) {
+      throw new HttpError(403, "Only an admin can change an analysis without an owner", "FORBIDDEN");
     }
+    return analysis;
   }
-
-  throw new Error("Max retries exceeded");
-}
-
-async function universalQuery(database: string, sqlQuery: string) {
-  const url = `${MCP_BASE_URL}/query/universal`;
-
-  const body = {
-    database,
-    query: sqlQuery,
-  };
-
-  console.log(`MCP Universal Query: ${url}`, JSON.stringify(body));
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "X-API-Key": MCP_API_KEY,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`MCP API Error: ${response.status} - ${errorText}`);
-    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
+  if (analysis.ownerId === user.id) {
+    return analysis;
   }
-
-  const jsonResponse = await response.json();
-  console.log(`MCP Universal Query response keys:`, Object.keys(jsonResponse));
-
-  if (jsonResponse.results && Array.isArray(jsonResponse.results)) {
-    console.log(`MCP response has ${jsonResponse.results.length} results`);
-    return jsonResponse.results;
+  if (!(await storage.isAnalysisSharedWith(id, user.id))) {
+    throw new HttpError(404, "Analysis not found", "NOT_FOUND");
   }
-
-  if (Array.isArray(jsonResponse)) {
-    return jsonResponse;
-  } else if (jsonResponse.data && Array.isArray(jsonResponse.data)) {
-    return jsonResponse.data;
+  if (access === "own") {
+    throw new HttpError(403, "Only the owner can do that", "FORBIDDEN");
   }
-
-  return jsonResponse;
+  return analysis;
 }
 
-async function mcpRequest(endpoint: string, params?: Record<string, string>) {
-  const url = new URL(`${MCP_BASE_URL}${endpoint}`);
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value);
-      }
-    });
-  }
-
-  console.log(`MCP Request: ${url.toString()}`);
-
-  const response = await fetch(url.toString(), {
-    method: "GET",
-    headers: {
-      "X-API-Key": MCP_API_KEY,
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`MCP API Error: ${response.status} - ${errorText}`);
-    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
+const paidJobsSchema = z.object({
+  paidJobIds: z.array(z.number().int()).default([]),
+});
+
+const savedRatesSchema = paidJobsSchema.extend({
+  selectedStores: z.array(z.object({ storeId: z.number().int() })).default([]),
+  rateCoverage: dateRangeSchema.nullish(),
+  rateRecords: z.array(rateRecordSchema).default([]),
+});
+
+/**
+ * Paid rows are read back for everyone the analysis is shared with, so it may
+ * only list jobs its owner queued.
+ */
+async function assertOwnerJobs(state: Record<string, unknown>, ownerId: number | null): Promise<void> {
+  const { paidJobIds } = validate(paidJobsSchema, state, "analysis state");
+  const jobs = await Promise.all(paidJobIds.map((id) => storage.getJob(id)));
+  const foreign = paidJobIds.filter((_id, index) => jobs[index]?.ownerId !== ownerId);
+  if (foreign.length > 0) {
+    throw new HttpError(400, `Jobs ${foreign.join(", ")} were not run by the analysis owner`, "FOREIGN_JOB");
   }
+}
 
-  return await response.json();
+/**
+ * Rate rows for a saved analysis. Older analyses carry their own; newer ones
+ * are saved without them, so they are rebuilt from the dates they were read
+ * for and the owner's paid gap fills, as the wizard does when one is opened.
+ */
+async function analysisRateRecords(analysis: Analysis): Promise<RateRecord[]> {
+  const { selectedStores, paidJobIds, rateCoverage, rateRecords } = validate(
+    savedRatesSchema,
+    analysis.state,
+    "analysis state",
+  );
+  if (rateRecords.length > 0 || selectedStores.length === 0) return rateRecords;
+
+  const storeIds = selectedStores.map((store) => store.storeId);
+  // Analyses saved before the window was recorded fall back to the trailing year
+  const query = rateCoverage
+    ? { storeIds, fromDate: rateCoverage.from, toDate: rateCoverage.to }
+    : withTrailingYear({ storeIds });
+  const { value } = await cached("trailingRates", query, () => query.storeIds, () =>
+    getTrailing12MonthRates(query),
+  );
+  const databaseRecords = query.storeIds.flatMap((storeId) => value.ratesByStore[storeId] ?? []);
+  const jobs = await Promise.all(paidJobIds.map((id) => storage.getJob(id)));
+  const paid = jobs.filter((job) => job && job.ownerId === analysis.ownerId);
+  return mergeRateRecords(databaseRecords, paid.flatMap((job) => job.result?.records ?? [])).records;
 }
 
-function parsePythonDict(dictStr: string): Record<string, any> | null {
-  if (!dictStr || typeof dictStr !== "string") return null;
-
-  try {
-    return JSON.parse(dictStr);
-  } catch {
-    try {
-      const jsonString = dictStr
-        .replace(/'/g, '"')
-        .replace(/None/g, "null")
-        .replace(/True/g, "true")
-        .replace(/False/g, "false");
-      return JSON.parse(jsonString);
-    } catch {
-      return null;
-    }
+// Jobs are private to whoever queued them.
+async function loadJob(id: number, user: AuthUser): Promise<Job> {
+  const job = await storage.getJob(id);
+  if (!job || job.ownerId !== user.id) {
+    throw new HttpError(404, "Job not found", "NOT_FOUND");
   }
+  return job;
 }
 
-function fuzzyMatchScore(str1: string, str2: string): number {
-  if (!str1 || !str2) return 0;
-
-  const s1 = str1.toLowerCase().trim();
-  const s2 = str2.toLowerCase().trim();
-
-  if (s1 === s2) return 1;
-
-  const longer = s1.length > s2.length ? s1 : s2;
-  const shorter = s1.length > s2.length ? s2 : s1;
-
-  if (longer.length === 0) return 1;
-
-  if (longer.includes(shorter)) {
-    return shorter.length / longer.length;
+// Any analyst may use and add presets; only whoever created one, or an admin,
+// may change or archive it.
+async function loadAdjustmentPreset(id: number, user: AuthUser): Promise<AdjustmentPresetRecord> {
+  const preset = await storage.getAdjustmentPreset(id);
+  if (!preset || preset.archived) {
+    throw new HttpError(404, "Preset not found", "NOT_FOUND");
   }
-
-  const costs: number[] = [];
-  for (let i = 0; i <= s1.length; i++) {
-    let lastValue = i;
-    for (let j = 0; j <= s2.length; j++) {
-      if (i === 0) {
-        costs[j] = j;
-      } else if (j > 0) {
-        let newValue = costs[j - 1];
-        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
-          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
-        }
-        costs[j - 1] = lastValue;
-        lastValue = newValue;
-      }
-    }
-    if (i > 0) costs[s2.length] = lastValue;
+  if (preset.createdBy !== user.id && user.role !== "admin") {
+    throw new HttpError(403, "Only whoever created this preset or an admin can change it", "FORBIDDEN");
   }
-
-  return (longer.length - costs[s2.length]) / longer.length;
+  return preset;
 }
 
-function normalizeAddress(addr: string): string {
-  return (addr || "")
-    .toLowerCase()
-    .trim()
-    .replace(/[.,#]/g, "")
-    .replace(/\s+/g, " ")
-    .replace(/\bavenue\b/g, "ave")
-    .replace(/\bstreet\b/g, "st")
-    .replace(/\bdrive\b/g, "dr")
-    .replace(/\bboulevard\b/g, "blvd")
-    .replace(/\broad\b/g, "rd")
-    .replace(/\blane\b/g, "ln")
-    .replace(/\bcourt\b/g, "ct")
-    .replace(/\bnorth\b/g, "n")
-    .replace(/\bsouth\b/g, "s")
-    .replace(/\beast\b/g, "e")
-    .replace(/\bwest\b/g, "w")
-    .replace(/\bnortheast\b/g, "ne")
-    .replace(/\bnorthwest\b/g, "nw")
-    .replace(/\bsoutheast\b/g, "se")
-    .replace(/\bsouthwest\b/g, "sw");
+async function assertPresetNameFree(name: string, exceptId?: number) {
+  const existing = await storage.getAdjustmentPresetByName(name);
+  if (existing && existing.id !== exceptId) {
+    throw new HttpError(409, `A preset named "${name}" already exists`, "NAME_TAKEN");
+  }
 }
 
-async function getSalesforceByName(storeName: string) {
-  console.log("Querying Salesforce_rawData by name:", storeName);
-
-  const sql = `
-    SELECT TOP 5 Name, Year_Built__c, Net_RSF__c, ShippingAddress
-    FROM dbo.Salesforce_rawData
-    WHERE Name LIKE '%${storeName.replace(/'/g, "''")}%'
-      AND (Year_Built__c IS NOT NULL OR Net_RSF__c IS NOT NULL)
-  `;
-
-  const results = await universalQuery("Sites", sql);
-
-  if (!results || !Array.isArray(results) || results.length === 0) {
-    console.log("No results from Salesforce_rawData by name");
-    return [];
-  }
+function presetFromInput(body: unknown, user: AuthUser): InsertAdjustmentPreset {
+  const input = validate(adjustmentPresetInputSchema, body, "preset");
+  return {
+    name: input.name,
+    description: input.description,
+    market: input.market,
+    factors: {
+      captiveMarketPremium: input.factors.captiveMarketPremium,
+      lossToLease: input.factors.lossToLease,
+      ccAdj: input.factors.ccAdj,
+    },
+    // Override fields all have defaults, but zod infers them as optional
+    model: resolveAdjustmentModel(input.model as PartialAdjustmentModel),
+    note: input.note,
+    createdBy: user.id,
+  };
+}
 
-  console.log(`Found ${results.length} records matching name`);
-  return results.map((record: any) => ({
-    Year_Built__c: record.Year_Built__c,
-    Net_RSF__c: record.Net_RSF__c,
-    Name: record.Name,
-    ShippingAddress: record.ShippingAddress,
-  }));
+function toAdjustmentPreset(preset: AdjustmentPresetRecord): AdjustmentPreset {
+  return {
+    id: preset.id,
+    name: preset.name,
+    description: preset.description,
+    market: preset.market,
+    version: preset.currentVersion,
+    factors: preset.factors,
+    model: resolveAdjustmentModel(preset.model),
+    createdBy: preset.createdBy,
+    updatedByName: preset.updatedByName,
+    updatedAt: preset.updatedAt.toISOString(),
+  };
 }
 
-async function getSalesforceMetadataByAddress(params: {
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  storeName?: string;
-}) {
-  console.log("Querying Salesforce_rawData for address:", params);
-
-  const sql = `
-    SELECT Name, Year_Built__c, Net_RSF__c, ShippingAddress
-    FROM dbo.Salesforce_rawData
-    WHERE (Net_RSF__c IS NOT NULL OR Year_Built__c IS NOT NULL)
-      AND Name IS NOT NULL
-  `;
-  const results = await universalQuery("Sites", sql);
-
-  if (!results || !Array.isArray(results) || results.length === 0) {
-    console.log("No results from Salesforce_rawData");
-    return [];
-  }
+function toAdjustmentPresetVersion(version: AdjustmentPresetVersionRecord): AdjustmentPresetVersion {
+  return {
+    presetId: version.presetId,
+    version: version.version,
+    factors: version.factors,
+    model: resolveAdjustmentModel(version.model),
+    note: version.note,
+    createdByName: version.createdByName,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
 
-  console.log(`Retrieved ${results.length} records from Salesforce_rawData`);
-
-  const targetStreet = normalizeAddress(params.street);
-  const targetStoreName = (params.storeName || "").toLowerCase().trim();
-
-  const scoredMatches: Array<{
-    Name: string;
-    Year_Built__c: any;
-    Net_RSF__c: any;
-    ShippingAddress: any;
-    nameScore: number;
-    addressScore: number;
-    combinedScore: number;
-    parsedStoreName: string;
-    parsedAddress: string;
-  }> = [];
-
-  for (const record of results) {
-    const sfName = record.Name || "";
-    const sfStoreBrand = sfName.includes(" - ")
-      ? sfName.split(" - ")[0].trim()
-      : sfName;
-
-    let sfStreet = "";
-    const shippingAddress = parsePythonDict(record.ShippingAddress);
-
-    if (shippingAddress && shippingAddress.street) {
-      sfStreet = shippingAddress.street;
-    } else if (sfName.includes(" - ")) {
-      const nameParts = sfName.split(" - ");
-      if (nameParts.length >= 2) {
-        const potentialAddress = nameParts[1].trim();
-        if (
-          /\d+/.test(potentialAddress) ||
-          /(st|ave|rd|blvd|dr|way|lane|court)/i.test(potentialAddress)
-        ) {
-          sfStreet = potentialAddress;
-        }
-      }
-    }
+function toStoreIdentityLink(link: StoreIdentityLinkRecord): StoreIdentityLink {
+  return {
+    storeId: link.storeId,
+    storeName: link.storeName,
+    address: link.address,
+    city: link.city,
+    state: link.state,
+    zip: link.zip,
+    salesforceMatch: link.salesforceMatch,
+    yearBuilt: link.yearBuilt,
+    squareFootage: link.squareFootage,
+    facility: link.facility,
+    linkedByName: link.linkedByName,
+    updatedAt: link.updatedAt.toISOString(),
+  };
+}
 
-    if (!sfStreet) continue;
-
-    const nameScoreFull = fuzzyMatchScore(
-      targetStoreName,
-      sfName.toLowerCase(),
-    );
-    const nameScoreBrand = fuzzyMatchScore(
-      targetStoreName,
-      sfStoreBrand.toLowerCase(),
-    );
-    const nameScore = Math.max(nameScoreFull, nameScoreBrand);
-
-    const normalizedSfStreet = normalizeAddress(sfStreet);
-    const addressScore = fuzzyMatchScore(targetStreet, normalizedSfStreet);
-
-    const combinedScore = nameScore * 0.4 + addressScore * 0.6;
-
-    if (combinedScore > 0.3 || addressScore > 0.5) {
-      scoredMatches.push({
-        Name: sfName,
-        Year_Built__c: record.Year_Built__c,
-        Net_RSF__c: record.Net_RSF__c,
-        ShippingAddress: record.ShippingAddress,
-        nameScore,
-        addressScore,
-        combinedScore,
-        parsedStoreName: sfStoreBrand,
-        parsedAddress: sfStreet,
+export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
+  // Analysts use the curated RCA endpoints; raw MCP access is admin-only
+  // because it reaches whole databases.
+  app.use(
+    ["/api/stores", "/api/rates", "/api/salesforce", "/api/store-links", "/api/jobs", "/api/adjustment-presets"],
+    requireRole("analyst"),
+  );
+  app.use("/api/mcp", requireRole("admin"));
+
+  scheduleCachePruning();
+  scheduleSalesforceIndexRefresh();
+  await failInterruptedJobs();
+
+  // --- StorTrack ---
+
+  app.get(
+    "/api/stores/search",
+    handle(async (req, res) => {
+      const { streetAddress, ...query } = validate(storeSearchQuerySchema, req.query, "store search");
+      // Ranking happens after the cache so each street address reuses the same StorTrack lookup
+      const stores = await cachedResponse(res, "storeSearch", query, storeIdsOf, () =>
+        findStoresByAddress(query),
+      );
+      return rankStoresByAddress(stores, streetAddress);
+    }, z.array(storeSearchResultSchema)),
+  );
+
+  app.get(
+    "/api/stores/info",
+    handle(async (req, res) => {
+      const { storeIds } = validate(storeInfoQuerySchema, req.query);
+      return await cachedResponse(res, "storeInfo", storeIds, () => storeIds, () =>
+        getStoreInfo(storeIds),
+      );
+    }, z.array(storeSchema)),
+  );
+
+  app.get(
+    "/api/stores/:id/competitors",
+    handle(async (req, res) => {
+      const { id } = validate(storeIdParamsSchema, req.params);
+      const { radius } = validate(competitorsQuerySchema, req.query);
+      return await cachedResponse(
+        res,
+        "competitors",
+        { storeId: id, radius },
+        ({ subject, competitors }) => [id, ...storeIdsOf([subject, ...competitors])],
+        () => findCompetitors({ storeId: id, radius }).then(locateCompetitors),
+      );
+    }, competitorsResponseSchema),
+  );
+
+  app.get(
+    "/api/rates/gap-settings",
+    handle(async () => gapSettings, gapSettingsSchema),
+  );
+
+  // --- Rate database (MCP) ---
+
+  app.get(
+    "/api/rates/trailing",
+    handle(async (req, res) => {
+      const query = withTrailingYear(validate(trailingRatesQuerySchema, req.query));
+      return await cachedResponse(res, "trailingRates", query, () => query.storeIds, () =>
+        getTrailing12MonthRates(query),
+      );
+    }, trailingRatesResponseSchema),
+  );
+
+  app.get(
+    "/api/rates/latest",
+    handle(async (req, res) => {
+      const query = validate(latestRatesQuerySchema, req.query);
+      return await cachedResponse(res, "latestRates", query, () => query.storeIds, () =>
+        getLatestRates(query),
+      );
+    }, z.array(rateRecordSchema)),
+  );
+
+  // --- Salesforce ---
+
+  app.get(
+    "/api/salesforce/matches",
+    handle(async (req, res) => {
+      const query = validate(salesforceAddressQuerySchema, req.query);
+      return await cachedSalesforceMatches(res, query);
+    }, z.array(salesforceMatchSchema)),
+  );
+
+  app.get(
+    "/api/salesforce/metadata",
+    handle(async (req, res) => {
+      const query = validate(salesforceAddressQuerySchema, req.query);
+      return toSalesforceMetadata(await cachedSalesforceMatches(res, query));
+    }, salesforceMetadataSchema.nullable()),
+  );
+
+  app.get(
+    "/api/salesforce/search",
+    handle(async (req) => {
+      const { name } = validate(salesforceNameQuerySchema, req.query);
+      return await getSalesforceByName(name);
+    }),
+  );
+
+  // --- Store identity links ---
+
+  // Admin review screen; analysts only ever look up the stores in front of them
+  app.get(
+    "/api/store-links",
+    requireRole("admin"),
+    handle(async () => (await storage.listStoreIdentityLinks()).map(toStoreIdentityLink)),
+  );
+
+  app.get(
+    "/api/store-links/lookup",
+    handle(async (req) => {
+      const { storeIds } = validate(storeIdentityLinksQuerySchema, req.query);
+      return (await storage.getStoreIdentityLinks(storeIds)).map(toStoreIdentityLink);
+    }),
+  );
+
+  // Saved whenever an analyst verifies a store; the latest decision wins
+  app.put(
+    "/api/store-links/:id",
+    handle(async (req) => {
+      const { id } = validate(storeIdParamsSchema, req.params);
+      const input = validate(storeIdentityLinkInputSchema, req.body, "store link");
+      const link = await storage.saveStoreIdentityLink({
+        storeId: id,
+        storeName: input.storeName,
+        address: input.address,
+        city: input.city,
+        state: input.state,
+        zip: input.zip,
+        salesforceMatch: input.salesforceMatch,
+        yearBuilt: input.yearBuilt,
+        squareFootage: input.squareFootage,
+        facility: input.facility && pickFacility(input.facility),
+        linkedBy: req.user.id,
       });
-    }
-  }
+      return toStoreIdentityLink(link);
+    }),
+  );
+
+  // Removing a link sends the store back to fuzzy matching
+  app.delete(
+    "/api/store-links/:id",
+    requireRole("admin"),
+    handle(async (req) => {
+      const { id } = validate(storeIdParamsSchema, req.params);
+      if (!(await storage.deleteStoreIdentityLink(id))) {
+        throw new HttpError(404, "Store link not found", "NOT_FOUND");
+      }
+      return { storeId: id };
+    }),
+  );
 
-  scoredMatches.sort((a, b) => b.combinedScore - a.combinedScore);
+  // --- Raw MCP access ---
 
-  console.log(`Found ${scoredMatches.length} matching records for address`);
+  app.get("/api/mcp/health", handle(healthCheck));
 
-  return scoredMatches.slice(0, 10);
-}
+  app.get("/api/mcp/databases", handle(getDatabases));
 
-async function healthCheck() {
-  const response = await fetch(`${MCP_BASE_URL}/health`);
-  return { healthy: response.ok, status: response.status };
-}
+  app.get(
+    "/api/mcp/sites",
+    handle(async (req) => getSites(validate(mcpSitesQuerySchema, req.query))),
+  );
 
-async function getDatabases() {
-  return await mcpRequest("/databases");
-}
+  app.post(
+    "/api/mcp/query",
+    handle(async (req) => {
+      const body = validate(mcpTableQuerySchema, req.body, "query");
+      return await queryDatabase(body.database, body.table, body.filters, body.limit);
+    }),
+  );
+
+  app.get(
+    "/api/mcp/stortrack/*endpoint",
+    handle(async (req) =>
+      getStortrackData(`/${wildcardPath(req.params.endpoint)}`, stringParams(req.query)),
+    ),
+  );
+
+  app.get(
+    "/api/mcp/storedge/*endpoint",
+    handle(async (req) =>
+      getStorEdgeData(wildcardPath(req.params.endpoint), stringParams(req.query)),
+    ),
+  );
+
+  app.get(
+    "/api/mcp/analytics/:type",
+    handle(async (req) => getAnalytics(req.params.type)),
+  );
+
+  // --- Saved analyses ---
+
+  app.get(
+    "/api/analyses",
+    handle(async (req) => {
+      const { archived } = validate(analysisListQuerySchema, req.query);
+      return await storage.listAnalyses({ archived, userId: req.user.id });
+    }),
+  );
+
+  app.post(
+    "/api/analyses",
+    requireRole("analyst"),
+    handle(async (req, res) => {
+      const { name, currentStep, state } = validate(
+        analysisInputSchema,
+        req.body,
+        "analysis",
+      );
+      await assertOwnerJobs(state, req.user.id);
+      const analysis = await storage.createAnalysis({
+        name,
+        currentStep,
+        state,
+        ownerId: req.user.id,
+      });
+      res.status(201);
+      return analysis;
+    }),
+  );
 
-async function getSites(params?: { state?: string; city?: string }) {
-  return await mcpRequest("/sites", params as Record<string, string>);
-}
+  app.get(
+    "/api/analyses/:id",
+    handle(async (req) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      return await loadAnalysis(id, req.user, "view");
+    }),
+  );
+
+  app.put(
+    "/api/analyses/:id",
+    requireRole("analyst"),
+    handle(async (req) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      const changes = validate(analysisUpdateSchema, req.body, "analysis");
+      const analysis = await loadAnalysis(id, req.user, changes.archived === undefined ? "edit" : "own");
+      if (changes.state) await assertOwnerJobs(changes.state, analysis.ownerId);
+      return findAnalysis(await storage.updateAnalysis(id, changes));
+    }),
+  );
+
+  app.post(
+    "/api/analyses/:id/duplicate",
+    requireRole("analyst"),
+    handle(async (req, res) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      const original = await loadAnalysis(id, req.user, "view");
+      let copy = findAnalysis(await storage.duplicateAnalysis(id, req.user.id));
+      // Another owner's paid pulls stay with their analysis; the copy keeps the database rows
+      if (original.ownerId !== req.user.id) {
+        copy = findAnalysis(await storage.updateAnalysis(copy.id, { state: { ...copy.state, paidJobIds: [] } }));
+      }
+      res.status(201);
+      return copy;
+    }),
+  );
+
+  app.delete(
+    "/api/analyses/:id",
+    requireRole("analyst"),
+    handle(async (req) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      await loadAnalysis(id, req.user, "own");
+      await storage.deleteAnalysis(id);
+      return { id };
+    }),
+  );
+
+  // Rate rows are not saved with the analysis; everyone who can open it gets them here
+  app.get(
+    "/api/analyses/:id/rates",
+    handle(async (req) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      return await analysisRateRecords(await loadAnalysis(id, req.user, "view"));
+    }, z.array(rateRecordSchema)),
+  );
+
+  app.get(
+    "/api/analyses/:id/report.pdf",
+    handle(async (req, res) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      const { sizes } = validate(analysisReportQuerySchema, req.query);
+      const analysis = await loadAnalysis(id, req.user, "view");
+      const pdf = await renderAnalysisReport(analysis, await analysisRateRecords(analysis), sizes);
+      const fileName = `RCA_${analysis.name.replace(/[^\w.-]+/g, "_")}.pdf`;
+      res
+        .type("application/pdf")
+        .attachment(fileName)
+        .send(pdf);
+    }),
+  );
+
+  app.get(
+    "/api/analyses/:id/shares",
+    handle(async (req) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      await loadAnalysis(id, req.user, "view");
+      return await storage.listAnalysisShares(id);
+    }),
+  );
+
+  app.post(
+    "/api/analyses/:id/shares",
+    requireRole("analyst"),
+    handle(async (req, res) => {
+      const { id } = validate(analysisIdParamsSchema, req.params);
+      const { username } = validate(analysisShareSchema, req.body, "share");
+      const analysis = await loadAnalysis(id, req.user, "own");
+      const recipient = await storage.getUserByUsername(username);
+      if (!recipient) {
+        throw new HttpError(404, `No user named "${username}"`, "USER_NOT_FOUND");
+      }
+      if (recipient.id === analysis.ownerId) {
+        throw new HttpError(400, "The owner already has access", "ALREADY_OWNER");
+      }
+      await storage.shareAnalysis(id, recipient.id);
+      res.status(201);
+      return { userId: recipient.id, username: recipient.username };
+    }),
+  );
+
+  app.delete(
+    "/api/analyses/:id/shares/:userId",
+    requireRole("analyst"),
+    handle(async (req) => {
+      const { id, userId } = validate(analysisShareParamsSchema, req.params);
+      await loadAnalysis(id, req.user, "own");
+      if (!(await storage.unshareAnalysis(id, userId))) {
+        throw new HttpError(404, "Share not found", "NOT_FOUND");
+      }
+      return { userId };
+    }),
+  );
 
-async function getStortrackData(
-  endpoint: string,
-  params?: Record<string, string>,
-) {
-  return await mcpRequest(`/stortrack${endpoint}`, params);
-}
+  // --- Background jobs ---
 
-async function queryDatabase(
-  database: string,
-  table: string,
-  filters?: Record<string, any>,
-  limit?: number,
-) {
-  let sql = `SELECT TOP ${limit || 1000} * FROM dbo.${table}`;
-
-  if (filters && Object.keys(filters).length > 0) {
-    const whereClauses = Object.entries(filters)
-      .map(([key, value]) => `${key} = '${value}'`)
-      .join(" AND ");
-    sql += ` WHERE ${whereClauses}`;
-  }
+  app.post(
+    "/api/jobs/historical-fill",
+    handle(async (req, res) => {
+      const request = validate(historicalFillRequestSchema, req.body, "historical fill");
+      res.status(202);
+      return await enqueueHistoricalFill(request, req.user.id);
+    }),
+  );
 
-  return await universalQuery(database, sql);
-}
+  app.get(
+    "/api/jobs/:id",
+    handle(async (req) => {
+      const { id } = validate(jobIdParamsSchema, req.params);
+      return toBackgroundJob(await loadJob(id, req.user));
+    }),
+  );
+
+  // Server-sent events: one `job` event per update, closed once the job finishes.
+  app.get(
+    "/api/jobs/:id/events",
+    handle(async (req, res) => {
+      const { id } = validate(jobIdParamsSchema, req.params);
+      // Checked before the stream opens so someone else's job is a plain 404
+      await loadJob(id, req.user);
+
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+
+      await new Promise<void>((resolve) => {
+        let closed = false;
+        let lastUpdatedAt = "";
+        const send = (snapshot: BackgroundJob) => {
+          // The snapshot read below can lose a race with a published update
+          if (closed || snapshot.updatedAt < lastUpdatedAt) return;
+          lastUpdatedAt = snapshot.updatedAt;
+          res.write(`event: job\ndata: ${JSON.stringify(snapshot)}\n\n`);
+          if (isJobFinished(snapshot.status)) close();
+        };
+        // Subscribe before reading, so a job finishing in between still ends the stream
+        const unsubscribe = subscribeToJob(id, send);
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          res.end();
+          resolve();
+        };
+        req.on("close", close);
+        loadJob(id, req.user).then((job) => send(toBackgroundJob(job)), close);
+      });
+    }),
+  );
 
-async function getAnalytics(type: string) {
-  return await mcpRequest(`/analytics/${type}`);
-}
+  // --- Adjustment presets ---
 
-async function getStorEdgeData(
-  endpoint: string,
-  params?: Record<string, string>,
-) {
-  return await mcpRequest(`/storedge/${endpoint}`, params);
-}
+  app.get(
+    "/api/adjustment-presets",
+    handle(async () => (await storage.listAdjustmentPresets()).map(toAdjustmentPreset)),
+  );
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  app.post("/api/stortrack", async (req, res) => {
-    try {
-      const { action, params } = req.body;
-      console.log(`StorTrack API action: ${action}`, params);
-
-      let result;
-
-      switch (action) {
-        case "findStoresByAddress":
-          result = await findStoresByAddress(params);
-          break;
-        case "findCompetitors":
-          result = await findCompetitors(params);
-          break;
-        case "fetchHistoricalData":
-          result = await fetchHistoricalData(params);
-          break;
-        default:
-          throw new Error(`Unknown action: ${action}`);
+  app.get(
+    "/api/adjustment-presets/:id/versions",
+    handle(async (req) => {
+      const { id } = validate(adjustmentPresetIdParamsSchema, req.params);
+      if (!(await storage.getAdjustmentPreset(id))) {
+        throw new HttpError(404, "Preset not found", "NOT_FOUND");
       }
-
-      res.json({ success: true, data: result });
-    } catch (error: unknown) {
-      console.error("StorTrack API error:", error);
-      const message = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ success: false, error: message });
-    }
-  });
-
-  app.post("/api/database", async (req, res) => {
-    try {
-      const { action, params } = req.body;
-      console.log(`Database query action: ${action}`, params);
-
-      let result;
-
-      switch (action) {
-        case "healthCheck":
-          result = await healthCheck();
-          break;
-
-        case "getDatabases":
-          result = await getDatabases();
-          break;
-
-        case "getSites":
-          result = await getSites(params);
-          break;
-
-        case "getStortrackData":
-          result = await getStortrackData(params.endpoint, params.queryParams);
-          break;
-
-        case "queryDatabase":
-          result = await queryDatabase(
-            params.database,
-            params.table,
-            params.filters,
-            params.limit,
-          );
-          break;
-
-        case "getAnalytics":
-          result = await getAnalytics(params.type);
-          break;
-
-        case "getStorEdgeData":
-          result = await getStorEdgeData(params.endpoint, params.queryParams);
-          break;
-
-        case "getSalesforceMetadataByAddress":
-          result = await getSalesforceMetadataByAddress(params);
-          break;
-
-        case "getSalesforceByName":
-          result = await getSalesforceByName(params.storeName);
-          break;
-
-        case "getTrailing12MonthRates": {
-          const storeIds = params.storeIds || [];
-          if (storeIds.length === 0) {
-            throw new Error("storeIds is required for getTrailing12MonthRates");
-          }
-          const storeIdList = storeIds
-            .map((id: string | number) => `'${id}'`)
-            .join(",");
-          const fromDate =
-            params.fromDate ||
-            new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)
-              .toISOString()
-              .split("T")[0];
-          const toDate =
-            params.toDate || new Date().toISOString().split("T")[0];
-
-          const rateSql = `
-            SELECT 
-              r.Store_ID,
-              s.Name as Store_Name,
-              s.Street_Address,
-              s.City,
-              s.State,
-              s.Zip,
-              r.Size,
-              r.Width,
-              r.Length,
-              r.Spacetype,
-              r.CC as Climate_Controlled,
-              r.Humidity_Controlled,
-              r.Drive_Up,
-              r.Elevator,
-              r.Outdoor_Access,
-              r.Regular_Rate,
-              r.Online_Rate,
-              r.Promo,
-              r.Date_Collected
-            FROM dbo.Rates r
-            LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
-            WHERE r.Store_ID IN (${storeIdList})
-            AND r.Date_Collected >= '${fromDate}'
-            AND r.Date_Collected <= '${toDate}'
-            ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
-          `;
-
-          const rawResult = await universalQuery("Stortrack", rateSql);
-          // universalQuery already extracts the results array, so rawResult is the array directly
-          const rows = Array.isArray(rawResult) ? rawResult : [];
-          console.log(
-            `getTrailing12MonthRates: Processing ${rows.length} rate records`,
-          );
-
-          const ratesByStore: Record<number, any[]> = {};
-          const datesByStore: Record<number, Set<string>> = {};
-
-          for (const row of rows) {
-            const storeId = row.Store_ID;
-
-            if (!ratesByStore[storeId]) {
-              ratesByStore[storeId] = [];
-              datesByStore[storeId] = new Set();
-            }
-
-            const features: string[] = [];
-            if (row.Climate_Controlled) features.push("Climate Controlled");
-            if (row.Humidity_Controlled) features.push("Humidity Controlled");
-            if (row.Drive_Up) features.push("Drive Up");
-            if (row.Elevator) features.push("Elevator");
-            if (row.Outdoor_Access) features.push("Outdoor Access");
-
-            ratesByStore[storeId].push({
-              storeId: storeId,
-              storeName: row.Store_Name || "",
-              address: row.Street_Address || "",
-              city: row.City || "",
-              state: row.State || "",
-              zip: row.Zip || "",
-              unitType: row.Spacetype || "Standard",
-              size: row.Size || "",
-              width: row.Width,
-              length: row.Length,
-              features: features.join(", "),
-              tag: row.Spacetype || "Standard",
-              climateControlled: !!row.Climate_Controlled,
-              humidityControlled: !!row.Humidity_Controlled,
-              driveUp: !!row.Drive_Up,
-              elevator: !!row.Elevator,
-              outdoorAccess: !!row.Outdoor_Access,
-              walkInPrice: row.Regular_Rate,
-              onlinePrice: row.Online_Rate,
-              pctDifference:
-                row.Regular_Rate && row.Online_Rate
-                  ? ((row.Regular_Rate - row.Online_Rate) / row.Regular_Rate) *
-                    100
-                  : 0,
-              date: row.Date_Collected || "",
-              promo: row.Promo || "",
-              source: "Database" as const,
-            });
-
-            if (row.Date_Collected) {
-              datesByStore[storeId].add(row.Date_Collected);
-            }
-          }
-
-          const datesByStoreArrays: Record<number, string[]> = {};
-          for (const [storeId, dates] of Object.entries(datesByStore)) {
-            datesByStoreArrays[Number(storeId)] = Array.from(dates)
-              .sort()
-              .reverse();
-          }
-
-          result = { ratesByStore, datesByStore: datesByStoreArrays };
-          break;
-        }
-
-        case "getStoreInfo": {
-          const storeIds = params.storeIds || [];
-          if (storeIds.length === 0) {
-            throw new Error("storeIds is required for getStoreInfo");
-          }
-          const storeIdList = storeIds
-            .map((id: string | number) => `'${id}'`)
-            .join(",");
-
-          const storeSql = `
-            SELECT 
-              ID as Store_ID,
-              Name,
-              Street_Address,
-              City,
-              State,
-              Zip,
-              Country,
-              Phone,
-              Latitude,
-              Longitude
-            FROM dbo.Stores
-            WHERE ID IN (${storeIdList})
-          `;
-          result = await universalQuery("Stortrack", storeSql);
-          break;
-        }
-
-        case "getSalesforceMatches":
-          result = await getSalesforceMetadataByAddress({
-            street: params.streetAddress || "",
-            city: "",
-            state: "",
-            postalCode: "",
-            storeName: params.storeName,
-          });
-          break;
-
-        case "getLatestRates": {
-          const storeIds = params.storeIds || [];
-          if (storeIds.length === 0) {
-            throw new Error("storeIds is required for getLatestRates");
-          }
-          const storeIdList = storeIds
-            .map((id: string | number) => `'${id}'`)
-            .join(",");
-          const daysBack = params.daysBack || 7;
-
-          const latestRateSql = `
-            SELECT 
-              r.Store_ID,
-              s.Name as Store_Name,
-              s.Street_Address,
-              s.City,
-              s.State,
-              s.Zip,
-              r.Size,
-              r.Width,
-              r.Length,
-              r.Spacetype,
-              r.CC as Climate_Controlled,
-              r.Humidity_Controlled,
-              r.Drive_Up,
-              r.Elevator,
-              r.Outdoor_Access,
-              r.Regular_Rate,
-              r.Online_Rate,
-              r.Promo,
-              r.Date_Collected
-            FROM dbo.Rates r
-            LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
-            WHERE r.Store_ID IN (${storeIdList})
-            AND r.Date_Collected >= DATEADD(day, -${daysBack}, GETDATE())
-            ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
-          `;
-          result = await universalQuery("Stortrack", latestRateSql);
-          break;
-        }
-
-        default:
-          throw new Error(`Unknown action: ${action}`);
+      return (await storage.listAdjustmentPresetVersions(id)).map(toAdjustmentPresetVersion);
+    }),
+  );
+
+  app.post(
+    "/api/adjustment-presets",
+    handle(async (req, res) => {
+      const preset = presetFromInput(req.body, req.user);
+      await assertPresetNameFree(preset.name);
+      const created = await storage.createAdjustmentPreset(preset);
+      res.status(201);
+      return toAdjustmentPreset(created);
+    }),
+  );
+
+  // Saves a new version; earlier versions stay readable for the analyses that used them
+  app.put(
+    "/api/adjustment-presets/:id",
+    handle(async (req) => {
+      const { id } = validate(adjustmentPresetIdParamsSchema, req.params);
+      const preset = presetFromInput(req.body, req.user);
+      await loadAdjustmentPreset(id, req.user);
+      await assertPresetNameFree(preset.name, id);
+      const updated = await storage.addAdjustmentPresetVersion(id, preset);
+      if (!updated) {
+        throw new HttpError(404, "Preset not found", "NOT_FOUND");
       }
-
-      res.json({ success: true, data: result });
-    } catch (error: unknown) {
-      console.error("Database query error:", error);
-      const message = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ success: false, error: message });
-    }
-  });
+      return toAdjustmentPreset(updated);
+    }),
+  );
+
+  app.delete(
+    "/api/adjustment-presets/:id",
+    handle(async (req) => {
+      const { id } = validate(adjustmentPresetIdParamsSchema, req.params);
+      await loadAdjustmentPreset(id, req.user);
+      await storage.archiveAdjustmentPreset(id);
+      return { id };
+    }),
+  );
+
+  // --- Response cache (admin) ---
+
+  app.delete(
+    "/api/cache",
+    requireRole("admin"),
+    handle(async () => purgeCache()),
+  );
+
+  app.delete(
+    "/api/cache/stores/:id",
+    requireRole("admin"),
+    handle(async (req) => {
+      const { id } = validate(storeIdParamsSchema, req.params);
+      return await purgeCache(id);
+    }),
+  );
+
+  // --- Users (admin) ---
+
+  app.get(
+    "/api/users",
+    requireRole("admin"),
+    handle(async () => (await storage.listUsers()).map(toAuthUser)),
+  );
+
+  app.put(
+    "/api/users/:id/role",
+    requireRole("admin"),
+    handle(async (req) => {
+      const { id } = validate(userIdParamsSchema, req.params);
+      const { role } = validate(userRoleUpdateSchema, req.body, "role");
+      if (id === req.user.id && role !== "admin") {
+        throw new HttpError(400, "Admins cannot demote themselves", "SELF_DEMOTION");
+      }
+      const user = await storage.updateUserRole(id, role);
+      if (!user) {
+        throw new HttpError(404, "User not found", "NOT_FOUND");
+      }
+      return toAuthUser(user);
+    }),
+  );
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,174 @@
+import {
+  parseSquareFootage,
+  parseYearBuilt,
+  type SalesforceAddressQuery,
+  type SalesforceMatch,
+  type SalesforceMatchWeights,
+  type SalesforceMetadata,
+  salesforceMatchWeightsSchema,
+} from "@shared/api";
+import {
+  addressSimilarity,
+  fuzzyMatchScore,
+  normalizePostalCode,
+  normalizeState,
+  postalCodeSimilarity,
+} from "@shared/matching";
+import { parseFacilityAttributes } from "@shared/facility";
+import { universalQuery } from "./mcp";
+import { findSalesforceCandidates, type SalesforceRow } from "./salesforceIndex";
+import { sql, likeContains } from "./sql";
+
+// With no city or ZIP to compare, name and street keep the original 40/60 split
+const DEFAULT_MATCH_WEIGHTS: SalesforceMatchWeights = { name: 0.32, street: 0.48, city: 0.1, postalCode: 0.1 };
+
+// SALESFORCE_MATCH_WEIGHTS (JSON, e.g. {"name":1,"street":2,"city":0,"postalCode":1})
+// overrides the defaults; an invalid value is reported once at startup and ignored.
+function loadMatchWeights(): SalesforceMatchWeights {
+  const configured = process.env.SALESFORCE_MATCH_WEIGHTS;
+  if (!configured) return DEFAULT_MATCH_WEIGHTS;
+  let json: unknown;
+  try {
+    json = JSON.parse(configured);
+  } catch {
+    json = undefined;
+  }
+  const weights = salesforceMatchWeightsSchema.safeParse(json);
+  if (weights.success) return weights.data as SalesforceMatchWeights;
+  console.warn("Ignoring invalid SALESFORCE_MATCH_WEIGHTS:", configured);
+  return DEFAULT_MATCH_WEIGHTS;
+}
+
+/** Relative weights of name, street, city and ZIP in a match's combined score. */
+export const salesforceMatchWeights = loadMatchWeights();
+
+// Weighted mean over the components both sides have
+function combinedScore(components: [score: number | null, weight: number][]): number {
+  const known = components.filter(([score]) => score !== null);
+  const totalWeight = known.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight === 0) return 0;
+  return known.reduce((sum, [score, weight]) => sum + score! * weight, 0) / totalWeight;
+}
+
+export async function getSalesforceByName(storeName: string) {
+  console.log("Querying Salesforce_rawData by name:", storeName);
+
+  const query = sql`
+    SELECT TOP 5 Name, Year_Built__c, Net_RSF__c, ShippingAddress
+    FROM dbo.Salesforce_rawData
+    WHERE Name LIKE ${likeContains(storeName.trim())}
+      AND (Year_Built__c IS NOT NULL OR Net_RSF__c IS NOT NULL)
+  `;
+
+  const results = (await universalQuery("Sites", query)) as unknown as SalesforceRow[];
+
+  if (!results || !Array.isArray(results) || results.length === 0) {
+    console.log("No results from Salesforce_rawData by name");
+    return [];
+  }
+
+  console.log(`Found ${results.length} records matching name`);
+  return results.map((record) => ({
+    Year_Built__c: record.Year_Built__c,
+    Net_RSF__c: record.Net_RSF__c,
+    Name: record.Name,
+    ShippingAddress: record.ShippingAddress,
+  }));
+}
+
+export async function getSalesforceMetadataByAddress(
+  params: SalesforceAddressQuery,
+): Promise<SalesforceMatch[]> {
+  const candidates = await findSalesforceCandidates(params);
+  const targetStoreName = (params.storeName || "").toLowerCase().trim();
+  const targetState = normalizeState(params.state);
+  const targetPostalCode = normalizePostalCode(params.postalCode);
+  const weights = salesforceMatchWeights;
+
+  const scoredMatches: SalesforceMatch[] = [];
+
+  for (const candidate of candidates) {
+    const { row: record, name: sfName, brand: sfStoreBrand, street: sfStreet } = candidate;
+
+    // Another state, or a ZIP outside the store's sectional center, is never the same facility
+    const state = normalizeState(candidate.state);
+    if (targetState && state && state !== targetState) continue;
+    const postalCode = normalizePostalCode(candidate.postalCode);
+    const postalCodeScore = targetPostalCode && postalCode ? postalCodeSimilarity(targetPostalCode, postalCode) : null;
+    if (postalCodeScore === 0) continue;
+    const cityScore = params.city && candidate.city ? fuzzyMatchScore(params.city, candidate.city) : null;
+
+    const nameScoreFull = fuzzyMatchScore(
+      targetStoreName,
+      sfName.toLowerCase(),
+    );
+    const nameScoreBrand = fuzzyMatchScore(
+      targetStoreName,
+      sfStoreBrand.toLowerCase(),
+    );
+    const nameScore = Math.max(nameScoreFull, nameScoreBrand);
+
+    const addressScore = addressSimilarity(params.street, sfStreet);
+
+    const score = combinedScore([
+      [nameScore, weights.name],
+      [addressScore, weights.street],
+      [cityScore, weights.city],
+      [postalCodeScore, weights.postalCode],
+    ]);
+
+    if (score > 0.3 || addressScore > 0.5) {
+      scoredMatches.push({
+        Name: sfName,
+        Year_Built__c: record.Year_Built__c,
+        Net_RSF__c: record.Net_RSF__c,
+        ShippingAddress: record.ShippingAddress,
+        Unit_Count__c: record.Unit_Count__c,
+        Stories__c: record.Stories__c,
+        Climate_Controlled_Pct__c: record.Climate_Controlled_Pct__c,
+        Occupancy__c: record.Occupancy__c,
+        Gate_Hours__c: record.Gate_Hours__c,
+        Management_Type__c: record.Management_Type__c,
+        nameScore,
+        addressScore,
+        combinedScore: score,
+        parsedStoreName: sfStoreBrand,
+        parsedAddress: sfStreet,
+        cityScore,
+        postalCodeScore,
+        parsedCity: candidate.city || null,
+        parsedState: candidate.state || null,
+        parsedPostalCode: candidate.postalCode || null,
+      });
+    }
+  }
+
+  scoredMatches.sort((a, b) => b.combinedScore - a.combinedScore);
+
+  console.log(`Found ${scoredMatches.length} matches among ${candidates.length} candidates for ${params.street}`);
+
+  return scoredMatches.slice(0, 10);
+}
+
+/** Best Salesforce match for a store, reduced to the fields the wizard stores. */
+export async function getSalesforceMetadata(
+  params: SalesforceAddressQuery,
+): Promise<SalesforceMetadata | null> {
+  return toSalesforceMetadata(await getSalesforceMetadataByAddress(params));
+}
+
+/** Parses the best-scoring match (matches arrive sorted) into metadata. */
+export function toSalesforceMetadata(
+  matches: SalesforceMatch[],
+): SalesforceMetadata | null {
+  const [best] = matches;
+  if (!best) return null;
+
+  return {
+    yearBuilt: parseYearBuilt(best.Year_Built__c),
+    squareFootage: parseSquareFootage(best.Net_RSF__c),
+    ...parseFacilityAttributes(best),
+    matched: true,
+    matchScore: best.combinedScore,
+  };
+}
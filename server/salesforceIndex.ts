@@ -0,0 +1,192 @@
+import type { SalesforceAddressQuery, SalesforceMatch } from "@shared/api";
+import { normalizeAddress, normalizePostalCode, parsePythonDict } from "@shared/matching";
+import { isMissingColumnError, universalQuery } from "./mcp";
+import { identifier, joinSql, sql } from "./sql";
+
+// Salesforce_rawData held in memory and keyed by house number, ZIP code and
+// brand, so matching a store is a lookup plus a re-rank of a few candidates
+// rather than a pull of the whole table for every store.
+
+const HOUR = 60 * 60 * 1000;
+// Same lifetime as cached Salesforce matches; the table changes rarely
+const REFRESH_INTERVAL = 6 * HOUR;
+
+const BASE_COLUMNS = ["Name", "Year_Built__c", "Net_RSF__c", "ShippingAddress"];
+// Assumed names, not yet confirmed against the Salesforce_rawData extract. If
+// any is missing, the pull falls back to the base columns, and later refreshes
+// skip them until restart.
+const FACILITY_COLUMNS = [
+  "Unit_Count__c",
+  "Stories__c",
+  "Climate_Controlled_Pct__c",
+  "Occupancy__c",
+  "Gate_Hours__c",
+  "Management_Type__c",
+];
+
+export type SalesforceRow = Pick<
+  SalesforceMatch,
+  | "Year_Built__c"
+  | "Net_RSF__c"
+  | "ShippingAddress"
+  | "Unit_Count__c"
+  | "Stories__c"
+  | "Climate_Controlled_Pct__c"
+  | "Occupancy__c"
+  | "Gate_Hours__c"
+  | "Management_Type__c"
+> & { Name: string | null };
+
+export interface IndexedSalesforceRecord {
+  row: SalesforceRow;
+  name: string;
+  // "StorQuest" from "StorQuest - 123 Main St"
+  brand: string;
+  street: string;
+  // From ShippingAddress; empty when it is missing
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+interface SalesforceIndex {
+  byKey: Map<string, IndexedSalesforceRecord[]>;
+  size: number;
+  loadedAt: number;
+}
+
+let current: SalesforceIndex | null = null;
+let loading: Promise<SalesforceIndex> | null = null;
+
+// The street comes from ShippingAddress, or failing that from a name like "Brand - 123 Main St"
+function toRecord(row: SalesforceRow): IndexedSalesforceRecord | null {
+  const name = row.Name || "";
+  const [brandPart, addressPart] = name.split(" - ");
+  const shippingAddress = parsePythonDict(row.ShippingAddress);
+
+  let street = "";
+  if (shippingAddress && shippingAddress.street) {
+    street = String(shippingAddress.street);
+  } else if (addressPart) {
+    const potentialAddress = addressPart.trim();
+    if (/\d+/.test(potentialAddress) || /(st|ave|rd|blvd|dr|way|lane|court)/i.test(potentialAddress)) {
+      street = potentialAddress;
+    }
+  }
+  if (!street) return null;
+
+  const field = (key: string) => (shippingAddress?.[key] ? String(shippingAddress[key]) : "");
+  return {
+    row,
+    name,
+    brand: addressPart !== undefined ? brandPart.trim() : name,
+    street,
+    city: field("city"),
+    state: field("state") || field("stateCode"),
+    postalCode: field("postalCode"),
+  };
+}
+
+function addressKeys(street: string, postalCode: string): string[] {
+  const keys: string[] = [];
+  const [first] = normalizeAddress(street).split(" ");
+  if (/^\d+$/.test(first)) keys.push(`number:${first}`);
+  const zip = normalizePostalCode(postalCode);
+  if (zip) keys.push(`zip:${zip}`);
+  return keys;
+}
+
+function brandKey(name: string): string | null {
+  const [first] = name.toLowerCase().replace(/[^a-z0-9 ]/g, "").trim().split(/\s+/);
+  return first && first.length >= 3 ? `brand:${first}` : null;
+}
+
+function buildIndex(rows: SalesforceRow[]): SalesforceIndex {
+  const byKey = new Map<string, IndexedSalesforceRecord[]>();
+  let size = 0;
+  for (const row of rows) {
+    const record = toRecord(row);
+    if (!record) continue;
+    size++;
+    const keys = [...addressKeys(record.street, record.postalCode), brandKey(record.brand)];
+    for (const key of keys) {
+      if (!key) continue;
+      const records = byKey.get(key);
+      if (records) records.push(record);
+      else byKey.set(key, [record]);
+    }
+  }
+  return { byKey, size, loadedAt: Date.now() };
+}
+
+function selectRows(columns: string[]): Promise<SalesforceRow[]> {
+  const query = sql`
+    SELECT ${joinSql(columns.map(identifier), ", ")}
+    FROM dbo.Salesforce_rawData
+    WHERE (Net_RSF__c IS NOT NULL OR Year_Built__c IS NOT NULL)
+      AND Name IS NOT NULL
+  `;
+  return universalQuery("Sites", query) as unknown as Promise<SalesforceRow[]>;
+}
+
+let facilityColumnsMissing = false;
+
+async function loadIndex(): Promise<SalesforceIndex> {
+  const columns = facilityColumnsMissing ? BASE_COLUMNS : [...BASE_COLUMNS, ...FACILITY_COLUMNS];
+  const rows = await selectRows(columns).catch((error) => {
+    // Anything else (MCP down, timeouts) should fail the load rather than quietly drop attributes
+    if (facilityColumnsMissing || !isMissingColumnError(error)) throw error;
+    facilityColumnsMissing = true;
+    console.warn("Salesforce_rawData lacks the facility columns; indexing without them:", error);
+    return selectRows(BASE_COLUMNS);
+  });
+  const index = buildIndex(Array.isArray(rows) ? rows : []);
+  console.log(`Indexed ${index.size} Salesforce_rawData records`);
+  return index;
+}
+
+// Concurrent callers share one load, so a 15-store analysis reads the table once
+function refresh(): Promise<SalesforceIndex> {
+  if (!loading) {
+    loading = loadIndex()
+      .then((index) => {
+        // An empty pull is more likely an MCP hiccup than an empty table, so retry next time
+        if (index.size > 0) current = index;
+        return index;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+/** The index, loading it on first use; a stale index is served while it reloads. */
+async function getIndex(): Promise<SalesforceIndex> {
+  if (!current) return refresh();
+  if (Date.now() - current.loadedAt > REFRESH_INTERVAL) {
+    refresh().catch((error) => console.error("Salesforce index refresh failed:", error));
+  }
+  return current;
+}
+
+/**
+ * Records sharing the store's house number or ZIP code. Only when none do are
+ * records of the same brand returned, so a typo in both still finds something.
+ */
+export async function findSalesforceCandidates(params: SalesforceAddressQuery): Promise<IndexedSalesforceRecord[]> {
+  const index = await getIndex();
+  const lookup = (keys: (string | null)[]) =>
+    Array.from(new Set(keys.flatMap((key) => (key && index.byKey.get(key)) || [])));
+
+  const byAddress = lookup(addressKeys(params.street, params.postalCode));
+  return byAddress.length > 0 ? byAddress : lookup([brandKey(params.storeName || "")]);
+}
+
+/** Reloads the index in the background every few hours once something has used it. */
+export function scheduleSalesforceIndexRefresh() {
+  setInterval(() => {
+    if (!current) return;
+    refresh().catch((error) => console.error("Salesforce index refresh failed:", error));
+  }, REFRESH_INTERVAL).unref();
+}
@@ -0,0 +1,272 @@
+/**
+ * T-SQL building for MCP universal queries.
+ *
+ * The MCP `/query/universal` endpoint only accepts a raw SQL string, so values
+ * cannot be bound server-side. Every query is instead assembled with the `sql`
+ * tagged template below, which escapes interpolated values by type and refuses
+ * anything it cannot render safely. Identifiers never come from interpolation;
+ * they must be declared in QUERYABLE_TABLES and go through `identifier()`.
+ */
+
+import { HttpError } from "./http";
+
+export class SqlValidationError extends HttpError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(400, message, "INVALID_QUERY", details);
+    this.name = "SqlValidationError";
+  }
+}
+
+const FRAGMENT = Symbol("SqlFragment");
+
+export interface SqlFragment {
+  readonly [FRAGMENT]: true;
+  readonly text: string;
+}
+
+export type SqlValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | SqlFragment
+  | ReadonlyArray<string | number>;
+
+function fragment(text: string): SqlFragment {
+  return { [FRAGMENT]: true, text };
+}
+
+function isFragment(value: unknown): value is SqlFragment {
+  return typeof value === "object" && value !== null && FRAGMENT in value;
+}
+
+function renderString(value: string): string {
+  if (value.includes("\0")) {
+    throw new SqlValidationError("String values may not contain NUL bytes");
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function renderNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new SqlValidationError("Numeric values must be finite", { value });
+  }
+  return String(value);
+}
+
+function renderValue(value: SqlValue): string {
+  if (value === null) return "NULL";
+  if (isFragment(value)) return value.text;
+  if (value instanceof Date) return renderString(formatDate(value));
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new SqlValidationError("Value lists must not be empty");
+    }
+    return value
+      .map((item) =>
+        typeof item === "number" ? renderNumber(item) : renderString(item),
+      )
+      .join(", ");
+  }
+  switch (typeof value) {
+    case "string":
+      return renderString(value);
+    case "number":
+      return renderNumber(value);
+    case "boolean":
+      return value ? "1" : "0";
+    default:
+      throw new SqlValidationError(`Unsupported SQL value type: ${typeof value}`);
+  }
+}
+
+/**
+ * Tagged template that renders interpolated values as escaped T-SQL literals.
+ * Nested `sql` fragments and `identifier()` results are inserted verbatim.
+ */
+export function sql(
+  strings: TemplateStringsArray,
+  ...values: SqlValue[]
+): SqlFragment {
+  let text = strings[0];
+  values.forEach((value, i) => {
+    text += renderValue(value) + strings[i + 1];
+  });
+  return fragment(text);
+}
+
+/** Joins fragments with a separator, e.g. WHERE clauses with " AND ". */
+export function joinSql(parts: SqlFragment[], separator: string): SqlFragment {
+  return fragment(parts.map((part) => part.text).join(separator));
+}
+
+/** Escapes a LIKE pattern so the value only ever matches as a substring. */
+export function likeContains(value: string): string {
+  return `%${value.replace(/[[%_]/g, "[$&]")}%`;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Quotes a single identifier after checking it is a plain word. */
+export function identifier(name: string): SqlFragment {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new SqlValidationError(`Invalid identifier: ${name}`, { identifier: name });
+  }
+  return fragment(`[${name}]`);
+}
+
+// Tables and columns that may be read through the generic queryDatabase action.
+// Anything not listed here is rejected before a query is built.
+export const QUERYABLE_TABLES: Record<string, Record<string, readonly string[]>> = {
+  Stortrack: {
+    Stores: [
+      "ID",
+      "Name",
+      "Street_Address",
+      "City",
+      "State",
+      "Zip",
+      "Country",
+      "Phone",
+      "Latitude",
+      "Longitude",
+      "Unit_Count",
+      "Stories",
+      "Climate_Controlled_Pct",
+      "Occupancy",
+      "Gate_Hours",
+      "Management_Type",
+    ],
+    Rates: [
+      "Store_ID",
+      "Size",
+      "Width",
+      "Length",
+      "Spacetype",
+      "CC",
+      "Humidity_Controlled",
+      "Drive_Up",
+      "Elevator",
+      "Outdoor_Access",
+      "Regular_Rate",
+      "Online_Rate",
+      "Promo",
+      "Date_Collected",
+    ],
+  },
+  Sites: {
+    Salesforce_rawData: [
+      "Name",
+      "Year_Built__c",
+      "Net_RSF__c",
+      "ShippingAddress",
+      "Unit_Count__c",
+      "Stories__c",
+      "Climate_Controlled_Pct__c",
+      "Occupancy__c",
+      "Gate_Hours__c",
+      "Management_Type__c",
+    ],
+  },
+};
+
+export const QUERYABLE_DATABASES = Object.keys(QUERYABLE_TABLES);
+
+export function assertDatabase(database: unknown): string {
+  if (typeof database !== "string" || !QUERYABLE_DATABASES.includes(database)) {
+    throw new SqlValidationError(`Unknown database: ${String(database)}`, {
+      database,
+      allowed: QUERYABLE_DATABASES,
+    });
+  }
+  return database;
+}
+
+export function assertTable(database: string, table: unknown): string {
+  const tables = QUERYABLE_TABLES[assertDatabase(database)];
+  if (typeof table !== "string" || !(table in tables)) {
+    throw new SqlValidationError(`Table is not queryable: ${String(table)}`, {
+      database,
+      table,
+      allowed: Object.keys(tables),
+    });
+  }
+  return table;
+}
+
+export function assertColumn(database: string, table: string, column: string): string {
+  const columns = QUERYABLE_TABLES[database][assertTable(database, table)];
+  if (!columns.includes(column)) {
+    throw new SqlValidationError(`Column is not queryable: ${column}`, {
+      table,
+      column,
+      allowed: columns,
+    });
+  }
+  return column;
+}
+
+// --- Value coercion for client-supplied parameters ---
+
+export function toStoreId(value: unknown): number {
+  const id = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof id !== "number" || !Number.isSafeInteger(id) || id <= 0) {
+    throw new SqlValidationError(`Invalid store ID: ${String(value)}`, { storeId: value });
+  }
+  return id;
+}
+
+export function toStoreIds(value: unknown): number[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new SqlValidationError("storeIds must be a non-empty array", { storeIds: value });
+  }
+  return Array.from(new Set(value.map(toStoreId)));
+}
+
+export function toInteger(
+  value: unknown,
+  name: string,
+  { min, max }: { min: number; max: number },
+): number {
+  const n = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < min || n > max) {
+    throw new SqlValidationError(`${name} must be an integer between ${min} and ${max}`, {
+      [name]: value,
+    });
+  }
+  return n;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function toIsoDate(value: unknown, name: string): string {
+  if (
+    typeof value !== "string" ||
+    !ISO_DATE_PATTERN.test(value) ||
+    Number.isNaN(Date.parse(value))
+  ) {
+    throw new SqlValidationError(`${name} must be a YYYY-MM-DD date`, { [name]: value });
+  }
+  return value;
+}
+
+/** Plain scalar accepted as a queryDatabase filter value. */
+// Integer key columns; filtering them with a quoted string would force a
+// conversion on every row and skip their index
+const ID_COLUMNS = new Set(["ID", "Store_ID"]);
+
+export function toFilterValue(column: string, value: unknown): string | number | boolean | null {
+  if (value === null) return null;
+  if (ID_COLUMNS.has(column)) return toStoreId(value);
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  throw new SqlValidationError(`Unsupported filter value for ${column}`, {
+    column,
+    value,
+  });
+}
@@ -1,18 +1,143 @@
-import type { User, InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, exists, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  analyses,
+  analysisShares,
+  jobs,
+  adjustmentPresets,
+  adjustmentPresetVersions,
+  storeIdentityLinks,
+  type User,
+  type NewUser,
+  type Analysis,
+  type InsertAnalysis,
+  type Job,
+  type InsertJob,
+  type JobUpdate,
+  type AdjustmentPresetRow,
+  type AdjustmentPresetVersionRow,
+  type AdjustmentPresetRecord,
+  type AdjustmentPresetVersionRecord,
+  type InsertAdjustmentPreset,
+  type StoreIdentityLinkRow,
+  type StoreIdentityLinkRecord,
+  type InsertStoreIdentityLink,
+} from "@shared/schema";
+import type { AnalysisShareEntry, UserRole } from "@shared/api";
+
+export type AnalysisListItem = Omit<Analysis, "state"> & {
+  ownerName: string | null;
+};
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: NewUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+
+  /**
+   * Analyses visible to `userId`: their own, those shared with them, and
+   * ownerless ones saved before sign-in existed.
+   */
+  listAnalyses(options: { archived: boolean; userId: number }): Promise<AnalysisListItem[]>;
+  getAnalysis(id: number): Promise<Analysis | undefined>;
+  createAnalysis(analysis: InsertAnalysis): Promise<Analysis>;
+  updateAnalysis(id: number, changes: Partial<InsertAnalysis>): Promise<Analysis | undefined>;
+  duplicateAnalysis(id: number, ownerId: number): Promise<Analysis | undefined>;
+  deleteAnalysis(id: number): Promise<boolean>;
+
+  isAnalysisSharedWith(analysisId: number, userId: number): Promise<boolean>;
+  listAnalysisShares(analysisId: number): Promise<AnalysisShareEntry[]>;
+  shareAnalysis(analysisId: number, userId: number): Promise<void>;
+  unshareAnalysis(analysisId: number, userId: number): Promise<boolean>;
+
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  updateJob(id: number, changes: JobUpdate): Promise<Job | undefined>;
+  /** Marks queued and running jobs failed; returns how many were changed. */
+  failUnfinishedJobs(error: string): Promise<number>;
+
+  /** Presets that are not archived, at their current version. */
+  listAdjustmentPresets(): Promise<AdjustmentPresetRecord[]>;
+  getAdjustmentPreset(id: number): Promise<AdjustmentPresetRecord | undefined>;
+  /** Case-insensitive, archived presets included (names stay reserved). */
+  getAdjustmentPresetByName(name: string): Promise<AdjustmentPresetRecord | undefined>;
+  createAdjustmentPreset(preset: InsertAdjustmentPreset): Promise<AdjustmentPresetRecord>;
+  /** Saves `preset` as the next version and makes it current. */
+  addAdjustmentPresetVersion(
+    id: number,
+    preset: InsertAdjustmentPreset,
+  ): Promise<AdjustmentPresetRecord | undefined>;
+  archiveAdjustmentPreset(id: number): Promise<boolean>;
+  /** Newest first. */
+  listAdjustmentPresetVersions(presetId: number): Promise<AdjustmentPresetVersionRecord[]>;
+
+  /** Every link, by store name, for the admin review screen. */
+  listStoreIdentityLinks(): Promise<StoreIdentityLinkRecord[]>;
+  getStoreIdentityLinks(storeIds: number[]): Promise<StoreIdentityLinkRecord[]>;
+  /** Creates or replaces the store's link. */
+  saveStoreIdentityLink(link: InsertStoreIdentityLink): Promise<StoreIdentityLinkRecord>;
+  deleteStoreIdentityLink(storeId: number): Promise<boolean>;
+}
+
+type AnalysisSummaryFields = Pick<Analysis, "subjectStoreName" | "competitorCount">;
+
+// Copy the dashboard columns out of the wizard state so listing never has to
+// load the state blob. selectedStores includes the subject store.
+function summarizeState(
+  state: Record<string, unknown> | undefined,
+): Partial<AnalysisSummaryFields> {
+  if (!state) return {};
+  const subject = state.subjectStore as { storeName?: string } | null | undefined;
+  const selected = Array.isArray(state.selectedStores) ? state.selectedStores : [];
+  return {
+    subjectStoreName: subject?.storeName ?? null,
+    competitorCount: Math.max(0, selected.length - (subject ? 1 : 0)),
+  };
+}
+
+function copyName(name: string): string {
+  return `Copy of ${name}`;
+}
+
+// By market, then name; presets without a market go last as Postgres sorts NULLs
+function presetOrder(a: AdjustmentPresetRecord, b: AdjustmentPresetRecord): number {
+  if (a.market !== b.market) {
+    if (a.market === null) return 1;
+    if (b.market === null) return -1;
+    return a.market.localeCompare(b.market);
+  }
+  return a.name.localeCompare(b.name);
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private analyses: Map<number, Analysis>;
+  // "analysisId:userId"
+  private shares: Set<string>;
+  private jobs: Map<number, Job>;
+  private presets: Map<number, AdjustmentPresetRow>;
+  // "presetId:version"
+  private presetVersions: Map<string, AdjustmentPresetVersionRow>;
+  private storeLinks: Map<number, StoreIdentityLinkRow>;
   private currentId: number;
+  private currentAnalysisId: number;
+  private currentJobId: number;
+  private currentPresetId: number;
 
   constructor() {
     this.users = new Map();
+    this.analyses = new Map();
+    this.shares = new Set();
+    this.jobs = new Map();
+    this.presets = new Map();
+    this.presetVersions = new Map();
+    this.storeLinks = new Map();
     this.currentId = 1;
+    this.currentAnalysisId = 1;
+    this.currentJobId = 1;
+    this.currentPresetId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -25,16 +150,690 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(newUser: NewUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { 
+    const user: User = {
       id,
-      username: insertUser.username,
-      email: insertUser.email,
+      username: newUser.username,
+      email: newUser.email,
+      passwordHash: newUser.passwordHash,
+      role: newUser.role,
     };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async listAnalyses({
+    archived,
+    userId,
+  }: {
+    archived: boolean;
+    userId: number;
+  }): Promise<AnalysisListItem[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.archived === archived)
+      .filter(
+        (analysis) =>
+          analysis.ownerId === null ||
+          analysis.ownerId === userId ||
+          this.shares.has(`${analysis.id}:${userId}`),
+      )
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(({ state: _state, ...rest }) => ({
+        ...rest,
+        ownerName: rest.ownerId ? this.users.get(rest.ownerId)?.username ?? null : null,
+      }));
+  }
+
+  async getAnalysis(id: number): Promise<Analysis | undefined> {
+    return this.analyses.get(id);
+  }
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const id = this.currentAnalysisId++;
+    const now = new Date();
+    const analysis: Analysis = {
+      id,
+      name: insertAnalysis.name,
+      currentStep: insertAnalysis.currentStep,
+      state: insertAnalysis.state,
+      subjectStoreName: null,
+      competitorCount: 0,
+      ...summarizeState(insertAnalysis.state),
+      archived: insertAnalysis.archived ?? false,
+      ownerId: insertAnalysis.ownerId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.analyses.set(id, analysis);
+    return analysis;
+  }
+
+  async updateAnalysis(
+    id: number,
+    changes: Partial<InsertAnalysis>,
+  ): Promise<Analysis | undefined> {
+    const existing = this.analyses.get(id);
+    if (!existing) return undefined;
+    const updated: Analysis = {
+      ...existing,
+      ...changes,
+      ...summarizeState(changes.state),
+      updatedAt: new Date(),
+    };
+    this.analyses.set(id, updated);
+    return updated;
+  }
+
+  async duplicateAnalysis(id: number, ownerId: number): Promise<Analysis | undefined> {
+    const existing = this.analyses.get(id);
+    if (!existing) return undefined;
+    return this.createAnalysis({
+      name: copyName(existing.name),
+      currentStep: existing.currentStep,
+      state: structuredClone(existing.state),
+      ownerId,
+    });
+  }
+
+  async deleteAnalysis(id: number): Promise<boolean> {
+    for (const key of Array.from(this.shares)) {
+      if (key.startsWith(`${id}:`)) this.shares.delete(key);
+    }
+    return this.analyses.delete(id);
+  }
+
+  async isAnalysisSharedWith(analysisId: number, userId: number): Promise<boolean> {
+    return this.shares.has(`${analysisId}:${userId}`);
+  }
+
+  async listAnalysisShares(analysisId: number): Promise<AnalysisShareEntry[]> {
+    return Array.from(this.shares)
+      .map((key) => key.split(":").map(Number))
+      .filter(([sharedId]) => sharedId === analysisId)
+      .map(([, userId]) => ({
+        userId,
+        username: this.users.get(userId)?.username ?? "",
+      }));
+  }
+
+  async shareAnalysis(analysisId: number, userId: number): Promise<void> {
+    this.shares.add(`${analysisId}:${userId}`);
+  }
+
+  async unshareAnalysis(analysisId: number, userId: number): Promise<boolean> {
+    return this.shares.delete(`${analysisId}:${userId}`);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentJobId++;
+    const now = new Date();
+    const job: Job = {
+      id,
+      ...insertJob,
+      status: "queued",
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async updateJob(id: number, changes: JobUpdate): Promise<Job | undefined> {
+    const existing = this.jobs.get(id);
+    if (!existing) return undefined;
+    const updated: Job = { ...existing, ...changes, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async failUnfinishedJobs(error: string): Promise<number> {
+    let failed = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status === "queued" || job.status === "running") {
+        await this.updateJob(job.id, { status: "failed", error });
+        failed++;
+      }
+    }
+    return failed;
+  }
+
+  private presetRecord(preset: AdjustmentPresetRow): AdjustmentPresetRecord {
+    const current = this.presetVersions.get(`${preset.id}:${preset.currentVersion}`)!;
+    return {
+      ...preset,
+      factors: current.factors,
+      model: current.model,
+      updatedByName: current.createdBy ? this.users.get(current.createdBy)?.username ?? null : null,
+    };
+  }
+
+  private addPresetVersion(presetId: number, version: number, preset: InsertAdjustmentPreset, now: Date) {
+    this.presetVersions.set(`${presetId}:${version}`, {
+      presetId,
+      version,
+      factors: preset.factors,
+      model: preset.model,
+      note: preset.note,
+      createdBy: preset.createdBy,
+      createdAt: now,
+    });
+  }
+
+  async listAdjustmentPresets(): Promise<AdjustmentPresetRecord[]> {
+    return Array.from(this.presets.values())
+      .filter((preset) => !preset.archived)
+      .map((preset) => this.presetRecord(preset))
+      .sort(presetOrder);
+  }
+
+  async getAdjustmentPreset(id: number): Promise<AdjustmentPresetRecord | undefined> {
+    const preset = this.presets.get(id);
+    return preset && this.presetRecord(preset);
+  }
+
+  async getAdjustmentPresetByName(name: string): Promise<AdjustmentPresetRecord | undefined> {
+    const preset = Array.from(this.presets.values()).find(
+      (candidate) => candidate.name.toLowerCase() === name.toLowerCase(),
+    );
+    return preset && this.presetRecord(preset);
+  }
+
+  async createAdjustmentPreset(insertPreset: InsertAdjustmentPreset): Promise<AdjustmentPresetRecord> {
+    const id = this.currentPresetId++;
+    const now = new Date();
+    const preset: AdjustmentPresetRow = {
+      id,
+      name: insertPreset.name,
+      description: insertPreset.description,
+      market: insertPreset.market,
+      currentVersion: 1,
+      archived: false,
+      createdBy: insertPreset.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.presets.set(id, preset);
+    this.addPresetVersion(id, 1, insertPreset, now);
+    return this.presetRecord(preset);
+  }
+
+  async addAdjustmentPresetVersion(
+    id: number,
+    insertPreset: InsertAdjustmentPreset,
+  ): Promise<AdjustmentPresetRecord | undefined> {
+    const existing = this.presets.get(id);
+    if (!existing) return undefined;
+    const now = new Date();
+    const updated: AdjustmentPresetRow = {
+      ...existing,
+      name: insertPreset.name,
+      description: insertPreset.description,
+      market: insertPreset.market,
+      currentVersion: existing.currentVersion + 1,
+      updatedAt: now,
+    };
+    this.addPresetVersion(id, updated.currentVersion, insertPreset, now);
+    this.presets.set(id, updated);
+    return this.presetRecord(updated);
+  }
+
+  async archiveAdjustmentPreset(id: number): Promise<boolean> {
+    const existing = this.presets.get(id);
+    if (!existing) return false;
+    this.presets.set(id, { ...existing, archived: true, updatedAt: new Date() });
+    return true;
+  }
+
+  async listAdjustmentPresetVersions(presetId: number): Promise<AdjustmentPresetVersionRecord[]> {
+    return Array.from(this.presetVersions.values())
+      .filter((version) => version.presetId === presetId)
+      .sort((a, b) => b.version - a.version)
+      .map((version) => ({
+        ...version,
+        createdByName: version.createdBy ? this.users.get(version.createdBy)?.username ?? null : null,
+      }));
+  }
+
+  private storeLinkRecord(link: StoreIdentityLinkRow): StoreIdentityLinkRecord {
+    return {
+      ...link,
+      linkedByName: link.linkedBy ? this.users.get(link.linkedBy)?.username ?? null : null,
+    };
+  }
+
+  async listStoreIdentityLinks(): Promise<StoreIdentityLinkRecord[]> {
+    return Array.from(this.storeLinks.values())
+      .sort((a, b) => a.storeName.localeCompare(b.storeName))
+      .map((link) => this.storeLinkRecord(link));
+  }
+
+  async getStoreIdentityLinks(storeIds: number[]): Promise<StoreIdentityLinkRecord[]> {
+    return storeIds
+      .map((storeId) => this.storeLinks.get(storeId))
+      .filter((link): link is StoreIdentityLinkRow => link !== undefined)
+      .map((link) => this.storeLinkRecord(link));
+  }
+
+  async saveStoreIdentityLink(insertLink: InsertStoreIdentityLink): Promise<StoreIdentityLinkRecord> {
+    const now = new Date();
+    const link: StoreIdentityLinkRow = {
+      ...insertLink,
+      createdAt: this.storeLinks.get(insertLink.storeId)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.storeLinks.set(link.storeId, link);
+    return this.storeLinkRecord(link);
+  }
+
+  async deleteStoreIdentityLink(storeId: number): Promise<boolean> {
+    return this.storeLinks.delete(storeId);
+  }
+}
+
+/**
+ * Postgres-backed storage. The connection module is imported on first use
+ * because `./db` throws at import time when DATABASE_URL is missing.
+ */
+export class DatabaseStorage implements IStorage {
+  private async db() {
+    const { db } = await import("./db");
+    return db;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const db = await this.db();
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.db();
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(newUser: NewUser): Promise<User> {
+    const db = await this.db();
+    const [user] = await db.insert(users).values(newUser).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const db = await this.db();
+    return db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const db = await this.db();
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async listAnalyses({
+    archived,
+    userId,
+  }: {
+    archived: boolean;
+    userId: number;
+  }): Promise<AnalysisListItem[]> {
+    const db = await this.db();
+    const sharedWithUser = db
+      .select({ analysisId: analysisShares.analysisId })
+      .from(analysisShares)
+      .where(
+        and(
+          eq(analysisShares.analysisId, analyses.id),
+          eq(analysisShares.userId, userId),
+        ),
+      );
+
+    return db
+      .select({
+        id: analyses.id,
+        name: analyses.name,
+        currentStep: analyses.currentStep,
+        subjectStoreName: analyses.subjectStoreName,
+        competitorCount: analyses.competitorCount,
+        archived: analyses.archived,
+        ownerId: analyses.ownerId,
+        ownerName: users.username,
+        createdAt: analyses.createdAt,
+        updatedAt: analyses.updatedAt,
+      })
+      .from(analyses)
+      .leftJoin(users, eq(analyses.ownerId, users.id))
+      .where(
+        and(
+          eq(analyses.archived, archived),
+          or(
+            isNull(analyses.ownerId),
+            eq(analyses.ownerId, userId),
+            exists(sharedWithUser),
+          ),
+        ),
+      )
+      .orderBy(desc(analyses.updatedAt));
+  }
+
+  async getAnalysis(id: number): Promise<Analysis | undefined> {
+    const db = await this.db();
+    const [analysis] = await db.select().from(analyses).where(eq(analyses.id, id));
+    return analysis;
+  }
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const db = await this.db();
+    const [analysis] = await db
+      .insert(analyses)
+      .values({ ...insertAnalysis, ...summarizeState(insertAnalysis.state) })
+      .returning();
+    return analysis;
+  }
+
+  async updateAnalysis(
+    id: number,
+    changes: Partial<InsertAnalysis>,
+  ): Promise<Analysis | undefined> {
+    const db = await this.db();
+    const [analysis] = await db
+      .update(analyses)
+      .set({ ...changes, ...summarizeState(changes.state), updatedAt: new Date() })
+      .where(eq(analyses.id, id))
+      .returning();
+    return analysis;
+  }
+
+  async duplicateAnalysis(id: number, ownerId: number): Promise<Analysis | undefined> {
+    const existing = await this.getAnalysis(id);
+    if (!existing) return undefined;
+    return this.createAnalysis({
+      name: copyName(existing.name),
+      currentStep: existing.currentStep,
+      state: existing.state,
+      ownerId,
+    });
+  }
+
+  async deleteAnalysis(id: number): Promise<boolean> {
+    const db = await this.db();
+    const deleted = await db
+      .delete(analyses)
+      .where(eq(analyses.id, id))
+      .returning({ id: analyses.id });
+    return deleted.length > 0;
+  }
+
+  async isAnalysisSharedWith(analysisId: number, userId: number): Promise<boolean> {
+    const db = await this.db();
+    const [share] = await db
+      .select()
+      .from(analysisShares)
+      .where(
+        and(
+          eq(analysisShares.analysisId, analysisId),
+          eq(analysisShares.userId, userId),
+        ),
+      );
+    return !!share;
+  }
+
+  async listAnalysisShares(analysisId: number): Promise<AnalysisShareEntry[]> {
+    const db = await this.db();
+    return db
+      .select({ userId: users.id, username: users.username })
+      .from(analysisShares)
+      .innerJoin(users, eq(analysisShares.userId, users.id))
+      .where(eq(analysisShares.analysisId, analysisId));
+  }
+
+  async shareAnalysis(analysisId: number, userId: number): Promise<void> {
+    const db = await this.db();
+    await db
+      .insert(analysisShares)
+      .values({ analysisId, userId })
+      .onConflictDoNothing();
+  }
+
+  async unshareAnalysis(analysisId: number, userId: number): Promise<boolean> {
+    const db = await this.db();
+    const deleted = await db
+      .delete(analysisShares)
+      .where(
+        and(
+          eq(analysisShares.analysisId, analysisId),
+          eq(analysisShares.userId, userId),
+        ),
+      )
+      .returning({ userId: analysisShares.userId });
+    return deleted.length > 0;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const db = await this.db();
+    const [job] = await db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const db = await this.db();
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async updateJob(id: number, changes: JobUpdate): Promise<Job | undefined> {
+    const db = await this.db();
+    const [job] = await db
+      .update(jobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async failUnfinishedJobs(error: string): Promise<number> {
+    const db = await this.db();
+    const failed = await db
+      .update(jobs)
+      .set({ status: "failed", error, updatedAt: new Date() })
+      .where(inArray(jobs.status, ["queued", "running"]))
+      .returning({ id: jobs.id });
+    return failed.length;
+  }
+
+  // Presets joined to their current version and whoever saved it
+  private async selectPresets(where: SQL): Promise<AdjustmentPresetRecord[]> {
+    const db = await this.db();
+    return db
+      .select({
+        id: adjustmentPresets.id,
+        name: adjustmentPresets.name,
+        description: adjustmentPresets.description,
+        market: adjustmentPresets.market,
+        currentVersion: adjustmentPresets.currentVersion,
+        archived: adjustmentPresets.archived,
+        createdBy: adjustmentPresets.createdBy,
+        createdAt: adjustmentPresets.createdAt,
+        updatedAt: adjustmentPresets.updatedAt,
+        factors: adjustmentPresetVersions.factors,
+        model: adjustmentPresetVersions.model,
+        updatedByName: users.username,
+      })
+      .from(adjustmentPresets)
+      .innerJoin(
+        adjustmentPresetVersions,
+        and(
+          eq(adjustmentPresetVersions.presetId, adjustmentPresets.id),
+          eq(adjustmentPresetVersions.version, adjustmentPresets.currentVersion),
+        ),
+      )
+      .leftJoin(users, eq(adjustmentPresetVersions.createdBy, users.id))
+      .where(where)
+      .orderBy(asc(adjustmentPresets.market), asc(adjustmentPresets.name));
+  }
+
+  async listAdjustmentPresets(): Promise<AdjustmentPresetRecord[]> {
+    return this.selectPresets(eq(adjustmentPresets.archived, false));
+  }
+
+  async getAdjustmentPreset(id: number): Promise<AdjustmentPresetRecord | undefined> {
+    const [preset] = await this.selectPresets(eq(adjustmentPresets.id, id));
+    return preset;
+  }
+
+  async getAdjustmentPresetByName(name: string): Promise<AdjustmentPresetRecord | undefined> {
+    const [preset] = await this.selectPresets(
+      eq(sql`lower(${adjustmentPresets.name})`, name.toLowerCase()),
+    );
+    return preset;
+  }
+
+  async createAdjustmentPreset(insertPreset: InsertAdjustmentPreset): Promise<AdjustmentPresetRecord> {
+    const db = await this.db();
+    const { factors, model, note, createdBy, ...fields } = insertPreset;
+    const id = await db.transaction(async (tx) => {
+      const [preset] = await tx
+        .insert(adjustmentPresets)
+        .values({ ...fields, createdBy })
+        .returning({ id: adjustmentPresets.id });
+      await tx
+        .insert(adjustmentPresetVersions)
+        .values({ presetId: preset.id, version: 1, factors, model, note, createdBy });
+      return preset.id;
+    });
+    return (await this.getAdjustmentPreset(id))!;
+  }
+
+  async addAdjustmentPresetVersion(
+    id: number,
+    insertPreset: InsertAdjustmentPreset,
+  ): Promise<AdjustmentPresetRecord | undefined> {
+    const db = await this.db();
+    const { factors, model, note, createdBy, ...fields } = insertPreset;
+    const updated = await db.transaction(async (tx) => {
+      const [preset] = await tx
+        .update(adjustmentPresets)
+        .set({
+          ...fields,
+          currentVersion: sql`${adjustmentPresets.currentVersion} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(adjustmentPresets.id, id))
+        .returning({ version: adjustmentPresets.currentVersion });
+      if (!preset) return false;
+      await tx
+        .insert(adjustmentPresetVersions)
+        .values({ presetId: id, version: preset.version, factors, model, note, createdBy });
+      return true;
+    });
+    return updated ? this.getAdjustmentPreset(id) : undefined;
+  }
+
+  async archiveAdjustmentPreset(id: number): Promise<boolean> {
+    const db = await this.db();
+    const archived = await db
+      .update(adjustmentPresets)
+      .set({ archived: true, updatedAt: new Date() })
+      .where(eq(adjustmentPresets.id, id))
+      .returning({ id: adjustmentPresets.id });
+    return archived.length > 0;
+  }
+
+  async listAdjustmentPresetVersions(presetId: number): Promise<AdjustmentPresetVersionRecord[]> {
+    const db = await this.db();
+    return db
+      .select({
+        presetId: adjustmentPresetVersions.presetId,
+        version: adjustmentPresetVersions.version,
+        factors: adjustmentPresetVersions.factors,
+        model: adjustmentPresetVersions.model,
+        note: adjustmentPresetVersions.note,
+        createdBy: adjustmentPresetVersions.createdBy,
+        createdAt: adjustmentPresetVersions.createdAt,
+        createdByName: users.username,
+      })
+      .from(adjustmentPresetVersions)
+      .leftJoin(users, eq(adjustmentPresetVersions.createdBy, users.id))
+      .where(eq(adjustmentPresetVersions.presetId, presetId))
+      .orderBy(desc(adjustmentPresetVersions.version));
+  }
+
+  private async selectStoreLinks(where?: SQL): Promise<StoreIdentityLinkRecord[]> {
+    const db = await this.db();
+    return db
+      .select({
+        storeId: storeIdentityLinks.storeId,
+        storeName: storeIdentityLinks.storeName,
+        address: storeIdentityLinks.address,
+        city: storeIdentityLinks.city,
+        state: storeIdentityLinks.state,
+        zip: storeIdentityLinks.zip,
+        salesforceMatch: storeIdentityLinks.salesforceMatch,
+        yearBuilt: storeIdentityLinks.yearBuilt,
+        squareFootage: storeIdentityLinks.squareFootage,
+        facility: storeIdentityLinks.facility,
+        linkedBy: storeIdentityLinks.linkedBy,
+        createdAt: storeIdentityLinks.createdAt,
+        updatedAt: storeIdentityLinks.updatedAt,
+        linkedByName: users.username,
+      })
+      .from(storeIdentityLinks)
+      .leftJoin(users, eq(storeIdentityLinks.linkedBy, users.id))
+      .where(where)
+      .orderBy(asc(storeIdentityLinks.storeName));
+  }
+
+  async listStoreIdentityLinks(): Promise<StoreIdentityLinkRecord[]> {
+    return this.selectStoreLinks();
+  }
+
+  async getStoreIdentityLinks(storeIds: number[]): Promise<StoreIdentityLinkRecord[]> {
+    if (storeIds.length === 0) return [];
+    return this.selectStoreLinks(inArray(storeIdentityLinks.storeId, storeIds));
+  }
+
+  async saveStoreIdentityLink(insertLink: InsertStoreIdentityLink): Promise<StoreIdentityLinkRecord> {
+    const db = await this.db();
+    const { storeId, ...fields } = insertLink;
+    await db
+      .insert(storeIdentityLinks)
+      .values(insertLink)
+      .onConflictDoUpdate({
+        target: storeIdentityLinks.storeId,
+        set: { ...fields, updatedAt: new Date() },
+      });
+    const [link] = await this.getStoreIdentityLinks([storeId]);
+    return link;
+  }
+
+  async deleteStoreIdentityLink(storeId: number): Promise<boolean> {
+    const db = await this.db();
+    const deleted = await db
+      .delete(storeIdentityLinks)
+      .where(eq(storeIdentityLinks.storeId, storeId))
+      .returning({ storeId: storeIdentityLinks.storeId });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage()
+  : new MemStorage();
@@ -0,0 +1,269 @@
+import type {
+  Store,
+  RateRecord,
+  StoreSearchQuery,
+  HistoricalRatesQuery,
+} from "@shared/api";
+
+const STORTRACK_BASEURL = process.env.STORTRACK_BASEURL || "";
+const STORTRACK_USERNAME = process.env.STORTRACK_USERNAME || "";
+const STORTRACK_PASSWORD = process.env.STORTRACK_PASSWORD || "";
+
+// StorTrack payloads are loosely typed JSON; fields are read defensively below.
+type RawRecord = Record<string, unknown>;
+
+let cachedToken: string | null = null;
+let tokenExpiry: number = 0;
+
+async function getAuthToken(): Promise<string | null> {
+  if (cachedToken && Date.now() < tokenExpiry) {
+    return cachedToken;
+  }
+
+  const authUrl = `${STORTRACK_BASEURL.replace(/\/$/, "")}/authtoken`;
+
+  try {
+    const response = await fetch(authUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "password",
+        username: STORTRACK_USERNAME,
+        password: STORTRACK_PASSWORD,
+      }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const token = data.access_token || data.token;
+      if (token) {
+        cachedToken = `Bearer ${token}`;
+        tokenExpiry = Date.now() + 55 * 60 * 1000;
+        return cachedToken;
+      }
+    }
+    console.error(
+      "Auth token fetch failed:",
+      response.status,
+      await response.text(),
+    );
+  } catch (error) {
+    console.error("Auth token exception:", error);
+  }
+  return null;
+}
+
+function str(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function num(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toStore(raw: RawRecord, distance?: number): Store {
+  return {
+    storeId: num(raw.storeid || raw.id),
+    masterId: num(raw.masterid),
+    storeName: str(raw.storename || raw.name),
+    address: str(raw.address),
+    city: str(raw.city),
+    state: str(raw.state),
+    zip: str(raw.zip),
+    phone: raw.phone ? str(raw.phone) : null,
+    latitude: num(raw.latitude),
+    longitude: num(raw.longitude),
+    storeStatus: num(raw.storestatus),
+    distance: distance ?? num(raw.distance) ?? 0,
+  };
+}
+
+export async function findStoresByAddress(
+  params: Omit<StoreSearchQuery, "streetAddress">,
+): Promise<Store[]> {
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error("Failed to authenticate with StorTrack API");
+  }
+
+  const url = `${STORTRACK_BASEURL.replace(/\/$/, "")}/storesbyaddress`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      authorization: token,
+    },
+    body: JSON.stringify({
+      country: params.country || "United States",
+      state: params.state,
+      city: params.city,
+      zip: params.zip,
+      storename: params.storeName,
+      companyname: params.companyName,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Find stores failed:", response.status, errorText);
+    throw new Error(`StorTrack API error: ${response.status}`);
+  }
+
+  const result = await response.json();
+  const stores: RawRecord[] = result.stores || [];
+  return stores.map((store) => toStore(store));
+}
+
+export async function findCompetitors(params: {
+  storeId: number;
+  radius: number;
+}): Promise<{ subject: Store; competitors: Store[] }> {
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error("Failed to authenticate with StorTrack API");
+  }
+
+  const url = `${STORTRACK_BASEURL.replace(/\/$/, "")}/findcompetitors`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      authorization: token,
+    },
+    body: JSON.stringify({
+      storeid: [params.storeId],
+      masterid: [],
+      coveragezone: params.radius || 5.0,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Find competitors failed:", response.status, errorText);
+    throw new Error(`StorTrack API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const storeData: RawRecord = Array.isArray(data) ? data[0] : data;
+  if (!storeData) {
+    throw new Error(`StorTrack returned no data for store ${params.storeId}`);
+  }
+
+  const competitorsData = (storeData.competitorstores as RawRecord[]) || [];
+
+  return {
+    subject: toStore(storeData, 0),
+    competitors: competitorsData.map((comp) => toStore(comp)),
+  };
+}
+
+function toRateRecord(storeId: number, storeData: RawRecord, rate: RawRecord): RateRecord {
+  return {
+    storeId,
+    storeName: str(storeData.storename),
+    address: str(storeData.address),
+    city: str(storeData.city),
+    state: str(storeData.state),
+    zip: str(storeData.zip),
+    unitType: str(rate.spacetype || rate.unittype),
+    size: str(rate.size || rate.unitsize),
+    width: num(rate.width),
+    length: num(rate.length),
+    height: num(rate.height),
+    features: str(rate.features),
+    tag: str(rate.tag || rate.spacetype),
+    climateControlled: !!(rate.climate_controlled || rate.cc),
+    humidityControlled: !!rate.humidity_controlled,
+    driveUp: !!(rate.drive_up || rate.driveup),
+    elevator: !!rate.elevator,
+    outdoorAccess: !!rate.outdoor_access,
+    walkInPrice: num(rate.regular_rate || rate.regularrate || rate.rate),
+    onlinePrice: num(rate.online_rate || rate.onlinerate),
+    date: str(rate.date_collected || rate.datecollected || rate.date),
+    promo: str(rate.promo || rate.promotion),
+    source: "API",
+  };
+}
+
+/**
+ * Pulls historical rates for one store. Rate limits and transient upstream
+ * errors are retried after a wait, which can take minutes; `onRetry` reports
+ * each retry so background jobs can surface it.
+ */
+export async function fetchHistoricalData(
+  params: HistoricalRatesQuery,
+  options: { maxRetries?: number; onRetry?: (attempt: number, reason: string) => void } = {},
+): Promise<RateRecord[]> {
+  const { maxRetries = 3, onRetry } = options;
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error("Failed to authenticate with StorTrack API");
+  }
+
+  const url = `${STORTRACK_BASEURL.replace(/\/$/, "")}/historicaldata`;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    // Only network failures are retried from here; HTTP statuses are judged below,
+    // so a request StorTrack rejects outright fails at once
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          authorization: token,
+        },
+        body: JSON.stringify({
+          storeid: params.storeId,
+          masterid: 0,
+          from: params.from,
+          to: params.to,
+          requestyear: 0,
+        }),
+      });
+    } catch (error) {
+      if (attempt === maxRetries - 1) throw error;
+      onRetry?.(attempt + 1, error instanceof Error ? error.message : "Request failed; retrying");
+      await new Promise((r) => setTimeout(r, 2000 * (attempt + 1)));
+      continue;
+    }
+
+    if (response.ok) {
+      const result = await response.json();
+      const stores: RawRecord[] = Array.isArray(result) ? result : [result];
+      return stores.flatMap((storeData) => {
+        const rates = (storeData.rates || storeData.rateinfo || []) as RawRecord[];
+        return rates.map((rate) => toRateRecord(params.storeId, storeData, rate));
+      });
+    }
+
+    if (response.status === 429 && attempt < maxRetries - 1) {
+      console.warn(`Rate limited on attempt ${attempt + 1}, waiting...`);
+      onRetry?.(attempt + 1, "Rate limited by StorTrack; retrying in 60s");
+      await new Promise((r) => setTimeout(r, 60000));
+      continue;
+    }
+
+    if ([500, 503, 404].includes(response.status)) {
+      console.warn(`Got ${response.status} on attempt ${attempt + 1}`);
+      if (attempt < maxRetries - 1) {
+        onRetry?.(attempt + 1, `StorTrack returned ${response.status}; retrying`);
+        await new Promise((r) => setTimeout(r, 5000 * (attempt + 1)));
+        continue;
+      }
+    }
+
+    const errorText = await response.text();
+    console.error("Historical data failed:", response.status, errorText);
+    throw new Error(`StorTrack API error: ${response.status}`);
+  }
+
+  throw new Error("Max retries exceeded");
+}
@@ -0,0 +1,54 @@
+// Street addresses as Salesforce_rawData and StorTrack spell them for the same
+// facilities, plus near misses that must not be taken for one another.
+
+/** Raw address and what normalizeAddress should reduce it to. */
+export const NORMALIZED_ADDRESSES: [raw: string, normalized: string][] = [
+  ["1234 North Main Street, Suite 200", "1234 n main st"],
+  ["1234 N Main St Ste 200", "1234 n main st"],
+  ["500 West 5th Avenue #12", "500 w 5th ave"],
+  ["500 W Fifth Ave", "500 w 5th ave"],
+  ["12 Third Street Unit 4-A", "12 3rd st"],
+  ["4500 S Lamar Blvd Bldg B", "4500 s lamar blvd"],
+  ["789 Northwest Parkway", "789 nw pkwy"],
+  ["100 Main St.", "100 main st"],
+  // The state name is only abbreviated after the street
+  ["2100 E. Washington Ave, Madison, Wisconsin 53704", "2100 e washington ave madison wi 53704"],
+];
+
+/** The same facility written two ways; these should score as identical. */
+export const EQUIVALENT_ADDRESSES: { salesforce: string; stortrack: string; case: string }[] = [
+  { salesforce: "1234 North Main Street, Suite 200", stortrack: "1234 N Main St", case: "suite suffix" },
+  { salesforce: "4500 South Lamar Boulevard", stortrack: "4500 S Lamar Blvd Bldg B", case: "building suffix" },
+  { salesforce: "8800 Research Blvd Unit 3", stortrack: "8800 Research Boulevard", case: "unit suffix" },
+  { salesforce: "500 West 5th Avenue", stortrack: "500 W Fifth Ave", case: "ordinal street" },
+  { salesforce: "15 Tenth Street", stortrack: "15 10th St", case: "ordinal street" },
+  { salesforce: "1400 Northwest Expressway", stortrack: "1400 NW Expy", case: "directional" },
+  { salesforce: "2710 Southeast Loop 820", stortrack: "2710 SE Loop 820", case: "directional" },
+  { salesforce: "3030 Route 9", stortrack: "3030 Rte 9", case: "route" },
+];
+
+/** Different facilities whose addresses look alike, with the score each must stay under. */
+export const DISTINCT_ADDRESSES: { salesforce: string; stortrack: string; below: number; case: string }[] = [
+  { salesforce: "2201 S Congress Ave", stortrack: "2201 N Congress Ave", below: 1, case: "opposite directional" },
+  { salesforce: "1234 Main St", stortrack: "9876 Elm Rd", below: 0.3, case: "unrelated" },
+  { salesforce: "500 W 5th Ave", stortrack: "500 W 6th Ave", below: 1, case: "neighbouring ordinal" },
+];
+
+export const STATES: [raw: string, normalized: string][] = [
+  ["TX", "tx"],
+  ["Texas", "tx"],
+  [" ca ", "ca"],
+  ["west virginia", "wv"],
+  ["District of Columbia", "dc"],
+  ["Ontario", ""],
+  ["", ""],
+];
+
+export const POSTAL_CODES: [raw: string, normalized: string][] = [
+  ["78701", "78701"],
+  ["78701-1234", "78701"],
+  ["  02134 ", "02134"],
+  ["787", ""],
+  ["ABC", ""],
+  ["", ""],
+];
@@ -0,0 +1,182 @@
+import type { Store } from "./api";
+import type {
+  AdjustmentFactors,
+  AdjustmentModel,
+  AdjustmentOverride,
+  AppliedAdjustmentPreset,
+  RankingCategory,
+  SizeBucket,
+  StoreRankings,
+} from "./rca";
+import { RANKING_CATEGORIES } from "./rca";
+import { isClimateCode } from "./featureCodes";
+
+// Competitor rate adjustments: the Adjustments step factors (or an override's,
+// for matching grid cells) plus a weighted ranking difference against the
+// subject store, optionally bounded. The CC adjustment only reaches
+// climate-controlled cells unless an override sets it for others.
+
+// Equal weights at 1% per point, unbounded: the original fixed model
+export const DEFAULT_ADJUSTMENT_MODEL: AdjustmentModel = {
+  weights: Object.fromEntries(RANKING_CATEGORIES.map((category) => [category, 1])) as Record<RankingCategory, number>,
+  pointPercent: 1,
+  floorPercent: null,
+  capPercent: null,
+  overrides: [],
+};
+
+// Rankings left blank count as the midpoint of the 1-10 scale
+const UNRANKED_SCORE = 5;
+
+export interface AdjustmentInput {
+  subjectStore: Store | null;
+  storeRankings: Record<number, StoreRankings>;
+  adjustmentFactors: AdjustmentFactors;
+  adjustmentModel: AdjustmentModel;
+}
+
+// The grid cell an adjustment is for, which overrides are matched against
+export interface AdjustmentScope {
+  featureCode: string;
+  sizeBucket: SizeBucket;
+}
+
+export interface CategoryContribution {
+  category: RankingCategory;
+  subject: number;
+  competitor: number;
+  weight: number;
+  // Share of the ranking adjustment from this category, in percent
+  percent: number;
+}
+
+/** How one store's adjustment was derived; all amounts in percent. */
+export interface AdjustmentBreakdown {
+  storeId: number;
+  // "unranked" when the subject or this competitor has no rankings yet
+  basis: "subject" | "unranked" | "rankings";
+  factorsPercent: number;
+  categories: CategoryContribution[];
+  rankingPercent: number;
+  unboundedPercent: number;
+  percent: number;
+  bound: "floor" | "cap" | null;
+  // The override whose factors were used instead of the step's, if any
+  override: AdjustmentOverride | null;
+}
+
+// Sum of the Adjustments step factors, in percent
+export function totalAdjustment(factors: AdjustmentFactors): number {
+  return (factors.captiveMarketPremium || 0) + (factors.lossToLease || 0) + (factors.ccAdj || 0);
+}
+
+// e.g. "Urban infill v3 (modified)" for exports that record where the numbers came from
+export function describeAdjustmentPreset(preset: AppliedAdjustmentPreset | null | undefined): string {
+  if (!preset) return "None";
+  return `${preset.name} v${preset.version}${preset.modified ? " (modified)" : ""}`;
+}
+
+/** First override covering the cell; without a scope (store-level summaries) none apply. */
+export function matchOverride(model: AdjustmentModel, scope?: AdjustmentScope): AdjustmentOverride | null {
+  if (!scope) return null;
+  const code = scope.featureCode.toUpperCase();
+  return (
+    model.overrides.find(
+      (override) =>
+        (override.featureCodes.length === 0 || override.featureCodes.some((c) => c.toUpperCase() === code)) &&
+        (override.sizeBuckets.length === 0 || override.sizeBuckets.includes(scope.sizeBucket)),
+    ) ?? null
+  );
+}
+
+// Factors an override leaves unset keep the step's value
+function overriddenFactors(factors: AdjustmentFactors, override: AdjustmentOverride | null): AdjustmentFactors {
+  if (!override) return factors;
+  const set = Object.entries(override.factors).filter(([, value]) => typeof value === "number");
+  return { ...factors, ...Object.fromEntries(set) };
+}
+
+// Store-level summaries (no scope) show the CC adjustment as a climate-controlled cell would get it
+function cellFactors(
+  factors: AdjustmentFactors,
+  override: AdjustmentOverride | null,
+  scope: AdjustmentScope | undefined,
+): AdjustmentFactors {
+  const cell = overriddenFactors(factors, override);
+  if (!scope || isClimateCode(scope.featureCode) || typeof override?.factors.ccAdj === "number") return cell;
+  return { ...cell, ccAdj: 0 };
+}
+
+export type PartialAdjustmentModel = Partial<Omit<AdjustmentModel, "weights">> & {
+  weights?: Partial<AdjustmentModel["weights"]>;
+};
+
+/** Fills in anything missing, e.g. analyses saved before the model was configurable. */
+export function resolveAdjustmentModel(model?: PartialAdjustmentModel | null): AdjustmentModel {
+  return {
+    ...DEFAULT_ADJUSTMENT_MODEL,
+    ...model,
+    weights: { ...DEFAULT_ADJUSTMENT_MODEL.weights, ...model?.weights },
+    overrides: model?.overrides ?? [],
+  };
+}
+
+export function explainAdjustment(storeId: number, input: AdjustmentInput, scope?: AdjustmentScope): AdjustmentBreakdown {
+  const { subjectStore, storeRankings } = input;
+  const model = resolveAdjustmentModel(input.adjustmentModel);
+  const override = matchOverride(model, scope);
+  const factorsPercent = totalAdjustment(cellFactors(input.adjustmentFactors, override, scope));
+
+  const result = (
+    basis: AdjustmentBreakdown["basis"],
+    categories: CategoryContribution[],
+    rankingPercent: number,
+  ): AdjustmentBreakdown => {
+    if (basis === "subject") {
+      return {
+        storeId,
+        basis,
+        factorsPercent,
+        categories,
+        rankingPercent,
+        unboundedPercent: 0,
+        percent: 0,
+        bound: null,
+        override: null,
+      };
+    }
+    const unboundedPercent = factorsPercent + rankingPercent;
+    let percent = unboundedPercent;
+    let bound: AdjustmentBreakdown["bound"] = null;
+    if (model.floorPercent !== null && percent < model.floorPercent) {
+      percent = model.floorPercent;
+      bound = "floor";
+    } else if (model.capPercent !== null && percent > model.capPercent) {
+      percent = model.capPercent;
+      bound = "cap";
+    }
+    return { storeId, basis, factorsPercent, categories, rankingPercent, unboundedPercent, percent, bound, override };
+  };
+
+  if (!subjectStore || storeId === subjectStore.storeId) return result("subject", [], 0);
+
+  const subjectRankings = storeRankings[subjectStore.storeId];
+  const compRankings = storeRankings[storeId];
+  if (!subjectRankings || !compRankings) return result("unranked", [], 0);
+
+  const totalWeight = RANKING_CATEGORIES.reduce((sum, category) => sum + Math.max(0, model.weights[category] || 0), 0);
+  const categories = RANKING_CATEGORIES.map((category) => {
+    const subject = subjectRankings[category] || UNRANKED_SCORE;
+    const competitor = compRankings[category] || UNRANKED_SCORE;
+    const weight = Math.max(0, model.weights[category] || 0);
+    const percent = totalWeight > 0 ? ((subject - competitor) * weight * model.pointPercent) / totalWeight : 0;
+    return { category, subject, competitor, weight, percent };
+  });
+
+  return result("rankings", categories, categories.reduce((sum, category) => sum + category.percent, 0));
+}
+
+/** The adjustment applied to a store's asking rates, as a fraction (0.05 = +5%). */
+export function storeAdjustment(storeId: number, input: AdjustmentInput, scope?: AdjustmentScope): number {
+  return explainAdjustment(storeId, input, scope).percent / 100;
+}
@@ -0,0 +1,604 @@
+import { z } from "zod";
+import {
+  MANAGEMENT_TYPES,
+  METADATA_SOURCES,
+  RANKING_CATEGORIES,
+  SIZE_BUCKETS,
+  type AdjustmentFactors,
+  type AdjustmentModel,
+  type FacilityAttributes,
+} from "./rca";
+
+// --- Domain records shared by the server and the client ---
+
+export const facilityAttributesSchema = z.object({
+  unitCount: z.number().int().positive().nullable(),
+  stories: z.number().int().positive().nullable(),
+  climateControlledPercent: z.number().min(0).max(100).nullable(),
+  occupancyPercent: z.number().min(0).max(100).nullable(),
+  gateHours: z.string().trim().max(100).nullable(),
+  managementType: z.enum(MANAGEMENT_TYPES).nullable(),
+});
+
+export const storeSchema = z.object({
+  storeId: z.number().int(),
+  masterId: z.number().int().nullish(),
+  storeName: z.string(),
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  phone: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  storeStatus: z.number().nullish(),
+  distance: z.number().nullish(),
+  // Only store info lookups fill this in
+  facility: facilityAttributesSchema.nullish(),
+});
+
+export type Store = z.infer<typeof storeSchema>;
+
+export const rateRecordSchema = z.object({
+  storeId: z.number().int(),
+  storeName: z.string(),
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  distance: z.number().nullish(),
+  unitType: z.string(),
+  size: z.string(),
+  width: z.number().nullish(),
+  length: z.number().nullish(),
+  height: z.number().nullish(),
+  features: z.string(),
+  tag: z.string(),
+  climateControlled: z.boolean(),
+  humidityControlled: z.boolean(),
+  driveUp: z.boolean(),
+  elevator: z.boolean(),
+  outdoorAccess: z.boolean(),
+  walkInPrice: z.number().nullish(),
+  onlinePrice: z.number().nullish(),
+  pctDifference: z.number().nullish(),
+  date: z.string(),
+  promo: z.string(),
+  source: z.enum(["Database", "API"]),
+});
+
+export type RateRecord = z.infer<typeof rateRecordSchema>;
+
+// Salesforce match from fuzzy matching (like RCA_template.py)
+export const salesforceMatchSchema = z.object({
+  Name: z.string(),
+  Year_Built__c: z.union([z.string(), z.number()]).nullable(),
+  Net_RSF__c: z.union([z.string(), z.number()]).nullable(),
+  ShippingAddress: z.string().nullable(),
+  // Facility attributes; absent when Salesforce_rawData lacks the columns
+  Unit_Count__c: z.union([z.string(), z.number()]).nullish(),
+  Stories__c: z.union([z.string(), z.number()]).nullish(),
+  Climate_Controlled_Pct__c: z.union([z.string(), z.number()]).nullish(),
+  Occupancy__c: z.union([z.string(), z.number()]).nullish(),
+  Gate_Hours__c: z.string().nullish(),
+  Management_Type__c: z.string().nullish(),
+  nameScore: z.number(),
+  addressScore: z.number(),
+  combinedScore: z.number(),
+  parsedStoreName: z.string(),
+  parsedAddress: z.string(),
+  // Location from ShippingAddress; scores are null when either side lacks the
+  // component, and older saved matches have none of these
+  cityScore: z.number().nullish(),
+  postalCodeScore: z.number().nullish(),
+  parsedCity: z.string().nullish(),
+  parsedState: z.string().nullish(),
+  parsedPostalCode: z.string().nullish(),
+});
+
+export type SalesforceMatch = z.infer<typeof salesforceMatchSchema>;
+
+/** Relative weight of each component in a match's combined score. */
+export const salesforceMatchWeightsSchema = z
+  .object({
+    name: z.number().nonnegative(),
+    street: z.number().nonnegative(),
+    city: z.number().nonnegative(),
+    postalCode: z.number().nonnegative(),
+  })
+  .refine((w) => w.name + w.street + w.city + w.postalCode > 0, "at least one weight must be positive");
+
+export type SalesforceMatchWeights = z.infer<typeof salesforceMatchWeightsSchema>;
+
+export const salesforceMetadataSchema = z.object({
+  yearBuilt: z.number().nullable(),
+  squareFootage: z.number().nullable(),
+  unitCount: z.number().nullish(),
+  stories: z.number().nullish(),
+  climateControlledPercent: z.number().nullish(),
+  occupancyPercent: z.number().nullish(),
+  gateHours: z.string().nullish(),
+  managementType: z.enum(MANAGEMENT_TYPES).nullish(),
+  matched: z.boolean(),
+  matchScore: z.number().optional(),
+});
+
+export type SalesforceMetadata = z.infer<typeof salesforceMetadataSchema>;
+
+/** Year_Built__c is free text in Salesforce; only plausible years are kept. */
+export function parseYearBuilt(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseInt(String(value), 10);
+  return !isNaN(parsed) && parsed >= 1900 && parsed <= 2030 ? parsed : null;
+}
+
+export function parseSquareFootage(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseFloat(String(value));
+  return !isNaN(parsed) && parsed > 0 ? parsed : null;
+}
+
+// --- Roles ---
+
+// Ordered from least to most privileged; each role can do everything the
+// roles before it can.
+export const USER_ROLES = ["viewer", "analyst", "admin"] as const;
+
+export const userRoleSchema = z.enum(USER_ROLES);
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+// --- Request schemas (query strings arrive as strings, hence coercion) ---
+
+const storeIdList = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value.split(",").map((id) => id.trim()).filter(Boolean)
+      : value,
+  z.array(z.coerce.number().int().positive()).min(1, "storeIds is required"),
+);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const storeIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const storeSearchQuerySchema = z.object({
+  // Not sent to StorTrack; results are ranked by similarity to it
+  streetAddress: z.string().default(""),
+  country: z.string().default("United States"),
+  state: z.string().default(""),
+  city: z.string().default(""),
+  zip: z.string().default(""),
+  storeName: z.string().default(""),
+  companyName: z.string().default(""),
+});
+
+export type StoreSearchQuery = z.infer<typeof storeSearchQuerySchema>;
+
+export const storeSearchResultSchema = storeSchema.extend({
+  // 0-1 similarity of the store's street address to the one searched; null without one
+  addressScore: z.number().nullable(),
+});
+
+export type StoreSearchResult = z.infer<typeof storeSearchResultSchema>;
+
+export const competitorsQuerySchema = z.object({
+  radius: z.coerce.number().positive().max(50).default(5),
+});
+
+export const storeInfoQuerySchema = z.object({
+  storeIds: storeIdList,
+});
+
+export const historicalRatesQuerySchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  from: isoDate,
+  to: isoDate,
+});
+
+export type HistoricalRatesQuery = z.infer<typeof historicalRatesQuerySchema>;
+
+export const dateRangeSchema = z
+  .object({ from: isoDate, to: isoDate })
+  .refine((range) => range.from <= range.to, "Range must not end before it starts");
+
+export type DateRange = z.infer<typeof dateRangeSchema>;
+
+export const COLLECTION_CADENCES = ["daily", "weekly", "monthly"] as const;
+
+export const collectionCadenceSchema = z.enum(COLLECTION_CADENCES);
+
+/** How often the rate database is expected to hold a collection for a store. */
+export type CollectionCadence = z.infer<typeof collectionCadenceSchema>;
+
+export const historicalPriceTableSchema = z.object({
+  /** Price of one calendar year of history for one store. */
+  perStoreYear: z.number().nonnegative(),
+  /** Per-year overrides keyed by calendar year, e.g. `{ "2021": 20 }`. */
+  byYear: z.record(z.string().regex(/^\d{4}$/), z.number().nonnegative()).default({}),
+});
+
+export type HistoricalPriceTable = z.infer<typeof historicalPriceTableSchema>;
+
+export const gapSettingsSchema = z.object({
+  cadence: collectionCadenceSchema,
+  priceTable: historicalPriceTableSchema,
+});
+
+export type GapSettings = z.infer<typeof gapSettingsSchema>;
+
+export const historicalFillRequestSchema = z.object({
+  stores: z
+    .array(
+      z.object({
+        storeId: z.number().int().positive(),
+        ranges: z.array(dateRangeSchema).min(1).max(366),
+      }),
+    )
+    .min(1)
+    .max(50),
+});
+
+export type HistoricalFillRequest = z.infer<typeof historicalFillRequestSchema>;
+
+export const trailingRatesQuerySchema = z.object({
+  storeIds: storeIdList,
+  fromDate: isoDate.optional(),
+  toDate: isoDate.optional(),
+});
+
+export type TrailingRatesQuery = z.infer<typeof trailingRatesQuerySchema>;
+
+export const latestRatesQuerySchema = z.object({
+  storeIds: storeIdList,
+  daysBack: z.coerce.number().int().min(1).max(3650).default(7),
+});
+
+export type LatestRatesQuery = z.infer<typeof latestRatesQuerySchema>;
+
+export const salesforceAddressQuerySchema = z.object({
+  street: z.string().default(""),
+  city: z.string().default(""),
+  state: z.string().default(""),
+  postalCode: z.string().default(""),
+  storeName: z.string().optional(),
+});
+
+export type SalesforceAddressQuery = z.infer<typeof salesforceAddressQuerySchema>;
+
+export const salesforceNameQuerySchema = z.object({
+  name: z.string().trim().min(1, "name is required"),
+});
+
+export const mcpSitesQuerySchema = z.object({
+  state: z.string().optional(),
+  city: z.string().optional(),
+});
+
+export const mcpTableQuerySchema = z.object({
+  database: z.string(),
+  table: z.string(),
+  filters: z
+    .record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+    .optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "username is required"),
+  password: z.string().min(1, "password is required"),
+});
+
+export const registerSchema = z.object({
+  username: z.string().trim().min(3).max(50),
+  email: z.string().trim().email(),
+  password: z.string().min(8, "password must be at least 8 characters"),
+});
+
+export const userIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const userRoleUpdateSchema = z.object({
+  role: userRoleSchema,
+});
+
+export const analysisIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const analysisListQuerySchema = z.object({
+  archived: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+});
+
+export const analysisInputSchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(200),
+  currentStep: z.number().int().min(1).max(10),
+  state: z.record(z.unknown()),
+});
+
+export type AnalysisInput = z.infer<typeof analysisInputSchema>;
+
+export const analysisShareSchema = z.object({
+  username: z.string().trim().min(1, "username is required"),
+});
+
+export const analysisShareParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  userId: z.coerce.number().int().positive(),
+});
+
+export const analysisUpdateSchema = analysisInputSchema
+  .extend({ archived: z.boolean() })
+  .partial();
+
+export type AnalysisUpdate = z.infer<typeof analysisUpdateSchema>;
+
+// Unit sizes for the PDF report's rate tables, comma-separated like storeIds
+export const analysisReportQuerySchema = z.object({
+  sizes: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value.split(",").map((size) => size.trim()).filter(Boolean)
+        : value,
+    z.array(z.string().max(20)).min(1).max(50).optional(),
+  ),
+});
+
+// --- Metadata provenance ---
+
+export const metadataProvenanceSchema = z.object({
+  source: z.enum(METADATA_SOURCES),
+  matchScore: z.number().nullable().default(null),
+  user: z.string().nullable().default(null),
+  recordedAt: z.string(),
+});
+
+// --- Trade areas ---
+
+export const latLngSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const tradeAreaSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("radius") }),
+  z.object({ kind: z.literal("rings"), edges: z.array(z.number().positive().max(100)).max(10) }),
+  z.object({ kind: z.literal("polygon"), points: z.array(latLngSchema).max(200) }),
+]);
+
+// --- Adjustment presets ---
+
+export const adjustmentFactorsSchema = z.object({
+  captiveMarketPremium: z.number().min(-100).max(100).default(0),
+  lossToLease: z.number().min(-100).max(100).default(0),
+  ccAdj: z.number().min(-100).max(100).default(0),
+});
+
+export const adjustmentOverrideSchema = z.object({
+  id: z.string().min(1).max(50),
+  label: z.string().trim().max(100).default(""),
+  featureCodes: z.array(z.string().trim().min(1).max(20)).max(50).default([]),
+  sizeBuckets: z.array(z.enum(SIZE_BUCKETS)).default([]),
+  // Only the factors being replaced
+  factors: adjustmentFactorsSchema.partial().default({}),
+});
+
+// Categories left out of `weights` keep their default weight
+export const adjustmentModelSchema = z
+  .object({
+    weights: z.record(z.enum(RANKING_CATEGORIES), z.number().min(0).max(100)).default({}),
+    pointPercent: z.number().min(0).max(100).default(1),
+    floorPercent: z.number().min(-100).max(100).nullable().default(null),
+    capPercent: z.number().min(-100).max(100).nullable().default(null),
+    overrides: z.array(adjustmentOverrideSchema).max(50).default([]),
+  })
+  .refine(
+    ({ floorPercent, capPercent }) => floorPercent === null || capPercent === null || floorPercent <= capPercent,
+    { message: "floor must not be above cap", path: ["floorPercent"] },
+  );
+
+export const adjustmentPresetIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const adjustmentPresetInputSchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(100),
+  description: z.string().trim().max(500).default(""),
+  // e.g. "Austin, TX"; empty means the preset is not tied to a market
+  market: z
+    .string()
+    .trim()
+    .max(100)
+    .nullish()
+    .transform((market) => market || null),
+  factors: adjustmentFactorsSchema,
+  model: adjustmentModelSchema.default({}),
+  // What changed in this version
+  note: z.string().trim().max(300).default(""),
+});
+
+export type AdjustmentPresetInput = z.input<typeof adjustmentPresetInputSchema>;
+
+export const storeIdentityLinksQuerySchema = z.object({
+  storeIds: storeIdList,
+});
+
+export const storeIdentityLinkInputSchema = z.object({
+  storeName: z.string().trim().min(1, "storeName is required"),
+  address: z.string().default(""),
+  city: z.string().default(""),
+  state: z.string().default(""),
+  zip: z.string().default(""),
+  // Null records that no Salesforce record matches
+  salesforceMatch: salesforceMatchSchema.nullable(),
+  yearBuilt: z.number().int().min(1800).max(2100).nullable(),
+  squareFootage: z.number().positive().nullable(),
+  facility: facilityAttributesSchema.nullable(),
+});
+
+export type StoreIdentityLinkInput = z.input<typeof storeIdentityLinkInputSchema>;
+
+// --- Response schemas ---
+
+export const competitorsResponseSchema = z.object({
+  subject: storeSchema,
+  competitors: z.array(storeSchema),
+});
+
+export type CompetitorsResponse = z.infer<typeof competitorsResponseSchema>;
+
+export const trailingRatesResponseSchema = z.object({
+  ratesByStore: z.record(z.array(rateRecordSchema)),
+  datesByStore: z.record(z.array(z.string())),
+});
+
+export type TrailingRatesResponse = z.infer<typeof trailingRatesResponseSchema>;
+
+export const historicalFillStoreResultSchema = z.object({
+  storeId: z.number().int(),
+  ranges: z.array(dateRangeSchema),
+  recordCount: z.number().int(),
+  /** Billed cost; ranges served from the response cache are free. */
+  cost: z.number(),
+  error: z.string().nullable(),
+});
+
+export type HistoricalFillStoreResult = z.infer<typeof historicalFillStoreResultSchema>;
+
+export const historicalFillResponseSchema = z.object({
+  records: z.array(rateRecordSchema),
+  stores: z.array(historicalFillStoreResultSchema),
+  actualCost: z.number(),
+});
+
+export type HistoricalFillResponse = z.infer<typeof historicalFillResponseSchema>;
+
+// --- Background jobs ---
+
+export const JOB_TYPES = ["historicalFill"] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export function isJobFinished(status: JobStatus): boolean {
+  return status === "succeeded" || status === "failed";
+}
+
+export const jobIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/** Per-store progress of a historical pull. */
+export type JobStoreProgress = {
+  storeId: number;
+  status: "pending" | "running" | "retrying" | "done" | "failed";
+  completedRanges: number;
+  totalRanges: number;
+  recordCount: number;
+  retries: number;
+  error: string | null;
+};
+
+/** A background job as sent to the client; dates are ISO strings. */
+export type BackgroundJob = {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  progress: JobStoreProgress[];
+  result: HistoricalFillResponse | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** The signed-in user as exposed to the client (never includes credentials). */
+export type AuthUser = {
+  id: number;
+  username: string;
+  email: string;
+  role: UserRole;
+};
+
+/** A saved analysis as it arrives over the wire (timestamps are ISO strings). */
+export type SavedAnalysis = {
+  id: number;
+  name: string;
+  currentStep: number;
+  state: Record<string, unknown>;
+  subjectStoreName: string | null;
+  competitorCount: number;
+  archived: boolean;
+  ownerId: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Dashboard row: everything but the state blob, plus the owner's username. */
+export type AnalysisSummary = Omit<SavedAnalysis, "state"> & {
+  ownerName: string | null;
+};
+
+export type AnalysisShareEntry = {
+  userId: number;
+  username: string;
+};
+
+/** A named set of adjustment assumptions at its latest version. */
+export type AdjustmentPreset = {
+  id: number;
+  name: string;
+  description: string;
+  market: string | null;
+  version: number;
+  factors: AdjustmentFactors;
+  model: AdjustmentModel;
+  createdBy: number | null;
+  updatedByName: string | null;
+  updatedAt: string;
+};
+
+export type AdjustmentPresetVersion = {
+  presetId: number;
+  version: number;
+  factors: AdjustmentFactors;
+  model: AdjustmentModel;
+  note: string;
+  createdByName: string | null;
+  createdAt: string;
+};
+
+/** A store's confirmed Salesforce record, or a manual entry when none matches. */
+export type StoreIdentityLink = {
+  storeId: number;
+  storeName: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  salesforceMatch: SalesforceMatch | null;
+  yearBuilt: number | null;
+  squareFootage: number | null;
+  // Null on links saved before facility attributes were recorded
+  facility: FacilityAttributes | null;
+  linkedByName: string | null;
+  updatedAt: string;
+};
+
+export type ApiSuccess<T> = { success: true; data: T };
+
+export type ApiFailure = {
+  success: false;
+  error: string;
+  code?: string;
+  details?: Record<string, unknown>;
+};
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure;
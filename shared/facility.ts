@@ -0,0 +1,176 @@
+import type { SalesforceMatch } from "./api";
+import type { FacilityAttributes, ManagementType, RankingCategory, StoreMetadata } from "./rca";
+
+// Facility attributes beyond Year Built and NRSF: parsed from Salesforce
+// records, edited on the Metadata step and turned into ranking suggestions on
+// the Rankings step.
+
+export const EMPTY_FACILITY: FacilityAttributes = {
+  unitCount: null,
+  stories: null,
+  climateControlledPercent: null,
+  occupancyPercent: null,
+  gateHours: null,
+  managementType: null,
+};
+
+export const MANAGEMENT_TYPE_LABELS: Record<ManagementType, string> = {
+  reit: "REIT",
+  operator: "Operator-managed",
+  independent: "Independent",
+};
+
+/** The facility attributes of `metadata`, with null for any it leaves out. */
+export function pickFacility(metadata: Partial<FacilityAttributes>): FacilityAttributes {
+  return {
+    unitCount: metadata.unitCount ?? null,
+    stories: metadata.stories ?? null,
+    climateControlledPercent: metadata.climateControlledPercent ?? null,
+    occupancyPercent: metadata.occupancyPercent ?? null,
+    gateHours: metadata.gateHours ?? null,
+    managementType: metadata.managementType ?? null,
+  };
+}
+
+function parseCount(value: unknown, max: number): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseInt(String(value).replace(/,/g, ""), 10);
+  return !isNaN(parsed) && parsed > 0 && parsed <= max ? parsed : null;
+}
+
+// Salesforce percent fields hold 0-100, so "87%" and 87 both mean 87 percent.
+// A fraction like 0.87 is read as 0.87 percent, never rescaled by its size.
+function parsePercent(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseFloat(String(value).replace("%", ""));
+  return !isNaN(parsed) && parsed >= 0 && parsed <= 100 ? Math.round(parsed * 10) / 10 : null;
+}
+
+function parseManagementType(value: unknown): ManagementType | null {
+  const text = String(value ?? "").toLowerCase();
+  if (!text) return null;
+  if (text.includes("reit")) return "reit";
+  if (/operator|third|3rd|managed|management/.test(text)) return "operator";
+  if (/independent|owner|private/.test(text)) return "independent";
+  return null;
+}
+
+/** Facility attributes from raw column values; null where a value is missing or implausible. */
+export function parseFacilityValues(values: Partial<Record<keyof FacilityAttributes, unknown>>): FacilityAttributes {
+  return {
+    unitCount: parseCount(values.unitCount, 10000),
+    stories: parseCount(values.stories, 20),
+    climateControlledPercent: parsePercent(values.climateControlledPercent),
+    occupancyPercent: parsePercent(values.occupancyPercent),
+    gateHours: String(values.gateHours ?? "").trim() || null,
+    managementType: parseManagementType(values.managementType),
+  };
+}
+
+/** Facility attributes from a Salesforce record. */
+export function parseFacilityAttributes(
+  match: Pick<
+    SalesforceMatch,
+    | "Unit_Count__c"
+    | "Stories__c"
+    | "Climate_Controlled_Pct__c"
+    | "Occupancy__c"
+    | "Gate_Hours__c"
+    | "Management_Type__c"
+  >,
+): FacilityAttributes {
+  return parseFacilityValues({
+    unitCount: match.Unit_Count__c,
+    stories: match.Stories__c,
+    climateControlledPercent: match.Climate_Controlled_Pct__c,
+    occupancyPercent: match.Occupancy__c,
+    gateHours: match.Gate_Hours__c,
+    managementType: match.Management_Type__c,
+  });
+}
+
+// "9", "9am", "9:30 PM" to hours after midnight
+function parseClockTime(text: string): number | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a|p)?$/.exec(text.trim().toLowerCase().replace(/\./g, ""));
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (hours > 24 || minutes >= 60) return null;
+  if (match[3]?.startsWith("p") && hours < 12) hours += 12;
+  if (match[3]?.startsWith("a") && hours === 12) hours = 0;
+  return hours + minutes / 60;
+}
+
+/** Hours the gate is open per day, from text like "6am-10pm" or "24/7"; null when unreadable. */
+export function gateHoursPerDay(gateHours: string | null | undefined): number | null {
+  const text = (gateHours ?? "").toLowerCase();
+  if (!text.trim()) return null;
+  if (/24\s*(\/\s*7|hours?|hrs?|h\b)/.test(text)) return 24;
+  const [from, to] = text.split(/\s*(?:-|–|to)\s*/);
+  if (to === undefined) return null;
+  const open = parseClockTime(from);
+  let close = parseClockTime(to);
+  if (open === null || close === null) return null;
+  // "7-7" means 7am to 7pm
+  if (close <= open && close < 12 && !/[ap]/.test(to)) close += 12;
+  const hours = close > open ? close - open : close + 24 - open;
+  return Math.round(hours * 10) / 10;
+}
+
+export interface RankingSuggestion {
+  category: RankingCategory;
+  value: number;
+  // Shown next to the suggestion, e.g. "Gate open 16h a day"
+  reason: string;
+}
+
+// Thresholds are checked in order; the first one met gives the ranking
+function rankBy(value: number, steps: [threshold: number, ranking: number][], fallback: number): number {
+  return steps.find(([threshold]) => value >= threshold)?.[1] ?? fallback;
+}
+
+/**
+ * Rankings the facility attributes point to, for categories the analyst
+ * otherwise scores by hand. Only attributes that are set produce one.
+ */
+export function suggestRankings(metadata: StoreMetadata | undefined): RankingSuggestion[] {
+  if (!metadata) return [];
+  const suggestions: RankingSuggestion[] = [];
+
+  const hours = gateHoursPerDay(metadata.gateHours);
+  if (hours !== null) {
+    suggestions.push({
+      category: "Accessibility",
+      value: rankBy(hours, [[24, 10], [18, 8], [16, 7], [14, 6]], 5),
+      reason: hours === 24 ? "Gate open 24 hours" : `Gate open ${hours}h a day`,
+    });
+  }
+
+  if (metadata.managementType) {
+    const rankings: Record<ManagementType, number> = { reit: 9, operator: 7, independent: 5 };
+    suggestions.push({
+      category: "Brand",
+      value: rankings[metadata.managementType],
+      reason: MANAGEMENT_TYPE_LABELS[metadata.managementType],
+    });
+  }
+
+  if (typeof metadata.climateControlledPercent === "number") {
+    suggestions.push({
+      category: "Quality",
+      value: rankBy(metadata.climateControlledPercent, [[75, 9], [50, 8], [25, 7], [1, 6]], 5),
+      reason: `${metadata.climateControlledPercent}% climate controlled`,
+    });
+  }
+
+  // Sustained high occupancy is the market's verdict on the site
+  if (typeof metadata.occupancyPercent === "number") {
+    suggestions.push({
+      category: "Location",
+      value: rankBy(metadata.occupancyPercent, [[95, 10], [90, 9], [85, 8], [80, 7], [75, 6]], 5),
+      reason: `${metadata.occupancyPercent}% occupied`,
+    });
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,102 @@
+import type { RateRecord } from "./api";
+import type { FeatureCode } from "./rca";
+
+// Codes offered on the Feature Codes step; analysts may also type their own
+export const STANDARD_FEATURE_CODES = [
+  { code: "GLCC", label: "Ground Level Climate Controlled", climate: true },
+  { code: "GNCC", label: "Ground Level Non-Climate Controlled", climate: false },
+  { code: "ECC", label: "Elevator Climate Controlled", climate: true },
+  { code: "ENCC", label: "Elevator Non-Climate Controlled", climate: false },
+  { code: "DUCC", label: "Drive-Up Climate Controlled", climate: true },
+  { code: "DU", label: "Drive-Up (Non-Climate)", climate: false },
+  { code: "ICC", label: "Interior Climate Controlled", climate: true },
+  { code: "INCC", label: "Interior Non-Climate Controlled", climate: false },
+  { code: "CC", label: "Climate Controlled (generic)", climate: true },
+  { code: "NCC", label: "Non-Climate Controlled (generic)", climate: false },
+];
+
+/** Whether a feature code is for climate-controlled units; custom codes count when they end in CC but not NCC. */
+export function isClimateCode(code: string): boolean {
+  const upper = code.trim().toUpperCase();
+  const standard = STANDARD_FEATURE_CODES.find((fc) => fc.code === upper);
+  if (standard) return standard.climate;
+  return upper.endsWith("CC") && !upper.endsWith("NCC");
+}
+
+// Build a tag classification string from record features (matches RCA_script.py logic)
+export function buildTagFromRecord(record: RateRecord): string {
+  const parts: string[] = [];
+
+  // Add access type
+  if (record.driveUp) {
+    parts.push("Drive-Up");
+  } else if (record.elevator) {
+    parts.push("Elevator");
+  } else if (record.outdoorAccess) {
+    parts.push("Outdoor");
+  } else {
+    parts.push("Ground Level");
+  }
+
+  // Add climate info
+  if (record.climateControlled) {
+    parts.push("Climate Controlled");
+  } else if (record.humidityControlled) {
+    parts.push("Humidity Controlled");
+  } else {
+    parts.push("Non-Climate");
+  }
+
+  // Fallback to existing tag or unitType if no features
+  if (parts.length === 0) {
+    return record.tag || record.unitType || "Standard";
+  }
+
+  return parts.join(" / ");
+}
+
+// Suggest feature code based on tag text (matches RCA_script.py suggest_feature_code)
+export function suggestFeatureCode(featureText: string): string {
+  if (!featureText) return "UNKNOWN";
+
+  const lower = featureText.toLowerCase();
+
+  // Check for climate control
+  const isClimate = lower.includes("climate") && !lower.includes("non-climate");
+
+  // Check for access type
+  const isDriveUp = lower.includes("drive");
+  const isElevator = lower.includes("elevator");
+  const isGround = lower.includes("ground") || lower.includes("first floor");
+  const isInterior = lower.includes("interior");
+  const isOutdoor = lower.includes("outdoor");
+
+  // Determine code based on access type + climate
+  if (isDriveUp) {
+    return isClimate ? "DUCC" : "DU";
+  } else if (isElevator) {
+    return isClimate ? "ECC" : "ENCC";
+  } else if (isGround) {
+    return isClimate ? "GLCC" : "GNCC";
+  } else if (isInterior) {
+    return isClimate ? "ICC" : "INCC";
+  } else if (isOutdoor) {
+    return isClimate ? "OCC" : "ONC";
+  } else {
+    // Default based on climate only
+    return isClimate ? "CC" : "NCC";
+  }
+}
+
+// The code the user assigned to this record's tag on the Feature Codes step
+export function featureCodeForRecord(record: RateRecord, featureCodes: FeatureCode[]): string {
+  const tag = buildTagFromRecord(record);
+  const fc = featureCodes.find((f) => f.originalTag === tag);
+  if (fc) return fc.code;
+
+  // Fallback: suggest code based on features
+  const isClimate = record.climateControlled;
+  if (record.driveUp) return isClimate ? "DUCC" : "DU";
+  if (record.elevator) return isClimate ? "ECC" : "ENCC";
+  return isClimate ? "GLCC" : "GNCC";
+}
@@ -0,0 +1,159 @@
+import type {
+  CollectionCadence,
+  DateRange,
+  GapSettings,
+  HistoricalPriceTable,
+  RateRecord,
+} from "./api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** StorTrack's list price: one calendar year of history for one store. */
+export const DEFAULT_PRICE_TABLE: HistoricalPriceTable = {
+  perStoreYear: 12.5,
+  byYear: {},
+};
+
+export const DEFAULT_GAP_SETTINGS: GapSettings = {
+  cadence: "daily",
+  priceTable: DEFAULT_PRICE_TABLE,
+};
+
+export interface GapAnalysis {
+  missingDays: number;
+  coveragePercent: number;
+  dateRanges: DateRange[];
+  yearsNeeded: number[];
+  estimatedCost: number;
+}
+
+function toDay(date: string): number {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function fromDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10);
+}
+
+/** Day-number bounds `[start, end]` of each collection period in the window. */
+function collectionPeriods(from: number, to: number, cadence: CollectionCadence): [number, number][] {
+  const periods: [number, number][] = [];
+  let start = from;
+  while (start <= to) {
+    let next: number;
+    if (cadence === "daily") {
+      next = start + DAY_MS;
+    } else if (cadence === "weekly") {
+      next = start + 7 * DAY_MS;
+    } else {
+      const date = new Date(start);
+      next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    }
+    periods.push([start, Math.min(next - DAY_MS, to)]);
+    start = next;
+  }
+  return periods;
+}
+
+/**
+ * Walks the window `from`..`to` (inclusive, YYYY-MM-DD) one collection period
+ * at a time. A period with no collected date is missing; adjacent missing
+ * periods merge into one range. `dates` may carry a time component.
+ */
+export function analyzeDateGaps(
+  dates: string[],
+  window: { from: string; to: string },
+  settings: GapSettings = DEFAULT_GAP_SETTINGS,
+): GapAnalysis {
+  const collected = dates.map((date) => toDay(date)).filter((day) => !Number.isNaN(day));
+  const periods = collectionPeriods(toDay(window.from), toDay(window.to), settings.cadence);
+  const dateRanges: DateRange[] = [];
+  let missingPeriods = 0;
+  let open: [number, number] | null = null;
+
+  for (const [start, end] of periods) {
+    if (collected.some((day) => day >= start && day <= end)) {
+      if (open) dateRanges.push({ from: fromDay(open[0]), to: fromDay(open[1]) });
+      open = null;
+      continue;
+    }
+    missingPeriods++;
+    open = open ? [open[0], end] : [start, end];
+  }
+  if (open) dateRanges.push({ from: fromDay(open[0]), to: fromDay(open[1]) });
+
+  const coveredPeriods = periods.length - missingPeriods;
+  return {
+    missingDays: dateRanges.reduce((sum, range) => sum + rangeDays(range), 0),
+    coveragePercent:
+      periods.length > 0 ? Math.round((coveredPeriods / periods.length) * 1000) / 10 : 100,
+    dateRanges,
+    yearsNeeded: yearsInRanges(dateRanges),
+    estimatedCost: historicalFetchCost(dateRanges, settings.priceTable),
+  };
+}
+
+export function rangeDays(range: DateRange): number {
+  return Math.round((toDay(range.to) - toDay(range.from)) / DAY_MS) + 1;
+}
+
+/** Calendar years touched by `ranges`, ascending. */
+export function yearsInRanges(ranges: DateRange[]): number[] {
+  const years = new Set<number>();
+  for (const range of ranges) {
+    for (let year = Number(range.from.slice(0, 4)); year <= Number(range.to.slice(0, 4)); year++) {
+      years.add(year);
+    }
+  }
+  return Array.from(years).sort((a, b) => a - b);
+}
+
+/** What pulling `ranges` for one store costs: each calendar year touched is billed once. */
+export function historicalFetchCost(
+  ranges: DateRange[],
+  priceTable: HistoricalPriceTable = DEFAULT_PRICE_TABLE,
+): number {
+  return yearsInRanges(ranges).reduce(
+    (sum, year) => sum + (priceTable.byYear[String(year)] ?? priceTable.perStoreYear),
+    0,
+  );
+}
+
+// Database and API rows describe sizes and features differently, so identify
+// a unit by its dimensions and access/climate flags rather than its labels.
+function rateRecordKey(record: RateRecord): string {
+  const size =
+    record.width && record.length ? `${record.width}x${record.length}` : record.size.trim().toLowerCase();
+  return [
+    record.storeId,
+    record.date.slice(0, 10),
+    size,
+    record.climateControlled,
+    record.driveUp,
+    record.elevator,
+    record.outdoorAccess,
+  ].join("|");
+}
+
+/**
+ * Appends `incoming` rows not already present in `existing`. Existing rows win,
+ * so database rows are kept over API rows for the same unit and day.
+ */
+export function mergeRateRecords(
+  existing: RateRecord[],
+  incoming: RateRecord[],
+): { records: RateRecord[]; duplicates: number } {
+  const seen = new Set(existing.map(rateRecordKey));
+  const records = [...existing];
+  let duplicates = 0;
+  for (const record of incoming) {
+    const key = rateRecordKey(record);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    records.push(record);
+  }
+  return { records, duplicates };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { Store } from "./api";
+import {
+  addressSimilarity,
+  fuzzyMatchScore,
+  normalizeAddress,
+  normalizePostalCode,
+  normalizeState,
+  postalCodeSimilarity,
+  rankStoresByAddress,
+  tokenSimilarity,
+} from "./matching";
+import {
+  DISTINCT_ADDRESSES,
+  EQUIVALENT_ADDRESSES,
+  NORMALIZED_ADDRESSES,
+  POSTAL_CODES,
+  STATES,
+} from "./__fixtures__/addresses";
+
+function store(storeId: number, address: string): Store {
+  return { storeId, storeName: `Store ${storeId}`, address, city: "Austin", state: "TX", zip: "78704" };
+}
+
+describe("normalizeAddress", () => {
+  it.each(NORMALIZED_ADDRESSES)("%s", (raw, normalized) => {
+    expect(normalizeAddress(raw)).toBe(normalized);
+  });
+
+  it("treats missing input as empty", () => {
+    expect(normalizeAddress(undefined as unknown as string)).toBe("");
+  });
+});
+
+describe("fuzzyMatchScore", () => {
+  it("ignores case and surrounding space", () => {
+    expect(fuzzyMatchScore("Public Storage", " public storage ")).toBe(1);
+  });
+
+  it("scores containment by the share of the longer string", () => {
+    expect(fuzzyMatchScore("CubeSmart", "CubeSmart Self Storage")).toBeCloseTo(9 / 22);
+  });
+
+  it("falls back to edit distance", () => {
+    // kitten -> sitting is three edits over seven characters
+    expect(fuzzyMatchScore("kitten", "sitting")).toBeCloseTo(4 / 7);
+  });
+
+  it("is 0 when either side is empty", () => {
+    expect(fuzzyMatchScore("", "Extra Space")).toBe(0);
+  });
+});
+
+describe("tokenSimilarity", () => {
+  it("ignores word order", () => {
+    expect(tokenSimilarity("main st 1234", "1234 main st")).toBe(1);
+  });
+
+  it("is the Dice coefficient of the word sets", () => {
+    expect(tokenSimilarity("2201 s congress ave", "2201 n congress ave")).toBe(0.75);
+  });
+
+  it("is 0 for blank input", () => {
+    expect(tokenSimilarity(" ", "1234 main st")).toBe(0);
+  });
+});
+
+describe("addressSimilarity", () => {
+  it.each(EQUIVALENT_ADDRESSES)("matches $salesforce to $stortrack ($case)", ({ salesforce, stortrack }) => {
+    expect(addressSimilarity(salesforce, stortrack)).toBe(1);
+  });
+
+  it.each(DISTINCT_ADDRESSES)("keeps $salesforce below $below against $stortrack ($case)", ({ salesforce, stortrack, below }) => {
+    expect(addressSimilarity(salesforce, stortrack)).toBeLessThan(below);
+  });
+
+  it("is 0 when either address is blank", () => {
+    expect(addressSimilarity("", "1234 Main St")).toBe(0);
+  });
+});
+
+describe("normalizeState", () => {
+  it.each(STATES)("%j becomes %j", (raw, normalized) => {
+    expect(normalizeState(raw)).toBe(normalized);
+  });
+});
+
+describe("normalizePostalCode", () => {
+  it.each(POSTAL_CODES)("%j becomes %j", (raw, normalized) => {
+    expect(normalizePostalCode(raw)).toBe(normalized);
+  });
+});
+
+describe("postalCodeSimilarity", () => {
+  it("matches a ZIP+4 to its ZIP", () => {
+    expect(postalCodeSimilarity("78701", "78701-4321")).toBe(1);
+  });
+
+  it("gives half credit within a sectional center", () => {
+    expect(postalCodeSimilarity("78701", "78745")).toBe(0.5);
+  });
+
+  it("is 0 across sectional centers or when a code is missing", () => {
+    expect(postalCodeSimilarity("78701", "77001")).toBe(0);
+    expect(postalCodeSimilarity("", "78701")).toBe(0);
+  });
+});
+
+describe("rankStoresByAddress", () => {
+  const stores = [
+    store(1, "2201 N Congress Ave"),
+    store(2, "1234 Main St"),
+    store(3, "2201 South Congress Avenue, Suite 110"),
+  ];
+
+  it("puts the same facility first despite suffix and spelling differences", () => {
+    const ranked = rankStoresByAddress(stores, "2201 S Congress Ave");
+    expect(ranked.map((result) => result.storeId)).toEqual([3, 1, 2]);
+    expect(ranked[0].addressScore).toBe(1);
+  });
+
+  it("keeps StorTrack's order without a street address", () => {
+    const ranked = rankStoresByAddress(stores, " ");
+    expect(ranked.map((result) => result.storeId)).toEqual([1, 2, 3]);
+    expect(ranked.every((result) => result.addressScore === null)).toBe(true);
+  });
+});
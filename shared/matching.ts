@@ -0,0 +1,263 @@
+import type { Store, StoreSearchResult } from "./api";
+
+// Name and street-address matching between what analysts type, StorTrack
+// stores and Salesforce records. Scores run from 0 (unrelated) to 1 (same).
+
+// USPS Publication 28 street suffixes, limited to the spellings seen in practice
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: "aly",
+  avenue: "ave",
+  av: "ave",
+  aven: "ave",
+  boulevard: "blvd",
+  boul: "blvd",
+  center: "ctr",
+  centre: "ctr",
+  circle: "cir",
+  court: "ct",
+  crossing: "xing",
+  drive: "dr",
+  drv: "dr",
+  expressway: "expy",
+  freeway: "fwy",
+  highway: "hwy",
+  hiway: "hwy",
+  lane: "ln",
+  parkway: "pkwy",
+  pky: "pkwy",
+  place: "pl",
+  plaza: "plz",
+  point: "pt",
+  road: "rd",
+  route: "rte",
+  square: "sq",
+  street: "st",
+  str: "st",
+  terrace: "ter",
+  trail: "trl",
+  turnpike: "tpke",
+};
+
+const DIRECTIONS: Record<string, string> = {
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+};
+
+const ORDINALS: Record<string, string> = {
+  first: "1st",
+  second: "2nd",
+  third: "3rd",
+  fourth: "4th",
+  fifth: "5th",
+  sixth: "6th",
+  seventh: "7th",
+  eighth: "8th",
+  ninth: "9th",
+  tenth: "10th",
+  eleventh: "11th",
+  twelfth: "12th",
+};
+
+const STREET_WORDS: Record<string, string> = { ...STREET_SUFFIXES, ...DIRECTIONS, ...ORDINALS };
+
+const STATE_ABBREVIATIONS: Record<string, string> = {
+  alabama: "al",
+  alaska: "ak",
+  arizona: "az",
+  arkansas: "ar",
+  california: "ca",
+  colorado: "co",
+  connecticut: "ct",
+  delaware: "de",
+  "district of columbia": "dc",
+  florida: "fl",
+  georgia: "ga",
+  hawaii: "hi",
+  idaho: "id",
+  illinois: "il",
+  indiana: "in",
+  iowa: "ia",
+  kansas: "ks",
+  kentucky: "ky",
+  louisiana: "la",
+  maine: "me",
+  maryland: "md",
+  massachusetts: "ma",
+  michigan: "mi",
+  minnesota: "mn",
+  mississippi: "ms",
+  missouri: "mo",
+  montana: "mt",
+  nebraska: "ne",
+  nevada: "nv",
+  "new hampshire": "nh",
+  "new jersey": "nj",
+  "new mexico": "nm",
+  "new york": "ny",
+  "north carolina": "nc",
+  "north dakota": "nd",
+  ohio: "oh",
+  oklahoma: "ok",
+  oregon: "or",
+  pennsylvania: "pa",
+  "rhode island": "ri",
+  "south carolina": "sc",
+  "south dakota": "sd",
+  tennessee: "tn",
+  texas: "tx",
+  utah: "ut",
+  vermont: "vt",
+  virginia: "va",
+  washington: "wa",
+  "west virginia": "wv",
+  wisconsin: "wi",
+  wyoming: "wy",
+};
+
+// Longest first so "west virginia" wins over "virginia"
+const STATE_PATTERN = new RegExp(
+  `\\b(${Object.keys(STATE_ABBREVIATIONS)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})\\b`,
+  "g",
+);
+
+// "Suite 200", "Ste. B", "Unit 4", "#12" and the like; the facility is the same either way
+const UNIT_PATTERN = /\s*(?:\b(?:suite|ste|unit|apt|apartment|bldg|building|rm|room)\b\.?|#)\s*[a-z0-9-]+\b/g;
+
+// Salesforce returns compound fields such as ShippingAddress as Python dict reprs
+export function parsePythonDict(dictStr: unknown): Record<string, unknown> | null {
+  if (!dictStr || typeof dictStr !== "string") return null;
+
+  try {
+    return JSON.parse(dictStr);
+  } catch {
+    try {
+      const jsonString = dictStr
+        .replace(/'/g, '"')
+        .replace(/None/g, "null")
+        .replace(/True/g, "true")
+        .replace(/False/g, "false");
+      return JSON.parse(jsonString);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Similarity from 0 to 1: containment ratio, else normalized edit distance. */
+export function fuzzyMatchScore(str1: string, str2: string): number {
+  if (!str1 || !str2) return 0;
+
+  const s1 = str1.toLowerCase().trim();
+  const s2 = str2.toLowerCase().trim();
+
+  if (s1 === s2) return 1;
+
+  const longer = s1.length > s2.length ? s1 : s2;
+  const shorter = s1.length > s2.length ? s2 : s1;
+
+  if (longer.length === 0) return 1;
+
+  if (longer.includes(shorter)) {
+    return shorter.length / longer.length;
+  }
+
+  const costs: number[] = [];
+  for (let i = 0; i <= s1.length; i++) {
+    let lastValue = i;
+    for (let j = 0; j <= s2.length; j++) {
+      if (i === 0) {
+        costs[j] = j;
+      } else if (j > 0) {
+        let newValue = costs[j - 1];
+        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
+          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
+        }
+        costs[j - 1] = lastValue;
+        lastValue = newValue;
+      }
+    }
+    if (i > 0) costs[s2.length] = lastValue;
+  }
+
+  return (longer.length - costs[s2.length]) / longer.length;
+}
+
+/**
+ * Lower-cased street address with units stripped, street words abbreviated
+ * the USPS way and ordinals written as numbers. State names are abbreviated
+ * after the first comma only, so "Washington Ave" stays a street.
+ */
+export function normalizeAddress(addr: string): string {
+  const [street, ...rest] = (addr || "").toLowerCase().replace(UNIT_PATTERN, "").split(",");
+  const locality = rest.map((part) => part.replace(STATE_PATTERN, (name) => STATE_ABBREVIATIONS[name]));
+  return [street, ...locality]
+    .join(" ")
+    .replace(/[.#]/g, "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_WORDS[word] ?? word)
+    .join(" ");
+}
+
+/** Dice coefficient of the two strings' word sets, so word order does not matter. */
+export function tokenSimilarity(str1: string, str2: string): number {
+  const words1 = new Set(str1.split(/\s+/).filter(Boolean));
+  const words2 = new Set(str2.split(/\s+/).filter(Boolean));
+  if (words1.size === 0 || words2.size === 0) return 0;
+  const shared = Array.from(words1).filter((word) => words2.has(word)).length;
+  return (2 * shared) / (words1.size + words2.size);
+}
+
+/** Best of the character and word scores between two normalized addresses. */
+export function addressSimilarity(addr1: string, addr2: string): number {
+  const a = normalizeAddress(addr1);
+  const b = normalizeAddress(addr2);
+  if (!a || !b) return 0;
+  return Math.max(fuzzyMatchScore(a, b), tokenSimilarity(a, b));
+}
+
+/** Two-letter lower-case state code from a code or full name; "" when unknown. */
+export function normalizeState(state: string): string {
+  const value = (state || "").toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+  if (STATE_ABBREVIATIONS[value]) return STATE_ABBREVIATIONS[value];
+  return Object.values(STATE_ABBREVIATIONS).includes(value) ? value : "";
+}
+
+/** The five-digit ZIP code, dropping any ZIP+4 suffix; "" when there is none. */
+export function normalizePostalCode(postalCode: string): string {
+  const match = /^\s*(\d{5})/.exec(postalCode || "");
+  return match ? match[1] : "";
+}
+
+/**
+ * 1 for the same ZIP code, 0.5 for the same three-digit prefix (a neighbouring
+ * ZIP in the same sectional center), otherwise 0.
+ */
+export function postalCodeSimilarity(postalCode1: string, postalCode2: string): number {
+  const a = normalizePostalCode(postalCode1);
+  const b = normalizePostalCode(postalCode2);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return a.slice(0, 3) === b.slice(0, 3) ? 0.5 : 0;
+}
+
+/**
+ * Scores each store's street address against the one the analyst entered and
+ * sorts best first. Without a street address the StorTrack order is kept and
+ * every score is null.
+ */
+export function rankStoresByAddress(stores: Store[], streetAddress: string): StoreSearchResult[] {
+  if (!normalizeAddress(streetAddress)) return stores.map((store) => ({ ...store, addressScore: null }));
+
+  return stores
+    .map((store) => ({ ...store, addressScore: addressSimilarity(streetAddress, store.address) }))
+    .sort((a, b) => b.addressScore - a.addressScore);
+}
@@ -0,0 +1,49 @@
+import type { MetadataField, MetadataProvenance, MetadataSource, StoreMetadata } from "./rca";
+
+// Where each metadata value came from (source, match score, who recorded it
+// and when), written out for the Metadata step badges and the workbook, CSV
+// and PDF exports.
+
+export const METADATA_SOURCE_LABELS: Record<MetadataSource, string> = {
+  salesforce_auto: "Auto-matched",
+  salesforce_confirmed: "Confirmed",
+  manual: "Manual",
+  stortrack: "StorTrack",
+};
+
+function scorePercent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/** Short form for badges and narrow table cells, e.g. "Auto-matched 82%". */
+export function provenanceLabel(provenance: MetadataProvenance | undefined): string {
+  if (!provenance) return "Unknown";
+  const label = METADATA_SOURCE_LABELS[provenance.source];
+  return provenance.matchScore === null ? label : `${label} ${scorePercent(provenance.matchScore)}`;
+}
+
+/** Full form for exports, e.g. "Confirmed 92% by jane on 2026-10-19". */
+export function describeProvenance(provenance: MetadataProvenance | undefined): string {
+  if (!provenance) return "Unknown";
+  const by = provenance.user ? ` by ${provenance.user}` : "";
+  return `${provenanceLabel(provenance)}${by} on ${provenance.recordedAt.slice(0, 10)}`;
+}
+
+/** Provenance of a field for export; empty when the field has no value. */
+export function fieldProvenance(metadata: StoreMetadata | undefined, field: MetadataField): string {
+  if (metadata?.[field] === null || metadata?.[field] === undefined) return "";
+  return describeProvenance(metadata.provenance?.[field]);
+}
+
+/** Marks the given fields as coming from one source. */
+export function stampProvenance(
+  metadata: StoreMetadata,
+  fields: readonly MetadataField[],
+  provenance: MetadataProvenance,
+): StoreMetadata {
+  const stamped = { ...metadata.provenance };
+  fields.forEach((field) => {
+    stamped[field] = provenance;
+  });
+  return { ...metadata, provenance: stamped };
+}
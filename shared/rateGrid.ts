@@ -0,0 +1,277 @@
+import type { RateRecord, Store } from "./api";
+import type { FeatureCode, SizeBucket, StoreMetadata, TradeArea } from "./rca";
+import { featureCodeForRecord } from "./featureCodes";
+import { explainAdjustment, type AdjustmentInput } from "./adjustments";
+import { storeBand, tradeAreaBands, type TradeAreaBand } from "./tradeArea";
+
+// The rate comparison grid shown on the Data Visualization step. Exports and
+// reports build from the same function so they always match the screen.
+
+// Default unit sizes from RCA_script.py
+export const DEFAULT_UNIT_SIZES = ["5x5", "5x10", "10x10", "10x15", "10x20", "10x25", "10x30"];
+export const ALL_UNIT_SIZES = ["5x5", "5x10", "10x5", "10x10", "10x15", "10x20", "10x25", "10x30", "10x40", "15x15", "15x20", "20x20"];
+
+export const TRAILING_PERIODS = [
+  { key: "t12", label: "T12", months: 12 },
+  { key: "t6", label: "T6", months: 6 },
+  { key: "t3", label: "T3", months: 3 },
+  { key: "t1", label: "T1", months: 1 },
+] as const;
+
+export interface GroupedStoreRow {
+  storeId: number;
+  storeName: string;
+  distance: number;
+  yearBuilt: number | null;
+  squareFootage: number | null;
+  isSubject: boolean;
+  t12Asking: number | null;
+  t12AskingAdj: number | null;
+  t12InStore: number | null;
+  t6Asking: number | null;
+  t6AskingAdj: number | null;
+  t6InStore: number | null;
+  t3Asking: number | null;
+  t3AskingAdj: number | null;
+  t3InStore: number | null;
+  t1Asking: number | null;
+  t1AskingAdj: number | null;
+  t1InStore: number | null;
+  adjustment: number;
+  // Label of the adjustment override that applied to this cell, if any
+  adjustmentOverride: string | null;
+  // Trade-area band label; null for a plain radius
+  band: string | null;
+  recordCount: number;
+}
+
+export type GroupedAverages = Omit<
+  GroupedStoreRow,
+  "storeId" | "storeName" | "distance" | "yearBuilt" | "squareFootage" | "isSubject" | "adjustment" | "adjustmentOverride" | "band" | "recordCount"
+>;
+
+export interface BandAverages {
+  band: TradeAreaBand;
+  storeCount: number;
+  averages: GroupedAverages;
+}
+
+export interface GroupedData {
+  size: string;
+  featureCode: string;
+  stores: GroupedStoreRow[];
+  averages: GroupedAverages;
+  // Competitor averages per trade-area band that has stores, nearest first
+  bandAverages: BandAverages[];
+  marketShare: number;
+}
+
+export interface RateGridInput extends AdjustmentInput {
+  selectedStores: Store[];
+  storeMetadata: Record<number, StoreMetadata>;
+  rateRecords: RateRecord[];
+  customNames: Record<number, string>;
+  featureCodes: FeatureCode[];
+  tradeArea: TradeArea;
+  selectedSizes: string[];
+}
+
+// Normalize size for comparison
+export function normalizeSize(size: string): string {
+  return size.toLowerCase().replace(/\s/g, "").replace(/'/g, "");
+}
+
+// Parse size for sorting
+export function parseSize(sizeStr: string): number {
+  const parts = sizeStr.toLowerCase().replace(/x/g, " ").replace(/'/g, "").split(/\s+/);
+  try {
+    if (parts.length >= 2) {
+      return parseFloat(parts[0]) * parseFloat(parts[1]);
+    }
+    return parseFloat(parts[0]) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+export const SIZE_BUCKET_LABELS: Record<SizeBucket, string> = {
+  small: "Small (up to 50 sq ft)",
+  medium: "Medium (51-150 sq ft)",
+  large: "Large (over 150 sq ft)",
+};
+
+export function sizeBucket(size: string): SizeBucket {
+  const area = parseSize(size);
+  if (area <= 50) return "small";
+  if (area <= 150) return "medium";
+  return "large";
+}
+
+// Calculate averages for records collected on or after startDate
+function calcAverages(records: RateRecord[], startDate: Date) {
+  const filtered = records.filter((r) => {
+    const date = new Date(r.date);
+    return date >= startDate;
+  });
+
+  const walkIn = filtered.filter((r) => r.walkInPrice).map((r) => r.walkInPrice!);
+  const online = filtered.filter((r) => r.onlinePrice).map((r) => r.onlinePrice!);
+
+  return {
+    inStore: walkIn.length > 0 ? walkIn.reduce((a, b) => a + b, 0) / walkIn.length : null,
+    asking: online.length > 0 ? online.reduce((a, b) => a + b, 0) / online.length : null,
+  };
+}
+
+// Unadjusted averages over each trailing period; there is no aggregate adjusted rate
+function periodAverages(records: RateRecord[], starts: Record<"t12" | "t6" | "t3" | "t1", Date>): GroupedAverages {
+  const t12 = calcAverages(records, starts.t12);
+  const t6 = calcAverages(records, starts.t6);
+  const t3 = calcAverages(records, starts.t3);
+  const t1 = calcAverages(records, starts.t1);
+  return {
+    t12Asking: t12.asking,
+    t12AskingAdj: null,
+    t12InStore: t12.inStore,
+    t6Asking: t6.asking,
+    t6AskingAdj: null,
+    t6InStore: t6.inStore,
+    t3Asking: t3.asking,
+    t3AskingAdj: null,
+    t3InStore: t3.inStore,
+    t1Asking: t1.asking,
+    t1AskingAdj: null,
+    t1InStore: t1.inStore,
+  };
+}
+
+/** Groups rate records by (size, feature code) with trailing-period averages per store. */
+export function buildRateGrid(input: RateGridInput, now = new Date()): GroupedData[] {
+  const { rateRecords, selectedStores, storeMetadata, customNames, subjectStore } = input;
+  if (rateRecords.length === 0) return [];
+
+  const t12Start = new Date(now);
+  t12Start.setMonth(t12Start.getMonth() - 12);
+  const t6Start = new Date(now);
+  t6Start.setMonth(t6Start.getMonth() - 6);
+  const t3Start = new Date(now);
+  t3Start.setMonth(t3Start.getMonth() - 3);
+  const t1Start = new Date(now);
+  t1Start.setMonth(t1Start.getMonth() - 1);
+
+  // Filter to selected sizes
+  const allowedSizes = new Set(input.selectedSizes.map((s) => normalizeSize(s)));
+
+  // Group by (size, featureCode)
+  const groups: Record<string, Record<number, RateRecord[]>> = {};
+
+  rateRecords.forEach((record) => {
+    const size = record.size || "";
+    const normalizedSize = normalizeSize(size);
+
+    if (!allowedSizes.has(normalizedSize)) return;
+
+    const featureCode = featureCodeForRecord(record, input.featureCodes);
+    const groupKey = `${size}|${featureCode}`;
+
+    if (!groups[groupKey]) {
+      groups[groupKey] = {};
+    }
+
+    if (!groups[groupKey][record.storeId]) {
+      groups[groupKey][record.storeId] = [];
+    }
+
+    groups[groupKey][record.storeId].push(record);
+  });
+
+  // Build grouped data
+  const result: GroupedData[] = [];
+  const totalRecords = rateRecords.length;
+  const periodStarts = { t12: t12Start, t6: t6Start, t3: t3Start, t1: t1Start };
+  const bands = tradeAreaBands(input.tradeArea);
+  const bandOf = (store: Store | undefined) => (store ? storeBand(store, input.tradeArea) : null);
+
+  Object.entries(groups).forEach(([groupKey, storeRecords]) => {
+    const [size, featureCode] = groupKey.split("|");
+    const scope = { featureCode, sizeBucket: sizeBucket(size) };
+
+    const storeData = Object.entries(storeRecords).map(([storeIdStr, records]) => {
+      const storeId = parseInt(storeIdStr);
+      const store = selectedStores.find((s) => s.storeId === storeId);
+      const metadata = storeMetadata[storeId];
+      const breakdown = explainAdjustment(storeId, input, scope);
+      const adjustment = breakdown.percent / 100;
+
+      const t12 = calcAverages(records, t12Start);
+      const t6 = calcAverages(records, t6Start);
+      const t3 = calcAverages(records, t3Start);
+      const t1 = calcAverages(records, t1Start);
+
+      return {
+        storeId,
+        storeName: customNames[storeId] || store?.storeName || "Unknown",
+        distance: store?.distance || 0,
+        yearBuilt: metadata?.yearBuilt || null,
+        squareFootage: metadata?.squareFootage || null,
+        isSubject: subjectStore?.storeId === storeId,
+        t12Asking: t12.asking,
+        t12AskingAdj: t12.asking ? t12.asking * (1 + adjustment) : null,
+        t12InStore: t12.inStore,
+        t6Asking: t6.asking,
+        t6AskingAdj: t6.asking ? t6.asking * (1 + adjustment) : null,
+        t6InStore: t6.inStore,
+        t3Asking: t3.asking,
+        t3AskingAdj: t3.asking ? t3.asking * (1 + adjustment) : null,
+        t3InStore: t3.inStore,
+        t1Asking: t1.asking,
+        t1AskingAdj: t1.asking ? t1.asking * (1 + adjustment) : null,
+        t1InStore: t1.inStore,
+        adjustment,
+        adjustmentOverride: breakdown.override ? breakdown.override.label || "Override" : null,
+        band: bandOf(store)?.label ?? null,
+        recordCount: records.length,
+      };
+    });
+
+    // Sort stores: subject first, then by distance
+    storeData.sort((a, b) => {
+      if (a.isSubject) return -1;
+      if (b.isSubject) return 1;
+      return a.distance - b.distance;
+    });
+
+    // Calculate group averages
+    const allGroupRecords = Object.values(storeRecords).flat();
+
+    // Band averages compare competitors only, so the subject is left out
+    const bandAverages = bands.flatMap((band) => {
+      const competitors = storeData.filter((row) => !row.isSubject && row.band === band.label);
+      if (competitors.length === 0) return [];
+      const records = competitors.flatMap((row) => storeRecords[row.storeId]);
+      return [{ band, storeCount: competitors.length, averages: periodAverages(records, periodStarts) }];
+    });
+
+    // Market share (percentage of total records in this group)
+    const groupRecordCount = allGroupRecords.length;
+    const marketShare = (groupRecordCount / totalRecords) * 100;
+
+    result.push({
+      size,
+      featureCode,
+      stores: storeData,
+      averages: periodAverages(allGroupRecords, periodStarts),
+      bandAverages,
+      marketShare,
+    });
+  });
+
+  // Sort by size then feature code
+  result.sort((a, b) => {
+    const sizeCompare = parseSize(a.size) - parseSize(b.size);
+    if (sizeCompare !== 0) return sizeCompare;
+    return a.featureCode.localeCompare(b.featureCode);
+  });
+
+  return result;
+}
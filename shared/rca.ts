@@ -0,0 +1,140 @@
+import type { SalesforceMatch } from "./api";
+
+// Analysis inputs the wizard collects and that both the rate grid and the
+// server-side reports read. The client re-exports these from types/rca.ts.
+
+// Where a metadata value came from: the best fuzzy match when stores were
+// selected, a Salesforce record an analyst picked, typed in by hand, or
+// StorTrack's store info for facility attributes Salesforce lacks
+export const METADATA_SOURCES = ["salesforce_auto", "salesforce_confirmed", "manual", "stortrack"] as const;
+
+export type MetadataSource = (typeof METADATA_SOURCES)[number];
+
+// Who runs the facility: a public storage REIT, a third-party management
+// company, or the owner
+export const MANAGEMENT_TYPES = ["reit", "operator", "independent"] as const;
+
+export type ManagementType = (typeof MANAGEMENT_TYPES)[number];
+
+export interface FacilityAttributes {
+  unitCount: number | null;
+  stories: number | null;
+  // 0–100
+  climateControlledPercent: number | null;
+  occupancyPercent: number | null;
+  // As written in Salesforce, e.g. "6am-10pm" or "24 hours"
+  gateHours: string | null;
+  managementType: ManagementType | null;
+}
+
+export const FACILITY_FIELDS = [
+  "unitCount",
+  "stories",
+  "climateControlledPercent",
+  "occupancyPercent",
+  "gateHours",
+  "managementType",
+] as const satisfies readonly (keyof FacilityAttributes)[];
+
+export const METADATA_FIELDS = ["yearBuilt", "squareFootage", ...FACILITY_FIELDS] as const;
+
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+
+export interface MetadataProvenance {
+  source: MetadataSource;
+  // Combined Salesforce match score (0–1); null for manual entries
+  matchScore: number | null;
+  // Username of whoever confirmed or entered the value; null when automatic
+  user: string | null;
+  // ISO timestamp
+  recordedAt: string;
+}
+
+// Facility attributes are optional so analyses saved before they existed still load
+export interface StoreMetadata extends Partial<FacilityAttributes> {
+  yearBuilt: number | null;
+  squareFootage: number | null;
+  distance?: number;
+  salesforceMatch?: SalesforceMatch | null;
+  // Taken from a saved store identity link rather than fuzzy matching
+  linked?: boolean;
+  // Per field; analyses saved before provenance was tracked have none
+  provenance?: Partial<Record<MetadataField, MetadataProvenance>>;
+}
+
+export const RANKING_CATEGORIES = [
+  "Location",
+  "Age",
+  "Accessibility",
+  "VPD",
+  "Visibility & Signage",
+  "Brand",
+  "Quality",
+  "Size",
+] as const;
+
+export type RankingCategory = (typeof RANKING_CATEGORIES)[number];
+
+export type StoreRankings = Record<RankingCategory, number>;
+
+export interface AdjustmentFactors {
+  captiveMarketPremium: number;
+  lossToLease: number;
+  ccAdj: number;
+}
+
+// The team preset an analysis's adjustments came from. `modified` turns on
+// once the factors or model are edited after applying it.
+export interface AppliedAdjustmentPreset {
+  id: number;
+  name: string;
+  version: number;
+  modified: boolean;
+}
+
+// Unit size buckets an adjustment override can be limited to, by unit area
+export const SIZE_BUCKETS = ["small", "medium", "large"] as const;
+
+export type SizeBucket = (typeof SIZE_BUCKETS)[number];
+
+// Replaces some of the adjustment factors for rates in the listed feature
+// codes and size buckets. An empty list matches every code or bucket.
+export interface AdjustmentOverride {
+  id: string;
+  label: string;
+  featureCodes: string[];
+  sizeBuckets: SizeBucket[];
+  factors: Partial<AdjustmentFactors>;
+}
+
+// How ranking differences turn into a competitor's rate adjustment
+export interface AdjustmentModel {
+  // Relative importance of each category; 0 leaves it out
+  weights: Record<RankingCategory, number>;
+  // Percent per point of weighted ranking difference (subject minus competitor)
+  pointPercent: number;
+  // Bounds on a competitor's total adjustment in percent; null means unbounded
+  floorPercent: number | null;
+  capPercent: number | null;
+  // Checked in order; the first one matching a grid cell applies there
+  overrides: AdjustmentOverride[];
+}
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// How competitors are grouped around the subject store: the plain search
+// radius, distance bands given by their outer edges in miles, or an area
+// drawn on the Competitors step map
+export type TradeArea =
+  | { kind: "radius" }
+  | { kind: "rings"; edges: number[] }
+  | { kind: "polygon"; points: LatLng[] };
+
+export interface FeatureCode {
+  originalTag: string;
+  code: string;
+  count: number;
+}
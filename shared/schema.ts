@@ -1,17 +1,163 @@
-import { pgTable, text, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, primaryKey, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type {
+  HistoricalFillRequest,
+  HistoricalFillResponse,
+  JobStatus,
+  JobStoreProgress,
+  JobType,
+  SalesforceMatch,
+  UserRole,
+} from "./api";
+import type { AdjustmentFactors, AdjustmentModel, FacilityAttributes } from "./rca";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull(),
+  // scrypt "salt:hash", see server/auth.ts
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
 });
 
 export const insertUserSchema = createInsertSchema(users, {
   username: z.string().min(1),
   email: z.string().email(),
-}).omit({ id: true });
+}).omit({ id: true, passwordHash: true, role: true });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type NewUser = Omit<User, "id">;
+
+// A saved RCA wizard session. `state` is the client's RCAWizardState without
+// its transient fields (loading flags, errors); the server treats it as opaque
+// apart from copying a few summary fields out of it for the dashboard.
+export const analyses = pgTable("analyses", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  currentStep: integer("current_step").notNull().default(1),
+  state: jsonb("state").$type<Record<string, unknown>>().notNull(),
+  subjectStoreName: text("subject_store_name"),
+  competitorCount: integer("competitor_count").notNull().default(0),
+  archived: boolean("archived").notNull().default(false),
+  ownerId: integer("owner_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type Analysis = typeof analyses.$inferSelect;
+export type InsertAnalysis = Pick<Analysis, "name" | "currentStep" | "state"> &
+  Partial<Pick<Analysis, "archived" | "ownerId">>;
+
+// Analyses the owner has shared with other users, who can then open and edit them.
+export const analysisShares = pgTable(
+  "analysis_shares",
+  {
+    analysisId: integer("analysis_id")
+      .notNull()
+      .references(() => analyses.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.analysisId, table.userId] })],
+);
+
+export type AnalysisShare = typeof analysisShares.$inferSelect;
+
+// Second tier of the server response cache (server/cache.ts), used when a
+// database is configured so cached StorTrack/MCP responses survive restarts.
+export const apiCache = pgTable("api_cache", {
+  key: text("key").primaryKey(),
+  action: text("action").notNull(),
+  value: jsonb("value").notNull(),
+  storeIds: integer("store_ids").array().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Background work run by server/jobs.ts. Rows outlive the process so a client
+// can still read a job's outcome after reconnecting.
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").$type<JobType>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  ownerId: integer("owner_id").references(() => users.id, { onDelete: "cascade" }),
+  request: jsonb("request").$type<HistoricalFillRequest>().notNull(),
+  progress: jsonb("progress").$type<JobStoreProgress[]>().notNull(),
+  result: jsonb("result").$type<HistoricalFillResponse>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = Pick<Job, "type" | "ownerId" | "request" | "progress">;
+export type JobUpdate = Partial<Pick<Job, "status" | "progress" | "result" | "error">>;
+
+// Named adjustment assumptions shared by the team. Editing a preset adds a
+// version instead of changing the old one, so an analysis that recorded
+// "preset 3, version 2" can always see exactly what it applied.
+export const adjustmentPresets = pgTable("adjustment_presets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull().default(""),
+  market: text("market"),
+  currentVersion: integer("current_version").notNull().default(1),
+  archived: boolean("archived").notNull().default(false),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const adjustmentPresetVersions = pgTable(
+  "adjustment_preset_versions",
+  {
+    presetId: integer("preset_id")
+      .notNull()
+      .references(() => adjustmentPresets.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    factors: jsonb("factors").$type<AdjustmentFactors>().notNull(),
+    model: jsonb("model").$type<AdjustmentModel>().notNull(),
+    note: text("note").notNull().default(""),
+    createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.presetId, table.version] })],
+);
+
+export type AdjustmentPresetRow = typeof adjustmentPresets.$inferSelect;
+export type AdjustmentPresetVersionRow = typeof adjustmentPresetVersions.$inferSelect;
+/** A preset with its current version's values, as storage returns it. */
+export type AdjustmentPresetRecord = AdjustmentPresetRow &
+  Pick<AdjustmentPresetVersionRow, "factors" | "model"> & { updatedByName: string | null };
+export type AdjustmentPresetVersionRecord = AdjustmentPresetVersionRow & { createdByName: string | null };
+export type InsertAdjustmentPreset = Pick<AdjustmentPresetRow, "name" | "description" | "market"> &
+  Pick<AdjustmentPresetVersionRow, "factors" | "model" | "note" | "createdBy">;
+
+// The Salesforce record an analyst confirmed for a StorTrack store, or a note
+// that none matches along with the facts they entered by hand. Consulted
+// before fuzzy matching, so each store only has to be verified once.
+export const storeIdentityLinks = pgTable("store_identity_links", {
+  storeId: integer("store_id").primaryKey(),
+  // The store as it was when linked, so admins can review without StorTrack
+  storeName: text("store_name").notNull(),
+  address: text("address").notNull().default(""),
+  city: text("city").notNull().default(""),
+  state: text("state").notNull().default(""),
+  zip: text("zip").notNull().default(""),
+  // Null means "no Salesforce record matches"
+  salesforceMatch: jsonb("salesforce_match").$type<SalesforceMatch>(),
+  yearBuilt: integer("year_built"),
+  squareFootage: doublePrecision("square_footage"),
+  facility: jsonb("facility").$type<FacilityAttributes>(),
+  linkedBy: integer("linked_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type StoreIdentityLinkRow = typeof storeIdentityLinks.$inferSelect;
+export type StoreIdentityLinkRecord = StoreIdentityLinkRow & { linkedByName: string | null };
+export type InsertStoreIdentityLink = Omit<StoreIdentityLinkRow, "createdAt" | "updatedAt">;
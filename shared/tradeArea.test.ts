@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import type { Store } from "./api";
+import { withCoordinates } from "./tradeArea";
+
+function store(storeId: number, latitude?: number, longitude?: number): Store {
+  return { storeId, storeName: `Store ${storeId}`, address: "", city: "", state: "", zip: "", latitude, longitude };
+}
+
+describe("withCoordinates", () => {
+  it("fills coordinates from the located store with the same ID", () => {
+    const stores = [store(1), store(2)];
+    const located = [store(2, 30.25, -97.75), store(1, 30.27, -97.74)];
+
+    expect(withCoordinates(stores, located)).toEqual([store(1, 30.27, -97.74), store(2, 30.25, -97.75)]);
+  });
+
+  it("keeps coordinates the store already has", () => {
+    expect(withCoordinates([store(1, 30.27, -97.74)], [store(1, 40, -80)])).toEqual([store(1, 30.27, -97.74)]);
+  });
+
+  it("leaves stores unlocated when the lookup has no coordinates for them", () => {
+    const stores = [store(1), store(2)];
+
+    expect(withCoordinates(stores, [store(1, null, null)])).toEqual(stores);
+  });
+});
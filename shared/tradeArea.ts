@@ -0,0 +1,110 @@
+import type { Store } from "./api";
+import type { LatLng, TradeArea } from "./rca";
+
+// Classifies competitors into the bands of a trade area, for band averages on
+// the Data Visualization step and labels on the Competitors step.
+
+export const DEFAULT_TRADE_AREA: TradeArea = { kind: "radius" };
+
+export const DEFAULT_RING_EDGES = [1, 3, 5];
+
+// Stores beyond the last ring or outside the polygon
+export const OUTSIDE_BAND = "outside";
+
+export interface TradeAreaBand {
+  key: string;
+  label: string;
+}
+
+function formatMiles(miles: number): string {
+  return String(Math.round(miles * 100) / 100);
+}
+
+// Positive, ascending and without duplicates
+export function ringEdges(edges: number[]): number[] {
+  return [...new Set(edges.filter((edge) => Number.isFinite(edge) && edge > 0))].sort((a, b) => a - b);
+}
+
+// One line for report covers, e.g. "Rings at 1, 3, 5 mi"
+export function describeTradeArea(area: TradeArea): string {
+  if (area.kind === "rings" && ringEdges(area.edges).length > 0) {
+    return `Rings at ${ringEdges(area.edges).map(formatMiles).join(", ")} mi`;
+  }
+  if (area.kind === "polygon" && area.points.length >= 3) {
+    return `Drawn area (${area.points.length} corners)`;
+  }
+  return "Search radius";
+}
+
+/** Bands in display order, nearest first; a plain radius has none. */
+export function tradeAreaBands(area: TradeArea): TradeAreaBand[] {
+  if (area.kind === "rings") {
+    const edges = ringEdges(area.edges);
+    if (edges.length === 0) return [];
+    const rings = edges.map((edge, i) => {
+      const inner = i === 0 ? 0 : edges[i - 1];
+      return { key: `${inner}-${edge}`, label: `${formatMiles(inner)}–${formatMiles(edge)} mi` };
+    });
+    return [...rings, { key: OUTSIDE_BAND, label: `Beyond ${formatMiles(edges[edges.length - 1])} mi` }];
+  }
+  if (area.kind === "polygon" && area.points.length >= 3) {
+    return [
+      { key: "inside", label: "Inside trade area" },
+      { key: OUTSIDE_BAND, label: "Outside trade area" },
+    ];
+  }
+  return [];
+}
+
+export function hasCoordinates(store: Store): boolean {
+  return typeof store.latitude === "number" && typeof store.longitude === "number";
+}
+
+/**
+ * Copies coordinates from \`located\` (matched by store ID) onto stores that lack
+ * them; StorTrack's competitor search doesn't return any.
+ */
+export function withCoordinates(stores: Store[], located: Store[]): Store[] {
+  const byId = new Map(located.filter(hasCoordinates).map((store) => [store.storeId, store]));
+  return stores.map((store) => {
+    const match = byId.get(store.storeId);
+    if (hasCoordinates(store) || !match) return store;
+    return { ...store, latitude: match.latitude, longitude: match.longitude };
+  });
+}
+
+// Ray casting; treats latitude/longitude as planar, which is fine at trade-area scale
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * The band a store falls in. Null for a plain radius, and for polygon trade
+ * areas when the store has no coordinates. A ring includes its outer edge.
+ */
+export function storeBand(store: Store, area: TradeArea): TradeAreaBand | null {
+  const bands = tradeAreaBands(area);
+  if (bands.length === 0) return null;
+
+  if (area.kind === "rings") {
+    const distance = store.distance ?? 0;
+    const index = ringEdges(area.edges).findIndex((edge) => distance <= edge);
+    return index === -1 ? bands[bands.length - 1] : bands[index];
+  }
+
+  if (area.kind !== "polygon" || !hasCoordinates(store)) {
+    return null;
+  }
+  const point = { latitude: store.latitude, longitude: store.longitude };
+  return pointInPolygon(point, area.points) ? bands[0] : bands[1];
+}